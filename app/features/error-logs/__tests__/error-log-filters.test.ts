@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {parseErrorLogFilters, toErrorLogSearch} from "../utils/error-log-filters.js";
+
+test("parseErrorLogFilters: 既定は未解決・1ページ目", () => {
+  const filters = parseErrorLogFilters(new URLSearchParams(""));
+  assert.deepEqual(filters, {reason: null, resolved: "unresolved", page: 1});
+});
+
+test("parseErrorLogFilters: 不正な状態・ページは既定値に戻す", () => {
+  const filters = parseErrorLogFilters(new URLSearchParams("resolved=unknown&page=-2&reason=%20"));
+  assert.deepEqual(filters, {reason: null, resolved: "unresolved", page: 1});
+});
+
+test("toErrorLogSearch: 既定値を省略しhostを保持する", () => {
+  const search = toErrorLogSearch(
+    {reason: "no matching rule found", resolved: "all", page: 2},
+    "abc",
+  );
+  const params = new URLSearchParams(search.slice(1));
+  assert.equal(params.get("host"), "abc");
+  assert.equal(params.get("reason"), "no matching rule found");
+  assert.equal(params.get("resolved"), "all");
+  assert.equal(params.get("page"), "2");
+  assert.equal(toErrorLogSearch({resolved: "unresolved", page: 1}), "");
+});
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  MAX_RETRY_ATTEMPTS,
+  appendRetryAttempt,
+  parseRetryAttempts,
+} from "../utils/retry-attempts.js";
+
+test("parseRetryAttempts: 配列以外や日時のない要素は除外する", () => {
+  assert.deepEqual(parseRetryAttempts("invalid"), []);
+  const attempts = parseRetryAttempts([
+    {at: "2025-05-01T00:00:00.000Z", ok: true, message: "ship-by 2025-05-03"},
+    {ok: false, message: "no at"},
+    null,
+  ]);
+  assert.equal(attempts.length, 1);
+  assert.equal(attempts[0]?.ok, true);
+});
+
+test("appendRetryAttempt: 末尾に追加し上限を超えたら古いものから捨てる", () => {
+  const existing = Array.from({length: MAX_RETRY_ATTEMPTS}, (_, index) => ({
+    at: `2025-05-01T00:00:${String(index).padStart(2, "0")}.000Z`,
+    ok: false,
+    message: `attempt-${index}`,
+  }));
+  const next = appendRetryAttempt(existing, {
+    at: "2025-05-02T00:00:00.000Z",
+    ok: true,
+    message: "ship-by 2025-05-03",
+  });
+  assert.equal(next.length, MAX_RETRY_ATTEMPTS);
+  assert.equal(next[0]?.message, "attempt-1");
+  assert.equal(next.at(-1)?.ok, true);
+});
@@ -0,0 +1,139 @@
+import type {ErrorLogKind} from "@prisma/client";
+
+import prisma from "../../../db.server";
+import {ERROR_LOG_PAGE_SIZE, type ErrorLogFilters} from "../utils/error-log-filters";
+import {parseRetryAttempts, type RetryAttempt} from "../utils/retry-attempts";
+
+// 一覧表示用のエラー記録
+export type ErrorLogSummary = {
+  id: string;
+  orderId: string;
+  kind: ErrorLogKind;
+  reason: string;
+  memo: string | null;
+  resolved: boolean;
+  createdAt: string;
+};
+
+// 詳細表示用のエラー記録（rawData を整形済み文字列で持つ）
+export type ErrorLogDetail = ErrorLogSummary & {
+  rawData: string | null;
+  attempts: RetryAttempt[];
+  updatedAt: string;
+};
+
+const buildWhere = (shopId: string, filters: Omit<ErrorLogFilters, "page">) => ({
+  shopId,
+  ...(filters.reason ? {reason: filters.reason} : {}),
+  ...(filters.resolved === "all" ? {} : {resolved: filters.resolved === "resolved"}),
+});
+
+// 絞り込み条件に一致するエラー記録を新しい順に取得する
+export const listErrorLogs = async ({
+  shopId,
+  filters,
+}: {
+  shopId: string;
+  filters: ErrorLogFilters;
+}): Promise<{items: ErrorLogSummary[]; total: number; hasNext: boolean}> => {
+  const where = buildWhere(shopId, filters);
+  const [rows, total] = await Promise.all([
+    prisma.errorLog.findMany({
+      where,
+      orderBy: {createdAt: "desc"},
+      skip: (filters.page - 1) * ERROR_LOG_PAGE_SIZE,
+      take: ERROR_LOG_PAGE_SIZE,
+      select: {
+        id: true,
+        orderId: true,
+        kind: true,
+        reason: true,
+        memo: true,
+        resolved: true,
+        createdAt: true,
+      },
+    }),
+    prisma.errorLog.count({where}),
+  ]);
+
+  return {
+    items: rows.map((row) => ({
+      id: row.id,
+      orderId: row.orderId.toString(),
+      kind: row.kind,
+      reason: row.reason,
+      memo: row.memo,
+      resolved: row.resolved,
+      createdAt: row.createdAt.toISOString(),
+    })),
+    total,
+    hasNext: filters.page * ERROR_LOG_PAGE_SIZE < total,
+  };
+};
+
+// 絞り込み用にエラー理由の一覧と件数を取得する
+export const listErrorReasons = async (shopId: string) => {
+  const groups = await prisma.errorLog.groupBy({
+    by: ["reason"],
+    where: {shopId},
+    _count: {_all: true},
+    orderBy: {reason: "asc"},
+  });
+
+  return groups.map((group) => ({reason: group.reason, count: group._count._all}));
+};
+
+// 未解決のエラー件数（ダッシュボードのバッジ用。警告は含めない）
+export const countUnresolvedErrors = async (shopId: string) =>
+  prisma.errorLog.count({where: {shopId, kind: "error", resolved: false}});
+
+// エラー記録を1件取得する（他店舗のIDは null）
+export const getErrorLog = async (
+  shopId: string,
+  id: string,
+): Promise<ErrorLogDetail | null> => {
+  const row = await prisma.errorLog.findFirst({where: {id, shopId}});
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    orderId: row.orderId.toString(),
+    kind: row.kind,
+    reason: row.reason,
+    memo: row.memo,
+    resolved: row.resolved,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    rawData: row.rawData == null ? null : JSON.stringify(row.rawData, null, 2),
+    attempts: parseRetryAttempts(row.attempts),
+  };
+};
+
+// メモと解決状態を更新する
+export const updateErrorLog = async ({
+  shopId,
+  id,
+  memo,
+  resolved,
+}: {
+  shopId: string;
+  id: string;
+  memo: string | null;
+  resolved: boolean;
+}) => {
+  const result = await prisma.errorLog.updateMany({
+    where: {id, shopId},
+    data: {memo, resolved},
+  });
+  return result.count > 0;
+};
+
+// 選択したエラー記録をまとめて解決済みにする
+export const resolveErrorLogs = async (shopId: string, ids: string[]) => {
+  if (ids.length === 0) return 0;
+  const result = await prisma.errorLog.updateMany({
+    where: {shopId, id: {in: ids}},
+    data: {resolved: true},
+  });
+  return result.count;
+};
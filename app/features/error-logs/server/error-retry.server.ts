@@ -0,0 +1,58 @@
+import prisma from "../../../db.server";
+import {applyShipByToOrder} from "../../ship-by/server/orders-create.server";
+import {fetchOrderPayload} from "../../ship-by/server/order-fetch.server";
+import {toISODate} from "../../ship-by/server/ship-by.server";
+import {appendRetryAttempt} from "../utils/retry-attempts";
+
+export type RetryResult =
+  | {ok: true; shipBy: string}
+  | {ok: false; message: string};
+
+// 注文を再取得して出荷期限を再計算する。成功したら解決済みにし、結果を試行履歴に残す
+export const retryErrorLog = async (
+  shopId: string,
+  id: string,
+): Promise<RetryResult | null> => {
+  const row = await prisma.errorLog.findFirst({
+    where: {id, shopId},
+    select: {id: true, orderId: true, kind: true, attempts: true},
+  });
+  if (!row) return null;
+
+  let result: RetryResult;
+  let stillInfeasible = false;
+  try {
+    const payload =
+      row.orderId > BigInt(0) ? await fetchOrderPayload(shopId, row.orderId) : null;
+    if (!payload) {
+      result = {
+        ok: false,
+        message: row.orderId > BigInt(0) ? "order not found" : "order id missing",
+      };
+    } else {
+      const applied = await applyShipByToOrder(shopId, payload);
+      stillInfeasible = applied.ok && applied.shortfallDays != null;
+      result = applied.ok
+        ? {ok: true, shipBy: toISODate(applied.shipBy)}
+        : {ok: false, message: applied.reason};
+    }
+  } catch (error) {
+    console.error("[error-retry] failed", error);
+    result = {ok: false, message: error instanceof Error ? error.message : "unknown error"};
+  }
+
+  await prisma.errorLog.update({
+    where: {id: row.id},
+    data: {
+      attempts: appendRetryAttempt(row.attempts, {
+        at: new Date().toISOString(),
+        ok: result.ok,
+        message: result.ok ? `ship-by ${result.shipBy}` : result.message,
+      }),
+      // 間に合わない注文の警告は、再計算しても間に合わないままなら未解決に残す
+      ...(result.ok && !(row.kind === "warning" && stillInfeasible) ? {resolved: true} : {}),
+    },
+  });
+
+  return result;
+};
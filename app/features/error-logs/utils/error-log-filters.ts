@@ -0,0 +1,45 @@
+// 一覧の1ページあたりの件数
+export const ERROR_LOG_PAGE_SIZE = 50;
+
+export type ResolvedFilter = "unresolved" | "resolved" | "all";
+
+// 一覧の絞り込み条件
+export type ErrorLogFilters = {
+  reason: string | null;
+  resolved: ResolvedFilter;
+  page: number;
+};
+
+const RESOLVED_FILTERS: ResolvedFilter[] = ["unresolved", "resolved", "all"];
+
+// URLクエリから絞り込み条件を取り出す（既定は未解決のみ・1ページ目）
+export const parseErrorLogFilters = (params: URLSearchParams): ErrorLogFilters => {
+  const reason = params.get("reason")?.trim() || null;
+  const rawResolved = params.get("resolved") ?? "";
+  const resolved = RESOLVED_FILTERS.includes(rawResolved as ResolvedFilter)
+    ? (rawResolved as ResolvedFilter)
+    : "unresolved";
+  const rawPage = Number.parseInt(params.get("page") ?? "", 10);
+  const page = Number.isFinite(rawPage) && rawPage > 0 ? rawPage : 1;
+
+  return {reason, resolved, page};
+};
+
+// 絞り込み条件をURLクエリに戻す（既定値は省略）
+export const toErrorLogSearch = (
+  filters: Partial<ErrorLogFilters>,
+  host?: string | null,
+): string => {
+  const params = new URLSearchParams();
+  if (host) params.set("host", host);
+  if (filters.reason) params.set("reason", filters.reason);
+  if (filters.resolved && filters.resolved !== "unresolved") {
+    params.set("resolved", filters.resolved);
+  }
+  if (filters.page && filters.page > 1) params.set("page", String(filters.page));
+  const search = params.toString();
+  return search ? `?${search}` : "";
+};
+
+// メモの最大文字数
+export const MAX_MEMO_LENGTH = 1000;
@@ -0,0 +1,29 @@
+// 再計算の試行履歴（ErrorLog.attempts に保存）
+export type RetryAttempt = {
+  at: string;
+  ok: boolean;
+  message: string;
+};
+
+// 履歴として保持する最大件数（古いものから捨てる）
+export const MAX_RETRY_ATTEMPTS = 20;
+
+// DB の Json 値から試行履歴を取り出す（不正な要素は除外）
+export const parseRetryAttempts = (value: unknown): RetryAttempt[] => {
+  const list = Array.isArray(value) ? value : [];
+  return list
+    .map((item) => {
+      const obj = item as Partial<RetryAttempt> | null;
+      if (!obj || typeof obj.at !== "string") return null;
+      return {
+        at: obj.at,
+        ok: obj.ok === true,
+        message: typeof obj.message === "string" ? obj.message : "",
+      };
+    })
+    .filter((item): item is RetryAttempt => Boolean(item));
+};
+
+// 試行履歴に1件追加した配列を返す
+export const appendRetryAttempt = (value: unknown, attempt: RetryAttempt): RetryAttempt[] =>
+  [...parseRetryAttempts(value), attempt].slice(-MAX_RETRY_ATTEMPTS);
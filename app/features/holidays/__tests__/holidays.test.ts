@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  expandDateRange,
+  normalizeHolidayPayload,
+  parseHolidayDates,
+  parseWeeklyHolidays,
+} from "../utils/holidays.js";
+
+test("parseHolidayDates: 不正な日付を除外し昇順・重複なしにする", () => {
+  const dates = parseHolidayDates(["2025-05-05", "2025-02-30", "2025-05-03", "2025-05-05", 1]);
+  assert.deepEqual(dates, ["2025-05-03", "2025-05-05"]);
+});
+
+test("parseWeeklyHolidays: 曜日順に並べ、未知のコードは無視する", () => {
+  const codes = parseWeeklyHolidays(["SAT", "sun", "holiday"]);
+  assert.deepEqual(codes, ["sun", "sat"]);
+});
+
+test("expandDateRange: 月・年をまたぐ期間を展開する", () => {
+  const result = expandDateRange("2025-12-30", "2026-01-02");
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.deepEqual(result.dates, ["2025-12-30", "2025-12-31", "2026-01-01", "2026-01-02"]);
+});
+
+test("expandDateRange: 開始日が終了日より後ならエラー", () => {
+  const result = expandDateRange("2025-05-10", "2025-05-01");
+  assert.equal(result.ok, false);
+});
+
+test("expandDateRange: 上限を超える期間はエラー", () => {
+  const result = expandDateRange("2025-01-01", "2026-12-31");
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.match(result.message, /366日以内/);
+});
+
+test("normalizeHolidayPayload: 全曜日を定休日にするとエラー", () => {
+  const result = normalizeHolidayPayload({
+    holidays: [],
+    weeklyHolidays: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  });
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.match(result.message, /すべての曜日/);
+});
+
+test("normalizeHolidayPayload: 不正な日付はエラーメッセージに含める", () => {
+  const result = normalizeHolidayPayload({holidays: ["2025-13-01"], weeklyHolidays: []});
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.match(result.message, /2025-13-01/);
+});
+
+test("normalizeHolidayPayload: 正常な入力は正規化して返す", () => {
+  const result = normalizeHolidayPayload({
+    holidays: ["2025-05-05", "2025-05-03"],
+    weeklyHolidays: ["sat", "sun"],
+  });
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.deepEqual(result.holidays, ["2025-05-03", "2025-05-05"]);
+  assert.deepEqual(result.weeklyHolidays, ["sun", "sat"]);
+});
@@ -0,0 +1,117 @@
+import {BlockStack, Button, InlineStack, Text} from "@shopify/polaris";
+import {ChevronLeftIcon, ChevronRightIcon} from "@shopify/polaris-icons";
+
+import {WEEKDAY_CODES, WEEKDAY_LABELS, formatISODate, type WeekdayCode} from "../utils/holidays";
+
+type HolidayCalendarProps = {
+  year: number;
+  month: number; // 0始まり
+  holidays: Set<string>;
+  weeklyHolidays: WeekdayCode[];
+  onToggle: (date: string) => void;
+  onMonthChange: (year: number, month: number) => void;
+  disabled?: boolean;
+};
+
+// 月カレンダーで単発休業日をクリック切り替えするUI
+export function HolidayCalendar({
+  year,
+  month,
+  holidays,
+  weeklyHolidays,
+  onToggle,
+  onMonthChange,
+  disabled,
+}: HolidayCalendarProps) {
+  const firstDay = new Date(Date.UTC(year, month, 1));
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const leadingBlanks = firstDay.getUTCDay();
+  const weeklySet = new Set(weeklyHolidays);
+  const todayKey = formatISODate(
+    new Date(Date.UTC(new Date().getFullYear(), new Date().getMonth(), new Date().getDate())),
+  );
+
+  const cells: Array<{key: string; date: Date | null}> = [
+    ...Array.from({length: leadingBlanks}, (_, index) => ({key: `blank-${index}`, date: null})),
+    ...Array.from({length: daysInMonth}, (_, index) => {
+      const date = new Date(Date.UTC(year, month, index + 1));
+      return {key: formatISODate(date), date};
+    }),
+  ];
+
+  const moveMonth = (delta: number) => {
+    const next = new Date(Date.UTC(year, month + delta, 1));
+    onMonthChange(next.getUTCFullYear(), next.getUTCMonth());
+  };
+
+  return (
+    <BlockStack gap="200">
+      <InlineStack align="space-between" blockAlign="center">
+        <Button
+          variant="tertiary"
+          icon={ChevronLeftIcon}
+          accessibilityLabel="前の月"
+          onClick={() => moveMonth(-1)}
+        />
+        <Text as="h3" variant="headingSm">
+          {year}年{month + 1}月
+        </Text>
+        <Button
+          variant="tertiary"
+          icon={ChevronRightIcon}
+          accessibilityLabel="次の月"
+          onClick={() => moveMonth(1)}
+        />
+      </InlineStack>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(7, 1fr)",
+          gap: "4px",
+        }}
+      >
+        {WEEKDAY_CODES.map((code) => (
+          <div key={code} style={{textAlign: "center"}}>
+            <Text as="span" variant="bodySm" tone="subdued">
+              {WEEKDAY_LABELS[code]}
+            </Text>
+          </div>
+        ))}
+        {cells.map(({key, date}) => {
+          if (!date) return <div key={key} />;
+          const isHoliday = holidays.has(key);
+          const isWeekly = weeklySet.has(WEEKDAY_CODES[date.getUTCDay()]);
+          const isToday = key === todayKey;
+          return (
+            <button
+              key={key}
+              type="button"
+              aria-pressed={isHoliday}
+              aria-label={`${key}${isHoliday ? "（休業日）" : ""}${isWeekly ? "（定休日）" : ""}`}
+              disabled={disabled}
+              onClick={() => onToggle(key)}
+              style={{
+                height: 36,
+                borderRadius: 6,
+                border: isToday ? "1px solid var(--p-color-border-emphasis)" : "1px solid transparent",
+                background: isHoliday
+                  ? "var(--p-color-bg-fill-critical)"
+                  : isWeekly
+                    ? "var(--p-color-bg-surface-secondary)"
+                    : "transparent",
+                color: isHoliday
+                  ? "var(--p-color-text-critical-on-bg-fill)"
+                  : isWeekly
+                    ? "var(--p-color-text-secondary)"
+                    : "inherit",
+                cursor: disabled ? "not-allowed" : "pointer",
+              }}
+            >
+              {date.getUTCDate()}
+            </button>
+          );
+        })}
+      </div>
+    </BlockStack>
+  );
+}
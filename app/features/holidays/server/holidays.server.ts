@@ -0,0 +1,43 @@
+import prisma from "../../../db.server";
+import {bumpSettingsVersion} from "../../shop/server/shop.server";
+import {
+  parseHolidayDates,
+  parseWeeklyHolidays,
+  type WeekdayCode,
+} from "../utils/holidays";
+
+// 休業日画面に必要なデータ
+export type HolidayData = {
+  holidays: string[];
+  weeklyHolidays: WeekdayCode[];
+  updatedAt: string | null;
+};
+
+// 店舗の休業日設定を取得する（未登録なら空）
+export const loadHoliday = async (shopId: string): Promise<HolidayData> => {
+  const holiday = await prisma.holiday.findUnique({where: {shopId}});
+
+  return {
+    holidays: parseHolidayDates(holiday?.holidays),
+    weeklyHolidays: parseWeeklyHolidays(holiday?.weeklyHolidays),
+    updatedAt: holiday?.updatedAt ? holiday.updatedAt.toISOString() : null,
+  };
+};
+
+// 検証済みの休業日設定を保存する
+export const persistHoliday = async ({
+  shopId,
+  holidays,
+  weeklyHolidays,
+}: {
+  shopId: string;
+  holidays: string[];
+  weeklyHolidays: WeekdayCode[];
+}) => {
+  await prisma.holiday.upsert({
+    where: {shopId},
+    create: {shopId, holidays, weeklyHolidays},
+    update: {holidays, weeklyHolidays},
+  });
+  await bumpSettingsVersion(shopId);
+};
@@ -0,0 +1,132 @@
+// 曜日コード（ship-by の計算と同じ並び: 0=日曜）
+export const WEEKDAY_CODES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+export type WeekdayCode = (typeof WEEKDAY_CODES)[number];
+
+export const WEEKDAY_LABELS: Record<WeekdayCode, string> = {
+  sun: "日",
+  mon: "月",
+  tue: "火",
+  wed: "水",
+  thu: "木",
+  fri: "金",
+  sat: "土",
+};
+
+// 一括追加で受け付ける期間の上限（日数）
+export const MAX_RANGE_DAYS = 366;
+// 単発休業日として保存できる件数の上限
+export const MAX_HOLIDAY_COUNT = 1000;
+
+// クライアントから受け取る生ペイロード
+export type HolidayPayload = {
+  holidays: string[];
+  weeklyHolidays: string[];
+};
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// YYYY-MM-DD を UTC の Date に変換し、存在しない日付は null を返す
+export const parseISODate = (value: string): Date | null => {
+  const match = ISO_DATE_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+};
+
+export const formatISODate = (date: Date) =>
+  `${date.getUTCFullYear().toString().padStart(4, "0")}-${(date.getUTCMonth() + 1)
+    .toString()
+    .padStart(2, "0")}-${date.getUTCDate().toString().padStart(2, "0")}`;
+
+// DB の Json 値から単発休業日を取り出す（不正値は除外し、昇順・重複なし）
+export const parseHolidayDates = (value: unknown): string[] => {
+  const list = Array.isArray(value) ? value : [];
+  const dates = new Set<string>();
+  list.forEach((item) => {
+    const parsed = parseISODate(String(item));
+    if (parsed) dates.add(formatISODate(parsed));
+  });
+  return Array.from(dates).sort();
+};
+
+// DB の Json 値から毎週の休業曜日を取り出す（曜日順に並べる）
+export const parseWeeklyHolidays = (value: unknown): WeekdayCode[] => {
+  const list = Array.isArray(value) ? value : [];
+  const codes = new Set(list.map((item) => String(item).trim().toLowerCase()));
+  return WEEKDAY_CODES.filter((code) => codes.has(code));
+};
+
+// 開始日〜終了日（両端を含む）の日付一覧を返す
+export const expandDateRange = (
+  start: string,
+  end: string,
+): {ok: true; dates: string[]} | {ok: false; message: string} => {
+  const startDate = parseISODate(start);
+  const endDate = parseISODate(end);
+  if (!startDate || !endDate) {
+    return {ok: false, message: "期間の日付が正しくありません"};
+  }
+  if (startDate.getTime() > endDate.getTime()) {
+    return {ok: false, message: "期間の開始日は終了日以前にしてください"};
+  }
+
+  const dates: string[] = [];
+  const cursor = new Date(startDate);
+  while (cursor.getTime() <= endDate.getTime()) {
+    if (dates.length >= MAX_RANGE_DAYS) {
+      return {ok: false, message: `期間は${MAX_RANGE_DAYS}日以内で指定してください`};
+    }
+    dates.push(formatISODate(cursor));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return {ok: true, dates};
+};
+
+// 入力値を検証し、DB保存に使える形へ正規化
+export const normalizeHolidayPayload = (
+  payload: HolidayPayload | null,
+): {ok: false; message: string} | {ok: true; holidays: string[]; weeklyHolidays: WeekdayCode[]} => {
+  if (!payload || !Array.isArray(payload.holidays) || !Array.isArray(payload.weeklyHolidays)) {
+    return {ok: false, message: "入力内容を解釈できませんでした"};
+  }
+
+  const errors: string[] = [];
+  const invalidDates = payload.holidays.filter((value) => !parseISODate(String(value)));
+  if (invalidDates.length > 0) {
+    errors.push(`休業日の日付が正しくありません: ${invalidDates.slice(0, 3).join(", ")}`);
+  }
+
+  const unknownCodes = payload.weeklyHolidays.filter(
+    (value) => !WEEKDAY_CODES.includes(String(value).trim().toLowerCase() as WeekdayCode),
+  );
+  if (unknownCodes.length > 0) {
+    errors.push("定休日の曜日が正しくありません");
+  }
+
+  const holidays = parseHolidayDates(payload.holidays);
+  const weeklyHolidays = parseWeeklyHolidays(payload.weeklyHolidays);
+
+  if (weeklyHolidays.length === WEEKDAY_CODES.length) {
+    errors.push("すべての曜日を定休日にすると出荷日を計算できません");
+  }
+  if (holidays.length > MAX_HOLIDAY_COUNT) {
+    errors.push(`休業日は${MAX_HOLIDAY_COUNT}件以内で登録してください`);
+  }
+
+  if (errors.length > 0) {
+    return {ok: false, message: errors.join(" / ")};
+  }
+
+  return {ok: true, holidays, weeklyHolidays};
+};
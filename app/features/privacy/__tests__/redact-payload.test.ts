@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {REDACTED, redactOrderPayload} from "../utils/redact-payload.js";
+
+test("redactOrderPayload: 顧客・住所・連絡先を伏せ、計算に使う値は残す", () => {
+  const redacted = redactOrderPayload({
+    payload: {
+      id: 1001,
+      email: "taro@example.com",
+      customer: {id: 1, first_name: "太郎"},
+      shipping_address: {address1: "東京都", zip: "100-0001"},
+      note_attributes: [{name: "requested_date", value: "2025-05-10"}],
+      shipping_lines: [{code: "yamato", title: "ヤマト"}],
+      line_items: [{product_id: 1, name: "商品A"}],
+    },
+  }) as {payload: Record<string, unknown>};
+
+  assert.equal(redacted.payload.email, REDACTED);
+  assert.equal(redacted.payload.customer, REDACTED);
+  assert.equal(redacted.payload.shipping_address, REDACTED);
+  assert.equal(redacted.payload.id, 1001);
+  assert.deepEqual(redacted.payload.note_attributes, [{name: "requested_date", value: "2025-05-10"}]);
+  assert.deepEqual(redacted.payload.line_items, [{product_id: 1, name: "商品A"}]);
+});
+
+test("redactOrderPayload: null の値やプリミティブはそのまま返す", () => {
+  assert.equal(redactOrderPayload(null), null);
+  assert.equal(redactOrderPayload("text"), "text");
+  assert.deepEqual(redactOrderPayload({email: null}), {email: null});
+});
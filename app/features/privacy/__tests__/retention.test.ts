@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  DEFAULT_RETENTION_DAYS,
+  getRetentionCutoff,
+  isRetentionExpired,
+  parseRetentionDays,
+} from "../utils/retention.js";
+
+test("parseRetentionDays: 未設定・不正値は既定値、0 は即時削除", () => {
+  assert.equal(parseRetentionDays(undefined), DEFAULT_RETENTION_DAYS);
+  assert.equal(parseRetentionDays("abc"), DEFAULT_RETENTION_DAYS);
+  assert.equal(parseRetentionDays("-5"), DEFAULT_RETENTION_DAYS);
+  assert.equal(parseRetentionDays(" 90 "), 90);
+  assert.equal(parseRetentionDays("0"), 0);
+});
+
+test("getRetentionCutoff: 保持日数だけ遡った日時を返す", () => {
+  const now = new Date("2026-02-01T00:00:00Z");
+  assert.equal(getRetentionCutoff(now, 30).toISOString(), "2026-01-02T00:00:00.000Z");
+});
+
+test("isRetentionExpired: 保持期間を過ぎたアンインストール済み店舗だけが対象", () => {
+  const now = new Date("2026-02-01T00:00:00Z");
+  assert.equal(isRetentionExpired(null, now, 30), false);
+  assert.equal(isRetentionExpired(new Date("2026-01-20T00:00:00Z"), now, 30), false);
+  assert.equal(isRetentionExpired(new Date("2026-01-02T00:00:00Z"), now, 30), true);
+  assert.equal(isRetentionExpired(new Date("2026-01-31T00:00:00Z"), now, 0), true);
+});
@@ -0,0 +1,195 @@
+import prisma from "../../../db.server";
+import { redactOrderPayload } from "../utils/redact-payload";
+
+const toIdText = (value: unknown) =>
+  value === null || value === undefined || value === "" ? null : String(value);
+
+const toOrderIds = (value: unknown): bigint[] =>
+  (Array.isArray(value) ? value : [])
+    .map((id) => String(id))
+    .filter((id) => /^\d+$/.test(id))
+    .map((id) => BigInt(id));
+
+// customers/data_request: 顧客の注文に紐づく出荷期限記録とエラー記録をまとめる。
+// ErrorLog.rawData（他の顧客やスタッフの情報も含む注文ペイロード）とメモは出力しない
+export const exportCustomerData = async (shop: string, payload: unknown) => {
+  const body = (payload ?? {}) as {
+    customer?: { id?: number | string | null } | null;
+    orders_requested?: unknown;
+    data_request?: { id?: number | string | null } | null;
+  };
+  const orderIds = toOrderIds(body.orders_requested);
+
+  const [shipByRecords, errorLogs] =
+    orderIds.length === 0
+      ? [[], []]
+      : await Promise.all([
+          prisma.shipByRecord.findMany({
+            where: { shopId: shop, orderId: { in: orderIds } },
+            orderBy: { createdAt: "asc" },
+          }),
+          prisma.errorLog.findMany({
+            where: { shopId: shop, orderId: { in: orderIds } },
+            select: { orderId: true, kind: true, reason: true, createdAt: true },
+            orderBy: { createdAt: "asc" },
+          }),
+        ]);
+
+  return {
+    shop,
+    dataRequestId: body.data_request?.id ?? null,
+    customerId: body.customer?.id ?? null,
+    shipByRecords: shipByRecords.map((record) => ({
+      orderId: record.orderId.toString(),
+      shipByDate: record.shipByDate.toISOString(),
+      deliveryDate: record.deliveryDate ? record.deliveryDate.toISOString() : null,
+      createdAt: record.createdAt.toISOString(),
+      updatedAt: record.updatedAt.toISOString(),
+    })),
+    errorLogs: errorLogs.map((log) => ({
+      orderId: log.orderId.toString(),
+      kind: log.kind,
+      reason: log.reason,
+      createdAt: log.createdAt.toISOString(),
+    })),
+  };
+};
+
+export type CustomerDataRequestSummary = {
+  id: string;
+  dataRequestId: string | null;
+  customerId: string | null;
+  orderIds: string[];
+  downloadedAt: string | null;
+  createdAt: string;
+};
+
+const toSummary = (request: {
+  id: string;
+  dataRequestId: string | null;
+  customerId: string | null;
+  orderIds: unknown;
+  downloadedAt: Date | null;
+  createdAt: Date;
+}): CustomerDataRequestSummary => ({
+  id: request.id,
+  dataRequestId: request.dataRequestId,
+  customerId: request.customerId,
+  orderIds: (Array.isArray(request.orderIds) ? request.orderIds : []).map((id) => String(id)),
+  downloadedAt: request.downloadedAt ? request.downloadedAt.toISOString() : null,
+  createdAt: request.createdAt.toISOString(),
+});
+
+// customers/data_request: 出力を保存し、ログ用に ID と件数だけを返す（出力の中身はログに出さない）
+export const recordCustomerDataRequest = async (shop: string, payload: unknown) => {
+  const exported = await exportCustomerData(shop, payload);
+  const orderIds = toOrderIds(
+    ((payload ?? {}) as { orders_requested?: unknown }).orders_requested,
+  ).map((id) => id.toString());
+
+  const request = await prisma.customerDataRequest.create({
+    data: {
+      shopId: shop,
+      dataRequestId: toIdText(exported.dataRequestId),
+      customerId: toIdText(exported.customerId),
+      orderIds,
+      export: exported as object,
+    },
+  });
+
+  return {
+    id: request.id,
+    dataRequestId: request.dataRequestId,
+    customerId: request.customerId,
+    orderIds,
+    counts: {
+      shipByRecords: exported.shipByRecords.length,
+      errorLogs: exported.errorLogs.length,
+    },
+  };
+};
+
+// 管理画面の開示要求の一覧（新しい順）
+export const listCustomerDataRequests = async (shop: string) => {
+  const requests = await prisma.customerDataRequest.findMany({
+    where: { shopId: shop },
+    select: {
+      id: true,
+      dataRequestId: true,
+      customerId: true,
+      orderIds: true,
+      downloadedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  return requests.map(toSummary);
+};
+
+// 開示要求の出力を取り出し、ダウンロード日時を記録する（他店舗の ID は null）
+export const downloadCustomerDataRequest = async (shop: string, id: string) => {
+  const request = await prisma.customerDataRequest.findFirst({ where: { id, shopId: shop } });
+  if (!request) return null;
+
+  await prisma.customerDataRequest.update({
+    where: { id: request.id },
+    data: { downloadedAt: new Date() },
+  });
+
+  return {
+    fileName: `customer-data-${request.dataRequestId ?? request.id}.json`,
+    content: JSON.stringify(request.export, null, 2),
+  };
+};
+
+// customers/redact: 対象注文のエラー記録から個人情報を取り除き、
+// 同じ顧客の保存済みの開示出力を削除する（除去したエラー記録の件数を返す）
+export const redactCustomerData = async (shop: string, payload: unknown) => {
+  const body = (payload ?? {}) as {
+    customer?: { id?: number | string | null } | null;
+    orders_to_redact?: unknown;
+  };
+  const customerId = toIdText(body.customer?.id);
+  if (customerId) {
+    await prisma.customerDataRequest.deleteMany({
+      where: { shopId: shop, customerId },
+    });
+  }
+
+  const orderIds = toOrderIds(body.orders_to_redact);
+  if (orderIds.length === 0) return 0;
+
+  const logs = await prisma.errorLog.findMany({
+    where: { shopId: shop, orderId: { in: orderIds } },
+    select: { id: true, rawData: true },
+  });
+
+  await prisma.$transaction(
+    logs.map((log) =>
+      prisma.errorLog.update({
+        where: { id: log.id },
+        data: { rawData: (redactOrderPayload(log.rawData) ?? undefined) as object | undefined },
+      }),
+    ),
+  );
+
+  return logs.length;
+};
+
+// shop/redact: 店舗に紐づくデータを Shop の行も含めてすべて削除する
+export const purgeShopData = async (shop: string) => {
+  await prisma.$transaction([
+    prisma.ruleShippingRate.deleteMany({ where: { shopId: shop } }),
+    prisma.rule.deleteMany({ where: { shopId: shop } }),
+    prisma.shippingRate.deleteMany({ where: { shopId: shop } }),
+    prisma.shipByRecord.deleteMany({ where: { shopId: shop } }),
+    prisma.productTargetCache.deleteMany({ where: { shopId: shop } }),
+    prisma.errorLog.deleteMany({ where: { shopId: shop } }),
+    prisma.customerDataRequest.deleteMany({ where: { shopId: shop } }),
+    prisma.backfillJob.deleteMany({ where: { shopId: shop } }),
+    prisma.holiday.deleteMany({ where: { shopId: shop } }),
+    prisma.shopSetting.deleteMany({ where: { shopId: shop } }),
+    prisma.session.deleteMany({ where: { shop } }),
+    prisma.shop.deleteMany({ where: { id: shop } }),
+  ]);
+};
@@ -0,0 +1,111 @@
+import prisma from "../../../db.server";
+import { getRetentionCutoff, isRetentionExpired, parseRetentionDays } from "../utils/retention";
+import { purgeShopData } from "./privacy.server";
+
+export type RetentionShopReport = {
+  shop: string;
+  uninstalledAt: string;
+  counts: {
+    rules: number;
+    shippingRates: number;
+    shipByRecords: number;
+    productTargetCaches: number;
+    errorLogs: number;
+    customerDataRequests: number;
+    backfillJobs: number;
+    holidays: number;
+    shopSettings: number;
+  };
+};
+
+export type RetentionReport = {
+  dryRun: boolean;
+  retentionDays: number;
+  cutoff: string;
+  shops: RetentionShopReport[];
+};
+
+export const getRetentionDays = () => parseRetentionDays(process.env.SHOP_DATA_RETENTION_DAYS);
+
+const countShopData = async (shop: string): Promise<RetentionShopReport["counts"]> => {
+  const [
+    rules,
+    shippingRates,
+    shipByRecords,
+    productTargetCaches,
+    errorLogs,
+    customerDataRequests,
+    backfillJobs,
+    holidays,
+    shopSettings,
+  ] = await Promise.all([
+    prisma.rule.count({ where: { shopId: shop } }),
+    prisma.shippingRate.count({ where: { shopId: shop } }),
+    prisma.shipByRecord.count({ where: { shopId: shop } }),
+    prisma.productTargetCache.count({ where: { shopId: shop } }),
+    prisma.errorLog.count({ where: { shopId: shop } }),
+    prisma.customerDataRequest.count({ where: { shopId: shop } }),
+    prisma.backfillJob.count({ where: { shopId: shop } }),
+    prisma.holiday.count({ where: { shopId: shop } }),
+    prisma.shopSetting.count({ where: { shopId: shop } }),
+  ]);
+  return {
+    rules,
+    shippingRates,
+    shipByRecords,
+    productTargetCaches,
+    errorLogs,
+    customerDataRequests,
+    backfillJobs,
+    holidays,
+    shopSettings,
+  };
+};
+
+// 保持期間を過ぎたアンインストール済み店舗のデータを削除する。
+// dryRun では削除せず、削除対象の件数だけを返す。
+export const runRetentionCleanup = async ({
+  dryRun,
+  now = new Date(),
+}: {
+  dryRun: boolean;
+  now?: Date;
+}): Promise<RetentionReport> => {
+  const retentionDays = getRetentionDays();
+  const cutoff = getRetentionCutoff(now, retentionDays);
+
+  const uninstalledShops = await prisma.shop.findMany({
+    where: { uninstalledAt: { not: null }, dataPurgedAt: null },
+    select: { id: true, uninstalledAt: true },
+    orderBy: { uninstalledAt: "asc" },
+  });
+  const expiredShops = uninstalledShops.filter((shop) =>
+    isRetentionExpired(shop.uninstalledAt, now, retentionDays),
+  );
+
+  const shops: RetentionShopReport[] = [];
+  for (const shop of expiredShops) {
+    shops.push({
+      shop: shop.id,
+      uninstalledAt: (shop.uninstalledAt as Date).toISOString(),
+      counts: await countShopData(shop.id),
+    });
+
+    if (dryRun) continue;
+
+    // Shop の行も削除されるため、次回以降の対象には入らない
+    try {
+      await purgeShopData(shop.id);
+    } catch (error) {
+      console.error("[retention] failed to purge shop data", { shop: shop.id, error });
+    }
+  }
+
+  console.log("[retention] cleanup finished", {
+    dryRun,
+    retentionDays,
+    shops: shops.length,
+  });
+
+  return { dryRun, retentionDays, cutoff: cutoff.toISOString(), shops };
+};
@@ -0,0 +1,44 @@
+// ErrorLog.rawData などに残った注文ペイロードから顧客の個人情報を取り除く
+
+export const REDACTED = "[redacted]";
+
+// 値ごと伏せるキー（住所・連絡先・顧客オブジェクトなど）
+const PII_KEYS = new Set([
+  "customer",
+  "email",
+  "contact_email",
+  "phone",
+  "billing_address",
+  "shipping_address",
+  "client_details",
+  "browser_ip",
+  "first_name",
+  "last_name",
+  "address1",
+  "address2",
+  "zip",
+  "latitude",
+  "longitude",
+  "company",
+  "note",
+]);
+
+// 注文属性（note_attributes の name）やお届け希望日は計算の再現に必要なため残す
+const shouldRedact = (key: string, value: unknown) => PII_KEYS.has(key) && value != null;
+
+// オブジェクトを再帰的にたどり、個人情報のキーを REDACTED に置き換えたコピーを返す
+export const redactOrderPayload = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactOrderPayload(item));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, child]) => [
+      key,
+      shouldRedact(key, child) ? REDACTED : redactOrderPayload(child),
+    ]),
+  );
+};
@@ -0,0 +1,24 @@
+// アンインストール後にデータを保持する日数の既定値
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 環境変数の値から保持日数を読む（未設定・不正値は既定値、0 は即時削除）
+export const parseRetentionDays = (raw: string | null | undefined): number => {
+  const trimmed = (raw ?? "").trim();
+  if (!/^\d+$/.test(trimmed)) return DEFAULT_RETENTION_DAYS;
+  return Number.parseInt(trimmed, 10);
+};
+
+// この日時より前にアンインストールされた店舗は削除対象
+export const getRetentionCutoff = (now: Date, retentionDays: number) =>
+  new Date(now.getTime() - retentionDays * DAY_MS);
+
+// 保持期間を過ぎたか（アンインストールされていない店舗は対象外）
+export const isRetentionExpired = (
+  uninstalledAt: Date | null,
+  now: Date,
+  retentionDays: number,
+) =>
+  uninstalledAt != null &&
+  uninstalledAt.getTime() <= getRetentionCutoff(now, retentionDays).getTime();
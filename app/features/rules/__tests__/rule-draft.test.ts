@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { applyTransitDaysDraft, applyZoneRuleDraft } from "../utils/rule-draft.js";
+
+const rules = [
+  {
+    id: "base",
+    targetType: "all" as const,
+    targetId: null,
+    shippingRateIds: ["sr_tokyo_cool", "sr_osaka_cool"],
+    days: 2,
+  },
+  {
+    id: "product-a",
+    targetType: "product" as const,
+    targetId: JSON.stringify(["gid://shopify/Product/1"]),
+    shippingRateIds: ["sr_tokyo_cool"],
+    days: 3,
+  },
+  {
+    id: "product-b",
+    targetType: "product" as const,
+    targetId: JSON.stringify(["gid://shopify/Product/2"]),
+    shippingRateIds: ["sr_tokyo_cool", "sr_osaka_cool"],
+    days: 4,
+  },
+];
+
+const draft = {
+  zoneRateIds: ["sr_tokyo_cool"],
+  baseId: "base",
+  baseDays: 2,
+  baseLeadDaysMode: null,
+  baseTimeSlotDays: {},
+  transitDays: {},
+  productRules: [
+    { id: "product-a", targetType: "product" as const, targetIds: ["gid://shopify/Product/1"], days: 3 },
+    { id: "product-b", targetType: "product" as const, targetIds: ["gid://shopify/Product/2"], days: 4 },
+  ],
+};
+
+test("applyZoneRuleDraft: 基本設定と商品別設定の日数を更新する", () => {
+  const result = applyZoneRuleDraft(rules, {
+    ...draft,
+    baseDays: 5,
+    baseLeadDaysMode: "business",
+    productRules: [
+      {
+        id: "product-a",
+        targetType: "product" as const,
+        targetIds: ["gid://shopify/Product/1", "gid://shopify/Product/3"],
+        days: 6,
+      },
+      draft.productRules[1]!,
+    ],
+  });
+
+  const base = result.find((rule) => rule.id === "base");
+  assert.equal(base?.days, 5);
+  assert.equal(base?.leadDaysMode, "business");
+  const productA = result.find((rule) => rule.id === "product-a");
+  assert.equal(productA?.days, 6);
+  assert.equal(
+    productA?.targetId,
+    JSON.stringify(["gid://shopify/Product/1", "gid://shopify/Product/3"]),
+  );
+  // 元のルールは変更しない
+  assert.equal(rules[0]?.days, 2);
+});
+
+test("applyZoneRuleDraft: 新しいルールは配送エリアの配送ケースに紐づけて追加する", () => {
+  const result = applyZoneRuleDraft(rules, {
+    ...draft,
+    baseId: null,
+    productRules: [
+      ...draft.productRules,
+      { id: null, targetType: "tag" as const, targetIds: ["made-to-order"], days: 7 },
+    ],
+  });
+
+  const added = result.filter((rule) => rule.id.startsWith("draft-"));
+  assert.deepEqual(
+    added.map((rule) => [rule.targetType, rule.shippingRateIds, rule.days]),
+    [
+      ["all", ["sr_tokyo_cool"], 2],
+      ["tag", ["sr_tokyo_cool"], 7],
+    ],
+  );
+});
+
+test("applyZoneRuleDraft: 削除したルールは配送エリアから外し、紐づけがなくなれば消す", () => {
+  const result = applyZoneRuleDraft(rules, { ...draft, baseDays: null, productRules: [] });
+
+  assert.deepEqual(
+    result.map((rule) => [rule.id, rule.shippingRateIds]),
+    [
+      ["base", ["sr_osaka_cool"]],
+      ["product-b", ["sr_osaka_cool"]],
+    ],
+  );
+});
+
+test("applyTransitDaysDraft: 配送エリアに含まれる配送ケースの配送日数だけを置き換える", () => {
+  const hokkaido = { prefectures: { hokkaido: 2 }, postalPrefixes: {} };
+  const rates = [
+    { shippingRateId: "sr_tokyo_cool", transitDays: null },
+    { shippingRateId: "sr_osaka_cool", transitDays: { prefectures: {}, postalPrefixes: { "907": 3 } } },
+  ];
+
+  const result = applyTransitDaysDraft(rates, {
+    zoneRateIds: ["sr_tokyo_cool"],
+    transitDays: { sr_tokyo_cool: hokkaido, sr_osaka_cool: hokkaido },
+  });
+
+  assert.deepEqual(result[0]?.transitDays, hokkaido);
+  assert.deepEqual(result[1], rates[1]);
+});
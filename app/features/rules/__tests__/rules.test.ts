@@ -2,6 +2,7 @@ import assert from "node:assert/strict";
 import test from "node:test";
 
 import { normalizeZoneRulePayload } from "../utils/normalize-zone-rule.js";
+import { parseTargetValues } from "../utils/rules.js";
 
 const basePayload = {
   zoneKey: "tokyo",
@@ -24,7 +25,9 @@ test("normalizeZoneRulePayload: 基本設定が未入力でも成功する", ()
   const result = normalizeZoneRulePayload(
     {
       ...basePayload,
-      productRules: [{ id: null, productIds: ["gid://shopify/Product/1"], days: 2 }],
+      productRules: [
+        { id: null, targetType: "product", targetIds: ["gid://shopify/Product/1"], days: 2 },
+      ],
     },
     "tokyo",
   );
@@ -40,7 +43,7 @@ test("normalizeZoneRulePayload: 基本設定と商品別設定のエラーを結
     {
       ...basePayload,
       base: { id: null, days: "0" },
-      productRules: [{ id: null, productIds: [], days: 0 }],
+      productRules: [{ id: null, targetType: "product", targetIds: [], days: 0 }],
     },
     "tokyo",
   );
@@ -51,3 +54,111 @@ test("normalizeZoneRulePayload: 基本設定と商品別設定のエラーを結
   assert.match(result.message, /商品別設定1: 商品を選択してください/);
   assert.match(result.message, /商品別設定1: 出荷日数は1以上の整数/);
 });
+
+test("normalizeZoneRulePayload: 対象の値を整えて、種類が不明なら商品として扱う", () => {
+  const result = normalizeZoneRulePayload(
+    {
+      ...basePayload,
+      productRules: [
+        { id: null, targetType: "tag", targetIds: [" made-to-order ", "made-to-order", ""], days: 3 },
+        { id: null, targetIds: ["gid://shopify/Product/1"], days: 1 } as never,
+      ],
+    },
+    "tokyo",
+  );
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.deepEqual(result.productRules[0]?.targetIds, ["made-to-order"]);
+  assert.equal(result.productRules[1]?.targetType, "product");
+});
+
+test("normalizeZoneRulePayload: 入力する対象が空なら入力を促す", () => {
+  const result = normalizeZoneRulePayload(
+    {
+      ...basePayload,
+      productRules: [{ id: null, targetType: "vendor", targetIds: [], days: 1 }],
+    },
+    "tokyo",
+  );
+
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.match(result.message, /商品別設定1: ベンダーを入力してください/);
+});
+
+test("normalizeZoneRulePayload: 時間帯ごとの日数を読み取り、読めなければエラーにする", () => {
+  const result = normalizeZoneRulePayload(
+    {
+      ...basePayload,
+      base: { id: null, days: "2", timeSlotDays: "午前中:+1" },
+      productRules: [
+        {
+          id: null,
+          targetType: "product",
+          targetIds: ["gid://shopify/Product/1"],
+          days: 2,
+          timeSlotDays: "19-21:-1",
+        },
+      ],
+    },
+    "tokyo",
+  );
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.deepEqual(result.baseTimeSlotDays, { 午前中: 1 });
+  assert.deepEqual(result.productRules[0]?.timeSlotDays, { "19-21": -1 });
+
+  const invalid = normalizeZoneRulePayload(
+    {
+      ...basePayload,
+      productRules: [
+        { id: null, targetType: "product", targetIds: ["gid://shopify/Product/1"], days: 2, timeSlotDays: "夜:+1" },
+      ],
+    },
+    "tokyo",
+  );
+  assert.equal(invalid.ok, false);
+  if (invalid.ok) return;
+  assert.match(invalid.message, /商品別設定1: 時間帯ごとの日数は「午前中:\+1, 19-21:-1」の形/);
+});
+
+test("normalizeZoneRulePayload: 配送ケースごとの配送日数を読み取り、読めなければエラーにする", () => {
+  const result = normalizeZoneRulePayload(
+    {
+      ...basePayload,
+      transitDays: [
+        { shippingRateId: "sr_tokyo_cool", prefectures: "北海道:2, 沖縄:3", postalPrefixes: "907:4" },
+        { shippingRateId: "sr_tokyo_normal", prefectures: "", postalPrefixes: "" },
+      ],
+    },
+    "tokyo",
+  );
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.deepEqual(result.transitDays, {
+    sr_tokyo_cool: { prefectures: { hokkaido: 2, okinawa: 3 }, postalPrefixes: { "907": 4 } },
+    sr_tokyo_normal: { prefectures: {}, postalPrefixes: {} },
+  });
+
+  const invalid = normalizeZoneRulePayload(
+    {
+      ...basePayload,
+      transitDays: [{ shippingRateId: "sr_tokyo_cool", prefectures: "ハワイ:3", postalPrefixes: "" }],
+    },
+    "tokyo",
+  );
+  assert.equal(invalid.ok, false);
+  if (invalid.ok) return;
+  assert.match(invalid.message, /配送ケース1: 都道府県ごとの配送日数は/);
+});
+
+test("parseTargetValues: カンマ・読点・改行で区切り、重複と空白を除く", () => {
+  assert.deepEqual(parseTargetValues("受注生産, 冷凍、受注生産\n ギフト ,"), [
+    "受注生産",
+    "冷凍",
+    "ギフト",
+  ]);
+});
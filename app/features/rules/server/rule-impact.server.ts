@@ -0,0 +1,142 @@
+import {
+  applyShipByToOrder,
+  loadCalculationInputs,
+} from "../../ship-by/server/orders-create.server";
+import { coerceOrder } from "../../ship-by/server/order-input.server";
+import {
+  fetchOrderPayload,
+  fetchRecentOrderPayloads,
+} from "../../ship-by/server/order-fetch.server";
+import { isClosedOrder } from "../../ship-by/server/orders-updated.server";
+import { withProductTargets } from "../../ship-by/server/product-targets.server";
+import {
+  compareShipByImpact,
+  type ImpactOrder,
+  type ShipByImpact,
+} from "../../ship-by/server/ship-by-impact.server";
+import {
+  applyTransitDaysDraft,
+  applyZoneRuleDraft,
+  type ZoneRuleDraft,
+} from "../utils/rule-draft";
+import { resolveZoneRates } from "./rules.server";
+
+// 影響プレビューで計算し直す注文の範囲
+export const RULE_IMPACT_DAYS = 14;
+export const RULE_IMPACT_ORDER_LIMIT = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 画面に返すプレビュー（ordersUnavailable は注文を取得できなかったとき）
+export type ZoneRuleImpactPreview = {
+  days: number;
+  limit: number;
+  ordersUnavailable: boolean;
+  impact: ShipByImpact;
+};
+
+const toImpactOrder = (
+  payload: Record<string, unknown>,
+  order: ImpactOrder["order"],
+): ImpactOrder => ({
+  orderId: String(payload.id ?? ""),
+  orderName: typeof payload.name === "string" ? payload.name : null,
+  open: !isClosedOrder(payload),
+  order,
+});
+
+// 直近の注文を、現在のルールと保存前のルールで計算し直して比べる。
+// openChangedPayloads は出荷期限が変わる未発送の注文（保存後に ID を画面へ返し、少しずつ反映する）
+export const previewZoneRuleImpact = async ({
+  shopId,
+  zoneKey,
+  draft,
+  now = new Date(),
+}: {
+  shopId: string;
+  zoneKey: string;
+  draft: Omit<ZoneRuleDraft, "zoneRateIds">;
+  now?: Date;
+}): Promise<{
+  preview: ZoneRuleImpactPreview;
+  openChangedPayloads: Record<string, unknown>[];
+}> => {
+  const [{ rates }, { shopSetting, holiday, rules }] = await Promise.all([
+    resolveZoneRates({ shopId, zoneKey }),
+    loadCalculationInputs(shopId),
+  ]);
+
+  let payloads: Record<string, unknown>[] = [];
+  let ordersUnavailable = false;
+  try {
+    payloads = await fetchRecentOrderPayloads(shopId, {
+      since: new Date(now.getTime() - RULE_IMPACT_DAYS * DAY_MS),
+      limit: RULE_IMPACT_ORDER_LIMIT,
+    });
+  } catch (error) {
+    console.error("[rule-impact] failed to fetch recent orders", error);
+    ordersUnavailable = true;
+  }
+
+  const zoneDraft = { ...draft, zoneRateIds: rates.map((rate) => rate.shippingRateId) };
+  const draftRules = applyZoneRuleDraft(rules, zoneDraft);
+  const draftShopSetting = {
+    ...shopSetting,
+    shippingRates: applyTransitDaysDraft(shopSetting.shippingRates ?? [], zoneDraft),
+  };
+  const orders = await withProductTargets(shopId, payloads.map(coerceOrder), [
+    ...rules,
+    ...draftRules,
+  ]);
+  const impact = compareShipByImpact({
+    orders: payloads.map((payload, index) => toImpactOrder(payload, orders[index])),
+    currentRules: rules,
+    draftRules,
+    shopSetting,
+    draftShopSetting,
+    holiday,
+  });
+
+  const openChangedIds = new Set(
+    impact.changes.filter((change) => change.open).map((change) => change.orderId),
+  );
+
+  return {
+    preview: {
+      days: RULE_IMPACT_DAYS,
+      limit: RULE_IMPACT_ORDER_LIMIT,
+      ordersUnavailable,
+      impact,
+    },
+    openChangedPayloads: payloads.filter((payload) => openChangedIds.has(String(payload.id))),
+  };
+};
+
+// 保存したルールで注文の出荷期限を計算し直して保存する（1件ずつ、失敗しても続ける）。
+// 注文は取得し直し、保存後に発送・キャンセルされた注文はスキップする
+export const applyShipByToOrderIds = async (shopId: string, orderIds: string[]) => {
+  let updated = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const orderId of orderIds) {
+    try {
+      const payload = await fetchOrderPayload(shopId, orderId);
+      if (!payload || isClosedOrder(payload)) {
+        skipped += 1;
+        continue;
+      }
+      const result = await applyShipByToOrder(shopId, payload);
+      if (result.ok) {
+        updated += 1;
+      } else {
+        failed += 1;
+      }
+    } catch (error) {
+      console.error("[rule-impact] failed to apply ship-by", { shopId, orderId, error });
+      failed += 1;
+    }
+  }
+
+  return { updated, skipped, failed };
+};
@@ -2,16 +2,24 @@ import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
 
 import prisma from "../../../db.server";
 import { getShippingRates } from "../../shipping/server/shipping-rates.server";
+import { bumpSettingsVersion } from "../../shop/server/shop.server";
 import type { ShippingRateEntry } from "../../shipping/utils/shipping-rate-normalize";
-import { parseTargetIds, collectUniqueProductIds } from "../utils/rules";
+import { parseTransitDays, type TransitDays } from "../../shipping/utils/transit-days";
+import {
+  parseTargetIds,
+  collectUniqueResourceIds,
+  isPickerTargetType,
+  parseProductRuleTargetType,
+} from "../utils/rules";
 import { toFallbackProduct, FALLBACK_PRODUCT_TITLE } from "../utils/products";
 import type {
   ProductRule,
   ProductRuleWithProducts,
   ProductSummary,
 } from "../utils/rule-types";
-import { RuleTargetType } from "@prisma/client";
+import { RuleTargetType, type LeadDaysMode } from "@prisma/client";
 import { toZoneKey } from "../utils/shipping-zones";
+import { parseTimeSlotDays, type TimeSlotDays } from "../../ship-by/utils/time-slot";
 import {
   normalizeZoneRulePayload,
   type ZoneRulePayload,
@@ -21,9 +29,17 @@ import {
 export type ZoneRuleDetailData = {
   zone: { key: string; name: string | null };
   rates: ShippingRateEntry[];
-  base: { id: string; days: number } | null;
+  base: {
+    id: string;
+    days: number;
+    leadDaysMode: LeadDaysMode | null;
+    timeSlotDays: TimeSlotDays;
+  } | null;
   productRules: ProductRuleWithProducts[];
+  // 配送ケースIDごとのお届け先までの配送日数
+  transitDays: Record<string, TransitDays>;
   defaultLeadDays: number | null;
+  defaultLeadDaysMode: LeadDaysMode;
 };
 
 // 配列を指定サイズで分割するユーティリティ
@@ -35,7 +51,7 @@ const chunkArray = <T>(items: T[], size: number): T[][] => {
   return result;
 };
 
-// GraphQLから商品サマリーを取得し、IDをキーにMapで返す
+// GraphQLから商品・バリエーション・コレクションのサマリーを取得し、IDをキーにMapで返す
 export const fetchProductSummaries = async (
   admin: AdminApiContext,
   ids: string[],
@@ -66,6 +82,17 @@ export const fetchProductSummaries = async (
                 }
               }
             }
+            ... on ProductVariant {
+              id
+              title
+              image { url altText }
+              product { title featuredMedia { preview { image { url altText } } } }
+            }
+            ... on Collection {
+              id
+              title
+              image { url altText }
+            }
           }
         }
         `,
@@ -88,22 +115,53 @@ export const fetchProductSummaries = async (
                 image?: { url?: string | null; altText?: string | null } | null;
               } | null> | null;
             } | null;
+            image?: { url?: string | null; altText?: string | null } | null;
+            product?: {
+              title?: string | null;
+              featuredMedia?: {
+                preview?: {
+                  image?: { url?: string | null; altText?: string | null } | null;
+                } | null;
+              } | null;
+            } | null;
           }>)
         : [];
 
       nodes.forEach((node) => {
-        if (!node || node.__typename !== "Product" || !node.id) return;
-
-        const primaryImage =
-          node.featuredMedia?.preview?.image?.url ??
-          node.media?.nodes?.[0]?.image?.url ??
-          null;
-
-        map.set(node.id, {
-          id: String(node.id),
-          title: node.title ?? FALLBACK_PRODUCT_TITLE,
-          imageUrl: primaryImage ? String(primaryImage) : null,
-        });
+        if (!node || !node.id) return;
+
+        if (node.__typename === "Product") {
+          const primaryImage =
+            node.featuredMedia?.preview?.image?.url ??
+            node.media?.nodes?.[0]?.image?.url ??
+            null;
+
+          map.set(node.id, {
+            id: String(node.id),
+            title: node.title ?? FALLBACK_PRODUCT_TITLE,
+            imageUrl: primaryImage ? String(primaryImage) : null,
+          });
+        }
+
+        // バリエーションは「商品名 / バリエーション名」で表示する
+        if (node.__typename === "ProductVariant") {
+          const image =
+            node.image?.url ?? node.product?.featuredMedia?.preview?.image?.url ?? null;
+          map.set(node.id, {
+            id: String(node.id),
+            title: [node.product?.title, node.title].filter(Boolean).join(" / ") ||
+              FALLBACK_PRODUCT_TITLE,
+            imageUrl: image ? String(image) : null,
+          });
+        }
+
+        if (node.__typename === "Collection") {
+          map.set(node.id, {
+            id: String(node.id),
+            title: node.title ?? FALLBACK_PRODUCT_TITLE,
+            imageUrl: node.image?.url ? String(node.image.url) : null,
+          });
+        }
       });
     } catch (error) {
       console.error("Failed to fetch product summaries", error);
@@ -113,7 +171,8 @@ export const fetchProductSummaries = async (
   return map;
 };
 
-const resolveZoneRates = async ({
+// 配送エリアに含まれる配送ケースを取得する（該当がなければ 404）
+export const resolveZoneRates = async ({
   shopId,
   zoneKey,
 }: {
@@ -169,35 +228,47 @@ export const loadZoneRuleDetail = async ({
     }
   });
   const rules = Array.from(rulesById.values());
-  const setting = await prisma.shopSetting.findUnique({
-    where: { shopId },
-    select: { defaultLeadDays: true },
-  });
+  const [setting, transitRates] = await Promise.all([
+    prisma.shopSetting.findUnique({
+      where: { shopId },
+      select: { defaultLeadDays: true, leadDaysMode: true },
+    }),
+    prisma.shippingRate.findMany({
+      where: { shopId, shippingRateId: { in: rateIds } },
+      select: { shippingRateId: true, transitDays: true },
+    }),
+  ]);
 
   const baseRule = rules
     .filter((rule) => rule.targetType === RuleTargetType.all)
     .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
 
   const productRulePayloads: ProductRule[] = rules
-    .filter((rule) => rule.targetType === RuleTargetType.product)
+    .filter((rule) => rule.targetType !== RuleTargetType.all)
     .map((rule) => ({
       id: rule.id,
-      productIds: parseTargetIds(rule.targetId),
+      targetType: parseProductRuleTargetType(rule.targetType),
+      targetIds: parseTargetIds(rule.targetId),
       days: rule.days,
+      leadDaysMode: rule.leadDaysMode,
+      timeSlotDays: parseTimeSlotDays(rule.timeSlotDays),
     }));
 
-  const allProductIds = collectUniqueProductIds(productRulePayloads);
+  const allResourceIds = collectUniqueResourceIds(productRulePayloads);
 
   const productSummaryMap =
-    allProductIds.length > 0
-      ? await fetchProductSummaries(admin, allProductIds)
+    allResourceIds.length > 0
+      ? await fetchProductSummaries(admin, allResourceIds)
       : new Map<string, ProductSummary>();
 
+  // タグ・ベンダー・商品タイプは入力した値をそのまま表示する
   const productRules: ProductRuleWithProducts[] = productRulePayloads.map(
     (rule) => ({
       ...rule,
-      products: rule.productIds.map(
-        (id) => productSummaryMap.get(id) ?? toFallbackProduct(id),
+      products: rule.targetIds.map((id) =>
+        isPickerTargetType(rule.targetType)
+          ? (productSummaryMap.get(id) ?? toFallbackProduct(id))
+          : { id, title: id, imageUrl: null },
       ),
     }),
   );
@@ -205,9 +276,20 @@ export const loadZoneRuleDetail = async ({
   return {
     zone: { key: zoneKey, name: zoneName },
     rates,
-    base: baseRule ? { id: baseRule.id, days: baseRule.days } : null,
+    base: baseRule
+      ? {
+          id: baseRule.id,
+          days: baseRule.days,
+          leadDaysMode: baseRule.leadDaysMode,
+          timeSlotDays: parseTimeSlotDays(baseRule.timeSlotDays),
+        }
+      : null,
     productRules,
+    transitDays: Object.fromEntries(
+      transitRates.map((rate) => [rate.shippingRateId, parseTransitDays(rate.transitDays)]),
+    ),
     defaultLeadDays: setting?.defaultLeadDays ?? null,
+    defaultLeadDaysMode: setting?.leadDaysMode ?? "calendar",
   };
 };
 
@@ -220,13 +302,19 @@ export const persistZoneRulePayload = async ({
   zoneKey,
   baseId,
   baseDays,
+  baseLeadDaysMode,
+  baseTimeSlotDays,
   productRules,
+  transitDays,
 }: {
   shopId: string;
   zoneKey: string;
   baseId: string | null;
   baseDays: number | null;
+  baseLeadDaysMode: LeadDaysMode | null;
+  baseTimeSlotDays: TimeSlotDays;
   productRules: ProductRule[];
+  transitDays: Record<string, TransitDays>;
 }) => {
   const { rates } = await resolveZoneRates({ shopId, zoneKey });
   const rateIds = rates.map((rate) => rate.shippingRateId);
@@ -255,7 +343,7 @@ export const persistZoneRulePayload = async ({
     if (baseId) {
       await prisma.rule.updateMany({
         where: { id: baseId, shopId },
-        data: { days: baseDays },
+        data: { days: baseDays, leadDaysMode: baseLeadDaysMode, timeSlotDays: baseTimeSlotDays },
       });
       await ensureLinksForAllRates(baseId);
     } else {
@@ -265,6 +353,8 @@ export const persistZoneRulePayload = async ({
           targetType: "all",
           targetId: null,
           days: baseDays,
+          leadDaysMode: baseLeadDaysMode,
+          timeSlotDays: baseTimeSlotDays,
         },
       });
 
@@ -299,7 +389,7 @@ export const persistZoneRulePayload = async ({
       shopId,
       shippingRateId: { in: rateIds },
       shippingRateShopId: shopId,
-      rule: { targetType: RuleTargetType.product },
+      rule: { targetType: { not: RuleTargetType.all } },
     },
     select: { ruleId: true },
   });
@@ -337,14 +427,16 @@ export const persistZoneRulePayload = async ({
 
   // 商品別ルールをUpsert
   for (const rule of productRules) {
-    const targetId = JSON.stringify(rule.productIds);
+    const targetId = JSON.stringify(rule.targetIds);
     if (rule.id) {
       await prisma.rule.updateMany({
         where: { id: rule.id, shopId },
         data: {
-          targetType: "product",
+          targetType: rule.targetType,
           targetId,
           days: rule.days,
+          leadDaysMode: rule.leadDaysMode ?? null,
+          timeSlotDays: rule.timeSlotDays ?? {},
         },
       });
 
@@ -353,13 +445,30 @@ export const persistZoneRulePayload = async ({
       const created = await prisma.rule.create({
         data: {
           shopId,
-          targetType: "product",
+          targetType: rule.targetType,
           targetId,
           days: rule.days,
+          leadDaysMode: rule.leadDaysMode ?? null,
+          timeSlotDays: rule.timeSlotDays ?? {},
         },
       });
 
       await ensureLinksForAllRates(created.id);
     }
   }
+
+  // 配送ケースごとの配送日数（配送エリアに含まれる配送ケースだけ）
+  const transitRateIds = rateIds.filter((shippingRateId) => transitDays[shippingRateId]);
+  if (transitRateIds.length > 0) {
+    await prisma.$transaction(
+      transitRateIds.map((shippingRateId) =>
+        prisma.shippingRate.updateMany({
+          where: { shopId, shippingRateId },
+          data: { transitDays: transitDays[shippingRateId] },
+        }),
+      ),
+    );
+  }
+
+  await bumpSettingsVersion(shopId);
 };
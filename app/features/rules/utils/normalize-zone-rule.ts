@@ -1,18 +1,46 @@
 import {parsePositiveInt} from "../../../shared/utils/validation.js";
+import {
+  parsePostalPrefixDaysText,
+  parsePrefectureDaysText,
+  type TransitDays,
+} from "../../shipping/utils/transit-days.js";
+import {parseLeadDaysMode, type LeadDaysMode} from "../../ship-by/utils/lead-days-mode.js";
+import {parseTimeSlotDaysText, type TimeSlotDays} from "../../ship-by/utils/time-slot.js";
 import type {ProductRule} from "./rule-types";
+import {
+  isPickerTargetType,
+  parseProductRuleTargetType,
+  PRODUCT_RULE_TARGET_LABELS,
+} from "./rules.js";
 
-// クライアントから受け取る生ペイロード
+// クライアントから受け取る生ペイロード（時間帯ごとの日数は「午前中:+1, 19-21:-1」、
+// 配送日数は「北海道:2, 沖縄県:3」「907:4」の入力文字列）
 export type ZoneRulePayload = {
   zoneKey: string;
-  base: {id: string | null; days: string};
-  productRules: ProductRule[];
+  base: {id: string | null; days: string; leadDaysMode?: string | null; timeSlotDays?: string};
+  productRules: Array<Omit<ProductRule, "timeSlotDays"> & {timeSlotDays?: string}>;
+  transitDays?: Array<{shippingRateId: string; prefectures?: string; postalPrefixes?: string}>;
 };
 
+const TIME_SLOT_DAYS_HINT = "時間帯ごとの日数は「午前中:+1, 19-21:-1」の形で入力してください";
+const PREFECTURE_DAYS_HINT = "都道府県ごとの配送日数は「北海道:2, 沖縄県:3」の形で入力してください";
+const POSTAL_PREFIX_DAYS_HINT = "郵便番号ごとの配送日数は「907:4」の形で入力してください";
+
 // 入力値を検証し、DB保存に使える形へ正規化
 export const normalizeZoneRulePayload = (
   payload: ZoneRulePayload | null,
   expectedZoneKey: string,
-): {ok: false; message: string} | {ok: true; baseDays: number | null; productRules: ProductRule[]} => {
+):
+  | {ok: false; message: string}
+  | {
+      ok: true;
+      baseDays: number | null;
+      baseLeadDaysMode: LeadDaysMode | null;
+      baseTimeSlotDays: TimeSlotDays;
+      productRules: ProductRule[];
+      // 配送ケースIDごとの配送日数
+      transitDays: Record<string, TransitDays>;
+    } => {
   if (!payload || payload.zoneKey !== expectedZoneKey) {
     return {ok: false, message: "配送エリアが一致しません"};
   }
@@ -26,17 +54,57 @@ export const normalizeZoneRulePayload = (
       errors.push("基本設定の出荷日数は1以上の整数で入力してください");
     }
   }
+  const baseTimeSlotDays = parseTimeSlotDaysText(payload.base.timeSlotDays ?? "");
+  if (!baseTimeSlotDays.ok) {
+    errors.push(`基本設定の${TIME_SLOT_DAYS_HINT}`);
+  }
 
   const normalizedProductRules: ProductRule[] = payload.productRules.map((rule, idx) => {
     const parsedDays = parsePositiveInt(rule.days);
+    const targetType = parseProductRuleTargetType(rule.targetType);
+    const targetIds = Array.from(
+      new Set((rule.targetIds ?? []).map((value) => String(value).trim()).filter(Boolean)),
+    );
 
-    if (!rule.productIds || rule.productIds.length === 0) {
-      errors.push(`商品別設定${idx + 1}: 商品を選択してください`);
+    if (targetIds.length === 0) {
+      const label = PRODUCT_RULE_TARGET_LABELS[targetType];
+      errors.push(
+        `商品別設定${idx + 1}: ${label}を${isPickerTargetType(targetType) ? "選択" : "入力"}してください`,
+      );
     }
     if (!parsedDays) {
       errors.push(`商品別設定${idx + 1}: 出荷日数は1以上の整数で入力してください`);
     }
-    return {...rule, days: parsedDays ?? 1};
+    const timeSlotDays = parseTimeSlotDaysText(rule.timeSlotDays ?? "");
+    if (!timeSlotDays.ok) {
+      errors.push(`商品別設定${idx + 1}: ${TIME_SLOT_DAYS_HINT}`);
+    }
+    return {
+      ...rule,
+      targetType,
+      targetIds,
+      days: parsedDays ?? 1,
+      leadDaysMode: parseLeadDaysMode(rule.leadDaysMode),
+      timeSlotDays: timeSlotDays.ok ? timeSlotDays.value : {},
+    };
+  });
+
+  const transitDays: Record<string, TransitDays> = {};
+  (payload.transitDays ?? []).forEach((rate, idx) => {
+    const prefectures = parsePrefectureDaysText(rate.prefectures ?? "");
+    const postalPrefixes = parsePostalPrefixDaysText(rate.postalPrefixes ?? "");
+    if (!prefectures.ok) {
+      errors.push(`配送ケース${idx + 1}: ${PREFECTURE_DAYS_HINT}`);
+    }
+    if (!postalPrefixes.ok) {
+      errors.push(`配送ケース${idx + 1}: ${POSTAL_PREFIX_DAYS_HINT}`);
+    }
+    if (prefectures.ok && postalPrefixes.ok && rate.shippingRateId) {
+      transitDays[rate.shippingRateId] = {
+        prefectures: prefectures.value,
+        postalPrefixes: postalPrefixes.value,
+      };
+    }
   });
 
   if (errors.length > 0) {
@@ -46,6 +114,9 @@ export const normalizeZoneRulePayload = (
   return {
     ok: true,
     baseDays: parsedBaseDays,
+    baseLeadDaysMode: parseLeadDaysMode(payload.base.leadDaysMode),
+    baseTimeSlotDays: baseTimeSlotDays.ok ? baseTimeSlotDays.value : {},
     productRules: normalizedProductRules,
+    transitDays,
   };
 };
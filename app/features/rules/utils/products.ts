@@ -130,3 +130,25 @@ export const selectionToProductSummary = (item: unknown): ProductSummary | null
     imageUrl: imageCandidate ? String(imageCandidate) : null,
   };
 };
+
+// バリエーション・コレクションのピッカー結果をサマリー形式に変換（バリエーションは displayName を優先）
+export const selectionToTargetSummary = (
+  item: unknown,
+  targetType: "product" | "variant" | "collection",
+): ProductSummary | null => {
+  if (targetType === "product") return selectionToProductSummary(item);
+  if (!item) return null;
+
+  const value = item as ProductSelection & {displayName?: unknown};
+  const id = value.id ?? value.admin_graphql_api_id;
+  if (!id) return null;
+
+  const title = value.displayName ?? value.title ?? FALLBACK_PRODUCT_TITLE;
+  const imageCandidate = pickFirstImageUrl(value);
+
+  return {
+    id: String(id),
+    title: String(title),
+    imageUrl: imageCandidate ? String(imageCandidate) : null,
+  };
+};
@@ -0,0 +1,114 @@
+import type {LeadDaysMode, RuleTargetType} from "@prisma/client";
+
+import type {TransitDays} from "../../shipping/utils/transit-days";
+import type {TimeSlotDays} from "../../ship-by/utils/time-slot";
+import type {ProductRule} from "./rule-types";
+
+// 影響プレビューで扱うルール（ship-by.server の RuleLike と同じ形）
+export type DraftRule = {
+  id: string;
+  targetType: RuleTargetType;
+  targetId: string | null;
+  shippingRateIds: string[];
+  days: number;
+  leadDaysMode?: LeadDaysMode | null;
+  timeSlotDays?: TimeSlotDays | null;
+};
+
+// 保存前の配送エリアのルール（normalizeZoneRulePayload の結果と配送ケース）
+export type ZoneRuleDraft = {
+  zoneRateIds: string[];
+  baseId: string | null;
+  baseDays: number | null;
+  baseLeadDaysMode: LeadDaysMode | null;
+  baseTimeSlotDays: TimeSlotDays;
+  productRules: ProductRule[];
+  transitDays: Record<string, TransitDays>;
+};
+
+// 保存前の配送日数を配送ケースに重ねる（配送エリアに含まれる配送ケースだけ）
+export const applyTransitDaysDraft = <
+  T extends {shippingRateId: string; transitDays?: TransitDays | null},
+>(
+  rates: T[],
+  draft: Pick<ZoneRuleDraft, "zoneRateIds" | "transitDays">,
+): T[] => {
+  const zoneRateIds = new Set(draft.zoneRateIds);
+  return rates.map((rate) =>
+    zoneRateIds.has(rate.shippingRateId) && draft.transitDays[rate.shippingRateId]
+      ? {...rate, transitDays: draft.transitDays[rate.shippingRateId]}
+      : rate,
+  );
+};
+
+// 保存前のルールを現在のルールに重ねる（persistZoneRulePayload と同じ結果をメモリ上で作る）
+export const applyZoneRuleDraft = (rules: DraftRule[], draft: ZoneRuleDraft): DraftRule[] => {
+  const zoneRateIds = new Set(draft.zoneRateIds);
+  let next = rules.map((rule) => ({...rule, shippingRateIds: [...rule.shippingRateIds]}));
+
+  const linkZoneRates = (rule: DraftRule) => {
+    rule.shippingRateIds = Array.from(new Set([...rule.shippingRateIds, ...draft.zoneRateIds]));
+  };
+  // 配送エリアから外し、どの配送ケースにも紐づかなくなったルールは削除する
+  const unlinkZoneRates = (ruleIds: Set<string>) => {
+    next = next
+      .map((rule) =>
+        ruleIds.has(rule.id)
+          ? {...rule, shippingRateIds: rule.shippingRateIds.filter((id) => !zoneRateIds.has(id))}
+          : rule,
+      )
+      .filter((rule) => !ruleIds.has(rule.id) || rule.shippingRateIds.length > 0);
+  };
+
+  const base = draft.baseId ? next.find((rule) => rule.id === draft.baseId) : undefined;
+  if (draft.baseDays != null) {
+    if (base) {
+      base.days = draft.baseDays;
+      base.leadDaysMode = draft.baseLeadDaysMode;
+      base.timeSlotDays = draft.baseTimeSlotDays;
+      linkZoneRates(base);
+    } else {
+      next.push({
+        id: "draft-base",
+        targetType: "all",
+        targetId: null,
+        shippingRateIds: [...draft.zoneRateIds],
+        days: draft.baseDays,
+        leadDaysMode: draft.baseLeadDaysMode,
+        timeSlotDays: draft.baseTimeSlotDays,
+      });
+    }
+  } else if (base) {
+    unlinkZoneRates(new Set([base.id]));
+  }
+
+  const incomingIds = new Set(draft.productRules.map((rule) => rule.id).filter(Boolean));
+  const deleteIds = next
+    .filter(
+      (rule) =>
+        rule.targetType !== "all" &&
+        !incomingIds.has(rule.id) &&
+        rule.shippingRateIds.some((id) => zoneRateIds.has(id)),
+    )
+    .map((rule) => rule.id);
+  unlinkZoneRates(new Set(deleteIds));
+
+  draft.productRules.forEach((productRule, index) => {
+    const values = {
+      targetType: productRule.targetType,
+      targetId: JSON.stringify(productRule.targetIds),
+      days: productRule.days,
+      leadDaysMode: productRule.leadDaysMode ?? null,
+      timeSlotDays: productRule.timeSlotDays ?? {},
+    };
+    const existing = productRule.id ? next.find((rule) => rule.id === productRule.id) : undefined;
+    if (existing) {
+      Object.assign(existing, values);
+      linkZoneRates(existing);
+    } else {
+      next.push({id: `draft-product-${index + 1}`, shippingRateIds: [...draft.zoneRateIds], ...values});
+    }
+  });
+
+  return next;
+};
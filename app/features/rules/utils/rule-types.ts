@@ -1,11 +1,21 @@
-// 出荷ルールで共有するシンプルな型定義
+import type {LeadDaysMode, RuleTargetType} from "@prisma/client";
+
+import type {TimeSlotDays} from "../../ship-by/utils/time-slot";
+
+// 全商品以外のルールの対象。商品・バリエーション・コレクションは GID、タグ・ベンダー・商品タイプは文字列で持つ
+export type ProductRuleTargetType = Exclude<RuleTargetType, "all">;
+
+// 出荷ルールで共有するシンプルな型定義（leadDaysModeがnullなら設定の数え方に従う、timeSlotDaysはお届け時間帯ごとの日数の増減）
 export type ProductRule = {
   id: string | null;
-  productIds: string[];
+  targetType: ProductRuleTargetType;
+  targetIds: string[];
   days: number;
+  leadDaysMode?: LeadDaysMode | null;
+  timeSlotDays?: TimeSlotDays | null;
 };
 
-// 商品の最小限サマリー
+// 商品の最小限サマリー（コレクション・バリエーション・タグなどのピル表示にも使う）
 export type ProductSummary = {
   id: string;
   title: string;
@@ -14,4 +24,3 @@ export type ProductSummary = {
 
 // 商品情報を含んだルール
 export type ProductRuleWithProducts = ProductRule & {products: ProductSummary[]};
-
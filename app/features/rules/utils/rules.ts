@@ -1,8 +1,45 @@
-import type {ProductRule} from "./rule-types";
+import type {ProductRule, ProductRuleTargetType} from "./rule-types";
 
 // 商品別設定・日数の初期値
 export const DEFAULT_PRODUCT_DAYS = 1;
 
+// 商品別設定の対象の種類と表示名（選択肢の並び順）
+export const PRODUCT_RULE_TARGET_LABELS: Record<ProductRuleTargetType, string> = {
+  product: "商品",
+  variant: "バリエーション",
+  collection: "コレクション",
+  tag: "商品タグ",
+  vendor: "ベンダー",
+  product_type: "商品タイプ",
+};
+
+export const PRODUCT_RULE_TARGET_OPTIONS = (
+  Object.keys(PRODUCT_RULE_TARGET_LABELS) as ProductRuleTargetType[]
+).map((value) => ({label: PRODUCT_RULE_TARGET_LABELS[value], value}));
+
+// リソースピッカーで選ぶ対象（それ以外は値を入力する）
+const PICKER_TARGET_TYPES = new Set<ProductRuleTargetType>(["product", "variant", "collection"]);
+
+export const isPickerTargetType = (targetType: ProductRuleTargetType) =>
+  PICKER_TARGET_TYPES.has(targetType);
+
+// 不明な値は商品として扱う（対象の種類がなかった頃のペイロードとの互換）
+export const parseProductRuleTargetType = (value: unknown): ProductRuleTargetType =>
+  typeof value === "string" && value in PRODUCT_RULE_TARGET_LABELS
+    ? (value as ProductRuleTargetType)
+    : "product";
+
+// カンマ・読点・改行区切りの入力を重複のない値の配列にする
+export const parseTargetValues = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(/[,、\n]/)
+        .map((item) => item.trim())
+        .filter(Boolean),
+    ),
+  );
+
 // 文字列化された targetId を配列の文字列 ID に戻す
 export const parseTargetIds = (value: string | null): string[] => {
   if (!value) return [];
@@ -17,7 +54,11 @@ export const parseTargetIds = (value: string | null): string[] => {
   return [value].filter(Boolean);
 };
 
-// ProductRuleの配列からユニークな商品IDを抽出する
-export const collectUniqueProductIds = (rules: ProductRule[]): string[] => {
-  return Array.from(new Set(rules.flatMap((rule) => rule.productIds)));
+// ProductRuleの配列から、リソースピッカーで選んだ対象のユニークなIDを抽出する
+export const collectUniqueResourceIds = (rules: ProductRule[]): string[] => {
+  return Array.from(
+    new Set(
+      rules.filter((rule) => isPickerTargetType(rule.targetType)).flatMap((rule) => rule.targetIds),
+    ),
+  );
 };
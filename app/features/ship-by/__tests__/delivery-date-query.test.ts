@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  DELIVERY_DATE_MAX_PRODUCT_IDS,
+  parseDeliveryDateQuery,
+} from "../utils/delivery-date-query.js";
+
+test("parseDeliveryDateQuery: カンマ区切りと繰り返しの商品IDをまとめて読む", () => {
+  const query = parseDeliveryDateQuery(
+    new URLSearchParams("product_ids=111,222&product_id=333&product_id=111&shipping_rate=yamato_cool"),
+  );
+
+  assert.ok(query.ok);
+  assert.deepEqual(query.value.productIds, ["111", "222", "333"]);
+  assert.equal(query.value.shippingRate, "yamato_cool");
+});
+
+test("parseDeliveryDateQuery: GIDを数値のIDに直し、不正な値は無視する", () => {
+  const query = parseDeliveryDateQuery(
+    new URLSearchParams("product_ids=gid://shopify/Product/111, abc ,&shipping_rate=%20"),
+  );
+
+  assert.ok(query.ok);
+  assert.deepEqual(query.value.productIds, ["111"]);
+  assert.equal(query.value.shippingRate, null);
+});
+
+test("parseDeliveryDateQuery: 商品の数が上限を超えたらエラーにする（重複は数えない）", () => {
+  const ids = Array.from({length: DELIVERY_DATE_MAX_PRODUCT_IDS}, (_, index) => String(index + 1));
+
+  const atLimit = parseDeliveryDateQuery(
+    new URLSearchParams(`product_ids=${ids.join(",")}&product_id=1`),
+  );
+  assert.ok(atLimit.ok);
+  assert.equal(atLimit.value.productIds.length, DELIVERY_DATE_MAX_PRODUCT_IDS);
+
+  const overLimit = parseDeliveryDateQuery(
+    new URLSearchParams(`product_ids=${ids.join(",")}&product_id=${DELIVERY_DATE_MAX_PRODUCT_IDS + 1}`),
+  );
+  assert.ok(!overLimit.ok);
+  assert.equal(overLimit.error, "too_many_products");
+});
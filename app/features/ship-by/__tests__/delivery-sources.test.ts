@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  normalizeDeliveryFallbacks,
+  parseDeliveryFallbacks,
+} from "../utils/delivery-sources.js";
+
+test("normalizeDeliveryFallbacks: 空の行を除き、並び順のまま取得元を返す", () => {
+  const result = normalizeDeliveryFallbacks(
+    JSON.stringify([
+      {source: "metafield", key: " subscription.delivery_on ", format: "YYYY/MM/DD"},
+      {source: "attributes", key: "", format: ""},
+      {source: "line_item_property", key: "お届け日", format: ""},
+    ]),
+  );
+
+  assert.deepEqual(result, {
+    ok: true,
+    value: [
+      {source: "metafield", key: "subscription.delivery_on", format: "YYYY/MM/DD"},
+      {source: "line_item_property", key: "お届け日", format: null},
+    ],
+  });
+});
+
+test("normalizeDeliveryFallbacks: メタフィールドのキーが namespace.key でなければエラーにする", () => {
+  const result = normalizeDeliveryFallbacks(
+    JSON.stringify([
+      {source: "attributes", key: "requested_date"},
+      {source: "metafield", key: "delivery_on"},
+    ]),
+  );
+
+  assert.deepEqual(result, {
+    ok: false,
+    message: "予備の取得元2のキーは namespace.key の形で入力してください",
+  });
+  assert.equal(normalizeDeliveryFallbacks("{").ok, false);
+});
+
+test("parseDeliveryFallbacks: 保存済みのJSONから形の合わない項目を無視して読む", () => {
+  assert.deepEqual(
+    parseDeliveryFallbacks([
+      {source: "attributes", key: "requested_date", format: "YYYYMMDD"},
+      {source: "unknown", key: "x"},
+      {source: "line_item_property"},
+      null,
+    ]),
+    [{source: "attributes", key: "requested_date", format: "YYYYMMDD"}],
+  );
+  assert.deepEqual(parseDeliveryFallbacks(null), []);
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {normalizeDateText, parseTolerantDate} from "../utils/japanese-date.js";
+
+const utcDate = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+const toKey = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+// [入力, 注文日, 期待する日付（読み取れなければ null）]
+const cases: Array<[string, string, string | null]> = [
+  ["2026-10-20", "2026-10-01", "2026-10-20"],
+  ["2026/10/20", "2026-10-01", "2026-10-20"],
+  ["2026.10.20", "2026-10-01", "2026-10-20"],
+  ["20261020", "2026-10-01", "2026-10-20"],
+  ["２０２６年１０月２０日(火)", "2026-10-01", "2026-10-20"],
+  ["２０２６／１０／２０（火）", "2026-10-01", "2026-10-20"],
+  ["2026年 10月 20日 火曜日", "2026-10-01", "2026-10-20"],
+  ["2026/10/20 (Tue)", "2026-10-01", "2026-10-20"],
+  ["　2026-10-20　", "2026-10-01", "2026-10-20"],
+  ["2026年10月19日日曜日", "2026-10-01", "2026-10-19"],
+  ["令和8年10月20日", "2026-10-01", "2026-10-20"],
+  ["令和８年１０月２０日（火）", "2026-10-01", "2026-10-20"],
+  ["令和元年5月1日", "2019-04-20", "2019-05-01"],
+  ["R8.10.20", "2026-10-01", "2026-10-20"],
+  ["平成31年4月30日", "2019-04-20", "2019-04-30"],
+  ["10/20", "2026-10-01", "2026-10-20"],
+  ["10月20日", "2026-10-01", "2026-10-20"],
+  ["１０月２０日(火)", "2026-10-01", "2026-10-20"],
+  // 12月の注文の年なし1月は翌年
+  ["1/5", "2026-12-28", "2027-01-05"],
+  ["1月5日", "2026-12-28", "2027-01-05"],
+  // 少し前の日付は同じ年のまま（注文日より前でも翌年にしない）
+  ["12/20", "2026-12-28", "2026-12-20"],
+  // 1月の注文の年なし12月は同じ年の12月
+  ["12/30", "2027-01-03", "2027-12-30"],
+  ["2/29", "2026-01-10", null],
+  ["2/29", "2028-01-10", "2028-02-29"],
+  ["2026年2月30日", "2026-01-01", null],
+  ["令和0年1月1日", "2026-01-01", null],
+  ["来週の火曜日", "2026-10-01", null],
+  ["", "2026-10-01", null],
+];
+
+for (const [raw, orderDate, expected] of cases) {
+  test(`parseTolerantDate: 「${raw}」（注文日 ${orderDate}）→ ${expected ?? "読み取れない"}`, () => {
+    assert.equal(toKey(parseTolerantDate(raw, utcDate(orderDate))), expected);
+  });
+}
+
+test("normalizeDateText: 全角数字・記号を半角にし、曜日と空白を取り除く", () => {
+  assert.equal(normalizeDateText("２０２６年１０月２０日（火）"), "2026年10月20日");
+  assert.equal(normalizeDateText(" 10 / 20 Tue. "), "10/20");
+});
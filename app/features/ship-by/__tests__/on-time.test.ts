@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {groupOnTimeStats, isShippedOnTime, toOnTimeStat} from "../utils/on-time.js";
+
+test("isShippedOnTime: 出荷期限当日までの発送は期限内", () => {
+  assert.equal(isShippedOnTime("2026-01-10", "2026-01-09"), true);
+  assert.equal(isShippedOnTime("2026-01-10", "2026-01-10"), true);
+  assert.equal(isShippedOnTime("2026-01-10", "2026-01-11"), false);
+});
+
+test("toOnTimeStat: 率は小数1桁の%、対象なしは null", () => {
+  assert.deepEqual(toOnTimeStat(2, 1), {total: 3, onTime: 2, late: 1, rate: 66.7});
+  assert.equal(toOnTimeStat(0, 0).rate, null);
+});
+
+test("groupOnTimeStats: グループごとに集計する", () => {
+  const stats = groupOnTimeStats([
+    {groupKey: "yamato", onTime: true},
+    {groupKey: "sagawa", onTime: false},
+    {groupKey: "yamato", onTime: false},
+    {groupKey: "yamato", onTime: true},
+  ]);
+  assert.deepEqual(Array.from(stats.keys()), ["yamato", "sagawa"]);
+  assert.equal(stats.get("yamato")?.onTime, 2);
+  assert.equal(stats.get("yamato")?.late, 1);
+  assert.equal(stats.get("sagawa")?.rate, 0);
+});
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {coerceOrder, getOrderInputFingerprint} from "../server/order-input.server.js";
+import {buildOrderInputFingerprint} from "../utils/order-fingerprint.js";
+import {toOrderPayload} from "../utils/order-payload.js";
+
+const baseOrder = {
+  attributes: [
+    {name: "requested_date", value: "2025-05-10"},
+    {name: "gift", value: "yes"},
+  ],
+  metafields: [{namespace: "shipping", key: "ship_by", value: "2025-05-08"}],
+  shipping_lines: [{code: "yamato", title: "ヤマト"}],
+  line_items: [{product_id: 1, variant_id: 11}],
+};
+
+test("buildOrderInputFingerprint: 並び順が違っても同じ指紋になる", () => {
+  const reordered = {
+    ...baseOrder,
+    attributes: [...baseOrder.attributes].reverse(),
+  };
+  assert.equal(buildOrderInputFingerprint(baseOrder), buildOrderInputFingerprint(reordered));
+});
+
+test("buildOrderInputFingerprint: お届け希望日や配送方法・お届け先が変わると指紋も変わる", () => {
+  const changedDate = {
+    ...baseOrder,
+    attributes: [{name: "requested_date", value: "2025-05-12"}, baseOrder.attributes[1]],
+  };
+  const changedShipping = {...baseOrder, shipping_lines: [{code: "sagawa", title: "佐川"}]};
+  const changedProperty = {
+    ...baseOrder,
+    line_items: [{product_id: 1, variant_id: 11, properties: [{name: "お届け日", value: "5/12"}]}],
+  };
+  const changedAddress = {
+    ...baseOrder,
+    shipping_address: {country_code: "JP", province_code: "JP-47", zip: "907-0002"},
+  };
+  const base = buildOrderInputFingerprint(baseOrder);
+  assert.notEqual(buildOrderInputFingerprint(changedDate), base);
+  assert.notEqual(buildOrderInputFingerprint(changedAddress), base);
+  assert.notEqual(buildOrderInputFingerprint(changedShipping), base);
+  assert.notEqual(buildOrderInputFingerprint(changedProperty), base);
+});
+
+test("buildOrderInputFingerprint: metafieldKeys にないメタフィールドの変化は無視する", () => {
+  const metafieldKeys = ["shipping.requested_date"];
+  const rewritten = {
+    ...baseOrder,
+    metafields: [{namespace: "shipping", key: "ship_by", value: "2025-05-09"}],
+  };
+  const changedDate = {
+    ...baseOrder,
+    metafields: [
+      ...baseOrder.metafields,
+      {namespace: "shipping", key: "requested_date", value: "2025-05-12"},
+    ],
+  };
+  const base = buildOrderInputFingerprint(baseOrder, {metafieldKeys});
+  assert.equal(buildOrderInputFingerprint(rewritten, {metafieldKeys}), base);
+  assert.notEqual(buildOrderInputFingerprint(changedDate, {metafieldKeys}), base);
+});
+
+// orders/create・orders/updated の REST ペイロード（メタフィールドなし）
+const restPayload = {
+  id: 1001,
+  note_attributes: [{name: "requested_date", value: "2025-05-10"}],
+  shipping_lines: [
+    {id: 4321, code: "yamato", title: "ヤマト", source: "shopify", delivery_category: null},
+  ],
+  line_items: [{product_id: 111, variant_id: 222, quantity: 1, properties: []}],
+  shipping_address: {country_code: "JP", province: "Tokyo", province_code: "JP-13", zip: "100-0001"},
+};
+
+// orders/edited で再取得した同じ注文（GID の ID と、他のアプリのメタフィールドを含む）
+const graphqlPayload = toOrderPayload({
+  id: "gid://shopify/Order/1001",
+  legacyResourceId: "1001",
+  customAttributes: [{key: "requested_date", value: "2025-05-10"}],
+  metafields: {
+    nodes: [
+      {namespace: "other_app", key: "status", value: "synced"},
+      {namespace: "shipping", key: "ship_by", value: "2025-05-08"},
+    ],
+  },
+  shippingLines: {
+    nodes: [
+      {
+        id: "gid://shopify/ShippingLine/4321",
+        code: "yamato",
+        title: "ヤマト",
+        source: "shopify",
+        deliveryCategory: null,
+      },
+    ],
+  },
+  lineItems: {
+    nodes: [
+      {
+        quantity: 1,
+        customAttributes: [],
+        product: {id: "gid://shopify/Product/111", legacyResourceId: "111"},
+        variant: {id: "gid://shopify/ProductVariant/222", legacyResourceId: "222"},
+      },
+    ],
+  },
+  shippingAddress: {countryCodeV2: "JP", province: "Tokyo", provinceCode: "JP-13", zip: "100-0001"},
+});
+
+test("getOrderInputFingerprint: Webhook（REST）と再取得（GraphQL）の同じ注文は同じ指紋になる", () => {
+  const setting = {deliverySource: "attributes" as const, deliveryKey: "requested_date"};
+
+  assert.equal(
+    getOrderInputFingerprint(coerceOrder(graphqlPayload), setting),
+    getOrderInputFingerprint(coerceOrder(restPayload), setting),
+  );
+});
+
+test("getOrderInputFingerprint: メタフィールドの取得元では、そのメタフィールドだけを含める", () => {
+  const setting = {
+    deliverySource: "metafield" as const,
+    deliveryKey: "shipping.requested_date",
+    deliveryTimeSlotKey: "shipping.time_slot",
+  };
+  const withDelivery = (date: string, timeSlot: string) => ({
+    ...graphqlPayload,
+    metafields: [
+      ...(graphqlPayload.metafields as unknown[]),
+      {namespace: "shipping", key: "requested_date", value: date},
+      {namespace: "shipping", key: "time_slot", value: timeSlot},
+    ],
+  });
+
+  const base = getOrderInputFingerprint(coerceOrder(withDelivery("2025-05-10", "午前")), setting);
+  const otherAppChanged = {
+    ...withDelivery("2025-05-10", "午前"),
+    metafields: [
+      {namespace: "other_app", key: "status", value: "pending"},
+      {namespace: "shipping", key: "requested_date", value: "2025-05-10"},
+      {namespace: "shipping", key: "time_slot", value: "午前"},
+    ],
+  };
+  assert.equal(getOrderInputFingerprint(coerceOrder(otherAppChanged), setting), base);
+  assert.notEqual(
+    getOrderInputFingerprint(coerceOrder(withDelivery("2025-05-12", "午前")), setting),
+    base,
+  );
+  assert.notEqual(
+    getOrderInputFingerprint(coerceOrder(withDelivery("2025-05-10", "14-16時")), setting),
+    base,
+  );
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {toOrderPayload} from "../utils/order-payload.js";
+
+test("toOrderPayload: GraphQLの注文をWebhookと同じ形に変換する", () => {
+  const payload = toOrderPayload({
+    id: "gid://shopify/Order/1001",
+    legacyResourceId: "1001",
+    createdAt: "2025-05-01T10:00:00Z",
+    cancelledAt: "2025-05-02T09:00:00Z",
+    tags: ["vip"],
+    shippingAddress: {countryCodeV2: "JP", province: "Okinawa", provinceCode: "JP-47", zip: "907-0002"},
+    customAttributes: [{key: "requested_date", value: "2025-05-10"}],
+    metafields: {nodes: [{namespace: "shipping", key: "requested_date", value: "2025-05-10"}]},
+    shippingLines: {nodes: [{code: "yamato_cool", title: "Yamato Cool"}]},
+    lineItems: {
+      nodes: [
+        {
+          quantity: 1,
+          customAttributes: [{key: "お届け日", value: "2025/05/10"}],
+          product: {legacyResourceId: "111"},
+          variant: {legacyResourceId: "222"},
+        },
+        {quantity: 2, product: null, variant: null},
+      ],
+    },
+  });
+
+  assert.equal(payload.id, 1001);
+  assert.equal(payload.admin_graphql_api_id, "gid://shopify/Order/1001");
+  assert.equal(payload.cancelled_at, "2025-05-02T09:00:00Z");
+  assert.deepEqual(payload.note_attributes, [{name: "requested_date", value: "2025-05-10"}]);
+  assert.deepEqual(payload.tags, ["vip"]);
+  assert.deepEqual(payload.shipping_address, {
+    country_code: "JP",
+    province: "Okinawa",
+    province_code: "JP-47",
+    zip: "907-0002",
+  });
+  assert.deepEqual(payload.line_items, [
+    {
+      product_id: 111,
+      variant_id: 222,
+      quantity: 1,
+      properties: [{name: "お届け日", value: "2025/05/10"}],
+    },
+    {product_id: null, variant_id: null, quantity: 2, properties: []},
+  ]);
+  assert.equal((payload.shipping_lines as Array<{code: string}>)[0]?.code, "yamato_cool");
+  assert.equal((payload.metafields as unknown[]).length, 1);
+});
+
+test("toOrderPayload: 欠けたコネクションは空配列になる", () => {
+  const payload = toOrderPayload({legacyResourceId: null});
+  assert.equal(payload.id, null);
+  assert.deepEqual(payload.line_items, []);
+  assert.deepEqual(payload.shipping_lines, []);
+  assert.deepEqual(payload.metafields, []);
+  assert.deepEqual(payload.note_attributes, []);
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  attachProductTargets,
+  isProductTargetCacheFresh,
+  needsProductTargets,
+  PRODUCT_TARGET_CACHE_TTL_MS,
+  toProductTargets,
+} from "../utils/product-targets.js";
+
+test("needsProductTargets: コレクション・タグ・ベンダー・商品タイプのルールがあるときだけ必要", () => {
+  assert.equal(needsProductTargets([{targetType: "all"}, {targetType: "product"}]), false);
+  assert.equal(needsProductTargets([{targetType: "variant"}]), false);
+  assert.equal(needsProductTargets([{targetType: "all"}, {targetType: "collection"}]), true);
+  assert.equal(needsProductTargets([{targetType: "vendor"}]), true);
+});
+
+test("toProductTargets: GraphQLの商品からコレクションIDとタグを取り出す", () => {
+  assert.deepEqual(
+    toProductTargets({
+      legacyResourceId: "111",
+      vendor: "Acme",
+      productType: "",
+      tags: ["受注生産"],
+      collections: {nodes: [{legacyResourceId: "333"}, null]},
+    }),
+    {vendor: "Acme", productType: null, tags: ["受注生産"], collectionIds: ["333"]},
+  );
+});
+
+test("attachProductTargets: 明細に商品情報を補い、明細のベンダーを優先する", () => {
+  const targets = new Map([
+    ["111", {vendor: "Acme", productType: "Cake", tags: ["cool"], collectionIds: ["333"]}],
+  ]);
+  const order = attachProductTargets(
+    {line_items: [{product_id: 111, vendor: "Shop Vendor"}, {product_id: 999}]},
+    targets,
+  );
+
+  assert.deepEqual(order.line_items, [
+    {
+      product_id: 111,
+      vendor: "Shop Vendor",
+      product_type: "Cake",
+      product_tags: ["cool"],
+      collection_ids: ["333"],
+    },
+    {product_id: 999},
+  ]);
+});
+
+test("isProductTargetCacheFresh: 有効期間を過ぎたキャッシュは取得し直す", () => {
+  const now = new Date("2025-05-01T12:00:00Z");
+  assert.equal(isProductTargetCacheFresh(new Date(now.getTime() - 60_000), now), true);
+  assert.equal(
+    isProductTargetCacheFresh(new Date(now.getTime() - PRODUCT_TARGET_CACHE_TTL_MS), now),
+    false,
+  );
+});
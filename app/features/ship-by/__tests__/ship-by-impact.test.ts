@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { compareShipByImpact } from "../server/ship-by-impact.server.js";
+
+const shopSetting = {
+  deliverySource: "attributes" as const,
+  deliveryKey: "delivery_date",
+  deliveryFormat: "YYYY-MM-DD",
+  shippingRates: [
+    { shippingRateId: "sr_yamato_cool", handle: "yamato_cool", title: "Yamato Cool" },
+  ],
+};
+
+const targetOrder = (orderId: string, deliveryDate: string, open = true) => ({
+  orderId,
+  orderName: `#${orderId}`,
+  open,
+  order: {
+    created_at: "2025-05-01T01:00:00Z",
+    attributes: [{ name: "delivery_date", value: deliveryDate }],
+    shipping_lines: [{ code: "yamato_cool" }],
+    line_items: [{ product_id: 111 }],
+  },
+});
+
+const rulesWithDays = (days: number) => [
+  {
+    id: "base",
+    targetType: "all" as const,
+    targetId: null,
+    shippingRateIds: ["sr_yamato_cool"],
+    days,
+  },
+];
+
+test("compareShipByImpact: 出荷期限が変わる注文と日数のずれを集計する", () => {
+  const impact = compareShipByImpact({
+    orders: [
+      targetOrder("1", "2025-05-10"),
+      targetOrder("2", "2025-05-12", false),
+      targetOrder("3", "invalid"),
+    ],
+    currentRules: rulesWithDays(2),
+    draftRules: rulesWithDays(4),
+    shopSetting,
+  });
+
+  assert.equal(impact.evaluated, 3);
+  assert.equal(impact.changed, 2);
+  assert.equal(impact.earlier, 2);
+  assert.equal(impact.later, 0);
+  assert.equal(impact.openChanged, 1);
+  assert.deepEqual(impact.shifts, [{ days: -2, count: 2 }]);
+  assert.deepEqual(impact.changes[0], {
+    orderId: "1",
+    orderName: "#1",
+    open: true,
+    before: "2025-05-08",
+    after: "2025-05-06",
+    shiftDays: -2,
+  });
+});
+
+test("compareShipByImpact: 計算できなくなる・できるようになる注文を数える", () => {
+  const orders = [targetOrder("1", "2025-05-10")];
+
+  const failed = compareShipByImpact({
+    orders,
+    currentRules: rulesWithDays(2),
+    draftRules: [],
+    shopSetting,
+  });
+  assert.equal(failed.newlyFailed, 1);
+  assert.equal(failed.changes[0]?.after, null);
+  assert.equal(failed.changes[0]?.shiftDays, null);
+  assert.deepEqual(failed.shifts, []);
+
+  const resolved = compareShipByImpact({
+    orders,
+    currentRules: [],
+    draftRules: rulesWithDays(2),
+    shopSetting,
+  });
+  assert.equal(resolved.resolved, 1);
+  assert.equal(resolved.changes[0]?.after, "2025-05-08");
+});
+
+test("compareShipByImpact: ルールが同じなら変化なし", () => {
+  const impact = compareShipByImpact({
+    orders: [targetOrder("1", "2025-05-10")],
+    currentRules: rulesWithDays(2),
+    draftRules: rulesWithDays(2),
+    shopSetting,
+  });
+
+  assert.equal(impact.changed, 0);
+  assert.deepEqual(impact.changes, []);
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {replaceShipByNoteLine} from "../utils/ship-by-note.js";
+import {buildShipByTemplateMatcher, formatShipByTemplate} from "../utils/ship-by-template.js";
+
+test("formatShipByTemplate: {YYYY}/{MM}/{DD} を日付で置き換える", () => {
+  assert.equal(formatShipByTemplate("出荷 {MM}/{DD}（{YYYY}）", "2025-05-08"), "出荷 05/08（2025）");
+});
+
+test("buildShipByTemplateMatcher: 日付トークンがなければ null", () => {
+  assert.equal(buildShipByTemplateMatcher("出荷期限"), null);
+  assert.equal(buildShipByTemplateMatcher("出荷期限: {YYYY}-{MM}-{DD}")?.test("出荷期限: 2025-05-08"), true);
+});
+
+test("formatShipByTemplate: {SLOT} を時間帯で置き換え、時間帯がなければ空にする", () => {
+  assert.equal(
+    formatShipByTemplate("出荷 {MM}/{DD} {SLOT}", "2025-05-08", {timeSlot: "午前中"}),
+    "出荷 05/08 午前中",
+  );
+  assert.equal(formatShipByTemplate("出荷 {MM}/{DD} {SLOT}", "2025-05-08"), "出荷 05/08");
+});
+
+test("buildShipByTemplateMatcher: {SLOT} は時間帯の有無に関わらず一致する", () => {
+  const matcher = buildShipByTemplateMatcher("出荷 {MM}/{DD} {SLOT}");
+  assert.equal(matcher?.test("出荷 05/08 14-16"), true);
+  assert.equal(matcher?.test("出荷 05/08"), true);
+  assert.equal(matcher?.test("出荷 メモ"), false);
+});
+
+test("replaceShipByNoteLine: メモがなければ出荷期限の行だけにする", () => {
+  assert.equal(replaceShipByNoteLine(null, "出荷期限: 2025-05-08", null), "出荷期限: 2025-05-08");
+});
+
+test("replaceShipByNoteLine: 既存メモの末尾に追記する", () => {
+  assert.equal(
+    replaceShipByNoteLine("ギフト包装希望\n", "出荷期限: 2025-05-08", null),
+    "ギフト包装希望\n出荷期限: 2025-05-08",
+  );
+});
+
+test("replaceShipByNoteLine: 既存の出荷期限行をその位置で置き換え、重複は消す", () => {
+  const note = "出荷期限: 2025-05-01\nギフト包装希望\n出荷期限: 2025-05-02";
+  assert.equal(
+    replaceShipByNoteLine(note, "出荷期限: 2025-05-08", null),
+    "出荷期限: 2025-05-08\nギフト包装希望",
+  );
+});
+
+test("replaceShipByNoteLine: 同じ内容で再実行してもメモは変わらない", () => {
+  const once = replaceShipByNoteLine("ギフト包装希望", "出荷 05/08", "出荷 {MM}/{DD}");
+  assert.equal(replaceShipByNoteLine(once, "出荷 05/08", "出荷 {MM}/{DD}"), once);
+});
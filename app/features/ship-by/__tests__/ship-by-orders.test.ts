@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  classifyShipByDate,
+  parseShipByOrderFilters,
+  partitionCancelledOrders,
+  toDateKeyInTimeZone,
+  toShipByOrderSearch,
+  toShipByOrderWhere,
+} from "../utils/ship-by-orders.js";
+
+test("classifyShipByDate: 今日を基準に期限切れ・今日・明日・それ以降に分ける", () => {
+  assert.equal(classifyShipByDate("2026-01-30", "2026-01-31"), "overdue");
+  assert.equal(classifyShipByDate("2026-01-31", "2026-01-31"), "today");
+  assert.equal(classifyShipByDate("2026-02-01", "2026-01-31"), "tomorrow");
+  assert.equal(classifyShipByDate("2026-02-02", "2026-01-31"), "later");
+});
+
+test("parseShipByOrderFilters: 開始日が未指定なら7日前から、空指定なら制限なし", () => {
+  const defaults = parseShipByOrderFilters(new URLSearchParams(""), "2026-01-10");
+  assert.deepEqual(defaults, {from: "2026-01-03", to: null, zone: null, infeasible: false, page: 1});
+
+  const cleared = parseShipByOrderFilters(new URLSearchParams("from=&to=2026-01-20&zone=関東&page=2"), "2026-01-10");
+  assert.deepEqual(cleared, {from: null, to: "2026-01-20", zone: "関東", infeasible: false, page: 2});
+});
+
+test("parseShipByOrderFilters: 間に合わない注文のみなら開始日で制限しない", () => {
+  const filters = parseShipByOrderFilters(new URLSearchParams("infeasible=1"), "2026-01-10");
+  assert.deepEqual(filters, {from: null, to: null, zone: null, infeasible: true, page: 1});
+  assert.equal(toShipByOrderSearch(filters), "?from=&infeasible=1");
+});
+
+test("toShipByOrderSearch: 条件をクエリに戻す", () => {
+  assert.equal(
+    toShipByOrderSearch({from: "2026-01-03", to: null, zone: null, page: 1}, "abc"),
+    "?host=abc&from=2026-01-03",
+  );
+  assert.equal(toShipByOrderSearch({from: null, page: 3}), "?from=&page=3");
+});
+
+test("toDateKeyInTimeZone: タイムゾーンの日付で返し、不正なら UTC", () => {
+  const date = new Date("2026-01-31T16:00:00Z");
+  assert.equal(toDateKeyInTimeZone(date, "Asia/Tokyo"), "2026-02-01");
+  assert.equal(toDateKeyInTimeZone(date, "Invalid/Zone"), "2026-01-31");
+});
+
+test("toShipByOrderWhere: 発送済み・キャンセル済みの注文は絞り込みに関係なく含めない", () => {
+  const rates = [
+    {shippingRateId: "rate-kanto", zoneName: "関東"},
+    {shippingRateId: "rate-kansai", zoneName: "関西"},
+  ];
+
+  const where = toShipByOrderWhere(
+    "shop-1",
+    {from: null, to: null, zone: null, infeasible: false, page: 1},
+    rates,
+  );
+  assert.deepEqual(where, {shopId: "shop-1", fulfilledAt: null, cancelledAt: null});
+
+  const filtered = toShipByOrderWhere(
+    "shop-1",
+    {from: "2026-01-01", to: null, zone: null, infeasible: true, page: 1},
+    rates,
+  );
+  assert.equal(filtered.fulfilledAt, null);
+  assert.equal(filtered.cancelledAt, null);
+  assert.deepEqual(filtered.shortfallDays, {gt: 0});
+});
+
+test("partitionCancelledOrders: 詳細がキャンセル済みの注文を一覧から外す", () => {
+  const records = [{orderId: 1n}, {orderId: 2n}, {orderId: 3n}];
+  const details = new Map([
+    ["1", {cancelledAt: null}],
+    ["2", {cancelledAt: "2026-01-30T10:00:00Z"}],
+  ]);
+
+  const {listed, cancelled} = partitionCancelledOrders(records, details);
+  assert.deepEqual(listed, [{orderId: 1n}, {orderId: 3n}]);
+  assert.deepEqual(cancelled, [{orderId: 2n}]);
+
+  // 詳細を取得できなかった場合はすべて表示する
+  assert.equal(partitionCancelledOrders(records, null).listed.length, 3);
+});
@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildSimulationOrder,
+  simulateShipBy,
+} from "../server/ship-by-simulation.server.js";
+
+const shopSetting = {
+  deliverySource: "attributes" as const,
+  deliveryKey: "delivery_date",
+  deliveryFormat: "YYYY/MM/DD",
+  timeZone: "Asia/Tokyo",
+  shippingRates: [
+    { shippingRateId: "sr_yamato_cool", handle: "yamato_cool", title: "Yamato Cool" },
+    { shippingRateId: "sr_sagawa_regular", handle: "sagawa_regular", title: "Sagawa Regular" },
+  ],
+};
+
+const rules = [
+  {
+    id: "all-any",
+    targetType: "all" as const,
+    targetId: null,
+    shippingRateIds: [],
+    days: 1,
+  },
+  {
+    id: "all-yamato",
+    targetType: "all" as const,
+    targetId: null,
+    shippingRateIds: ["sr_yamato_cool"],
+    days: 2,
+  },
+  {
+    id: "all-sagawa",
+    targetType: "all" as const,
+    targetId: null,
+    shippingRateIds: ["sr_sagawa_regular"],
+    days: 5,
+  },
+];
+
+test("buildSimulationOrder: お届け希望日を設定の取得元・キーに入れる", () => {
+  const input = {
+    productIds: ["111"],
+    shippingRate: { handle: "yamato_cool", title: "Yamato Cool" },
+    deliveryValue: "2025/05/12",
+  };
+
+  assert.deepEqual(buildSimulationOrder(input, shopSetting).attributes, [
+    { name: "delivery_date", value: "2025/05/12" },
+  ]);
+  assert.deepEqual(
+    buildSimulationOrder(input, {
+      ...shopSetting,
+      deliverySource: "metafield",
+      deliveryKey: "shipping.requested_date",
+    }).metafields,
+    [{ namespace: "shipping", key: "requested_date", value: "2025/05/12" }],
+  );
+});
+
+test("simulateShipBy: 一致した優先順位・採用ルール・飛ばした休業日を返す", () => {
+  const order = buildSimulationOrder(
+    {
+      productIds: ["111"],
+      shippingRate: { handle: "yamato_cool", title: "Yamato Cool" },
+      deliveryValue: "2025/05/12",
+    },
+    shopSetting,
+  );
+
+  const simulation = simulateShipBy({
+    order,
+    rules,
+    shopSetting,
+    holiday: { holidays: [], weeklyHolidays: ["sat", "sun"] },
+    now: new Date("2025-05-01T10:00:00+09:00"),
+  });
+
+  assert.equal(simulation.delivery.rawValue, "2025/05/12");
+  assert.equal(simulation.delivery.parsed, "2025-05-12");
+  assert.equal(simulation.orderDate, "2025-05-01");
+  assert.equal(simulation.shippingRate.detected, "sr_yamato_cool");
+  assert.deepEqual(simulation.shippingRate.candidates[0], {
+    value: "yamato_cool",
+    matchedRateId: "sr_yamato_cool",
+  });
+  assert.deepEqual(
+    simulation.rules.map((rule) => [rule.id, rule.tier, rule.adopted]),
+    [
+      ["all-any", 8, false],
+      ["all-yamato", 7, true],
+      ["all-sagawa", null, false],
+    ],
+  );
+  assert.equal(simulation.adoptedTier, 7);
+  assert.deepEqual(simulation.leadTime, {
+    days: 2,
+    transitDays: 0,
+    mode: "calendar",
+    usedDefaultLeadDays: false,
+  });
+  assert.deepEqual(simulation.subtraction, { from: "2025-05-12", to: "2025-05-10", skippedDays: [] });
+  assert.deepEqual(simulation.adjustment, {
+    from: "2025-05-10",
+    to: "2025-05-09",
+    skippedDays: ["2025-05-10"],
+  });
+  assert.deepEqual(simulation.result, { ok: true, shipBy: "2025-05-09", shortfallDays: null });
+});
+
+test("simulateShipBy: お届け先の配送日数を足してさかのぼる", () => {
+  const simulation = simulateShipBy({
+    order: buildSimulationOrder(
+      {
+        productIds: [],
+        shippingRate: { handle: "yamato_cool", title: "Yamato Cool" },
+        deliveryValue: "2025/05/12",
+        prefecture: "hokkaido",
+      },
+      shopSetting,
+    ),
+    rules,
+    shopSetting: {
+      ...shopSetting,
+      shippingRates: [
+        {
+          ...shopSetting.shippingRates[0],
+          transitDays: { prefectures: { hokkaido: 1 }, postalPrefixes: {} },
+        },
+      ],
+    },
+    holiday: { holidays: [], weeklyHolidays: ["sat", "sun"] },
+    now: new Date("2025-05-01T10:00:00+09:00"),
+  });
+
+  assert.deepEqual(simulation.destination, { prefecture: "hokkaido", zip: null });
+  assert.equal(simulation.leadTime?.transitDays, 1);
+  assert.deepEqual(simulation.subtraction, { from: "2025-05-12", to: "2025-05-09", skippedDays: [] });
+  assert.deepEqual(simulation.result, { ok: true, shipBy: "2025-05-09", shortfallDays: null });
+});
+
+test("simulateShipBy: 営業日で数える場合はさかのぼる間の休業日を飛ばした日として返す", () => {
+  const simulation = simulateShipBy({
+    order: buildSimulationOrder(
+      { productIds: [], shippingRate: null, deliveryValue: "2025/05/12" },
+      shopSetting,
+    ),
+    rules: [],
+    shopSetting: { ...shopSetting, defaultLeadDays: 2, leadDaysMode: "business" as const },
+    holiday: { holidays: [], weeklyHolidays: ["sat", "sun"] },
+    now: new Date("2025-05-01T10:00:00+09:00"),
+  });
+
+  assert.equal(simulation.shippingRate.detected, null);
+  assert.equal(simulation.shippingRate.usedFallback, true);
+  assert.deepEqual(simulation.leadTime, {
+    days: 2,
+    transitDays: 0,
+    mode: "business",
+    usedDefaultLeadDays: true,
+  });
+  assert.deepEqual(simulation.subtraction, {
+    from: "2025-05-12",
+    to: "2025-05-08",
+    skippedDays: ["2025-05-10", "2025-05-11"],
+  });
+  assert.deepEqual(simulation.adjustment?.skippedDays, []);
+});
+
+test("simulateShipBy: 書式が合わない場合は取得した値とエラーを返す", () => {
+  const simulation = simulateShipBy({
+    order: buildSimulationOrder(
+      { productIds: [], shippingRate: null, deliveryValue: "5月12日" },
+      shopSetting,
+    ),
+    rules,
+    shopSetting,
+    holiday: null,
+  });
+
+  assert.equal(simulation.delivery.rawValue, "5月12日");
+  assert.equal(simulation.delivery.parsed, null);
+  assert.equal(simulation.leadTime, null);
+  assert.equal(simulation.result.ok, false);
+  if (simulation.result.ok) return;
+  assert.equal(simulation.result.error, "invalid_delivery_format");
+});
+
+test("simulateShipBy: 予備の取得元を含め、試した順に取得元ごとの値を返す", () => {
+  const fallbackSetting = {
+    ...shopSetting,
+    deliverySource: "line_item_property" as const,
+    deliveryKey: "お届け日",
+    deliveryFallbacks: [{ source: "attributes" as const, key: "delivery_date" }],
+  };
+  const order = buildSimulationOrder(
+    { productIds: ["111"], shippingRate: null, deliveryValue: "来週" },
+    fallbackSetting,
+  );
+  assert.deepEqual(order.line_items, [
+    { product_id: "111", properties: [{ name: "お届け日", value: "来週" }] },
+  ]);
+
+  const simulation = simulateShipBy({
+    order: { ...order, attributes: [{ name: "delivery_date", value: "2025-05-12" }] },
+    rules,
+    shopSetting: fallbackSetting,
+    holiday: null,
+  });
+
+  assert.deepEqual(
+    simulation.delivery.attempts.map((attempt) => [attempt.source, attempt.rawValue, attempt.parsed]),
+    [
+      ["line_item_property", "来週", null],
+      ["attributes", "2025-05-12", "2025-05-12"],
+    ],
+  );
+  assert.equal(simulation.delivery.source, "attributes");
+  assert.equal(simulation.delivery.parsed, "2025-05-12");
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  ASAP_TAG,
+  INFEASIBLE_TAG,
+  applyAsapTag,
+  applyInfeasibleTag,
+  buildShipByTagMatcher,
+  replaceShipByTag,
+} from "../utils/ship-by-tags.js";
+
+test("buildShipByTagMatcher: 書式どおりの日付タグだけに一致する", () => {
+  const matcher = buildShipByTagMatcher("出荷{MM}/{DD}（{YYYY}）");
+  assert.ok(matcher);
+  assert.equal(matcher.test("出荷05/10（2025）"), true);
+  assert.equal(matcher.test("出荷5/10（2025）"), false);
+  assert.equal(matcher.test("vip"), false);
+});
+
+test("buildShipByTagMatcher: 未設定なら既定の書式、日付トークンがなければ null", () => {
+  assert.equal(buildShipByTagMatcher(null)?.test("ship-by-2025-05-10"), true);
+  assert.equal(buildShipByTagMatcher("ship-by"), null);
+});
+
+test("replaceShipByTag: 古い出荷期限タグを置き換え、他のタグは残す", () => {
+  const tags = replaceShipByTag(["vip", "ship-by-2025-05-08"], "ship-by-2025-05-10", null);
+  assert.deepEqual(tags, ["vip", "ship-by-2025-05-10"]);
+});
+
+test("replaceShipByTag: 同じタグがあれば重複させない", () => {
+  const tags = replaceShipByTag(["ship-by-2025-05-10", "vip"], "ship-by-2025-05-10", null);
+  assert.deepEqual(tags, ["vip", "ship-by-2025-05-10"]);
+});
+
+test("applyInfeasibleTag: 間に合わない注文にだけ警告タグを1つ付ける", () => {
+  assert.deepEqual(applyInfeasibleTag(["vip"], true), ["vip", INFEASIBLE_TAG]);
+  assert.deepEqual(applyInfeasibleTag(["vip", INFEASIBLE_TAG], true), ["vip", INFEASIBLE_TAG]);
+  assert.deepEqual(applyInfeasibleTag([INFEASIBLE_TAG, "vip"], false), ["vip"]);
+});
+
+test("applyAsapTag: 最短出荷の注文にだけ目印のタグを付ける", () => {
+  assert.deepEqual(applyAsapTag(["vip"], true), ["vip", ASAP_TAG]);
+  assert.deepEqual(applyAsapTag([ASAP_TAG, "vip"], false), ["vip"]);
+});
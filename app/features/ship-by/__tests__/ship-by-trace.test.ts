@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {buildShipByTrace} from "../utils/ship-by-trace.js";
+
+const utcDate = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+test("buildShipByTrace: 休業日で繰り下げた場合は元の日付と繰り下げの有無を残す", () => {
+  const trace = buildShipByTrace({
+    shipBy: utcDate("2025-05-09"),
+    deliveryDate: utcDate("2025-05-13"),
+    deliverySource: {source: "line_item_property", key: "お届け日", format: "YYYY/MM/DD"},
+    timeSlot: "14-16",
+    asap: false,
+    orderDate: utcDate("2025-05-08"),
+    adoptDays: 2,
+    transitDays: 1,
+    destination: "hokkaido",
+    leadDaysMode: "calendar",
+    shippingRateId: "sr_yamato_cool",
+    matchedRuleIds: ["rule-1", "rule-2"],
+    adjustedFrom: utcDate("2025-05-10"),
+    infeasible: null,
+  });
+
+  assert.deepEqual(trace, {
+    shipBy: "2025-05-09",
+    deliveryDate: "2025-05-13",
+    deliverySource: "line_item_property",
+    deliveryKey: "お届け日",
+    timeSlot: "14-16",
+    asap: false,
+    orderDate: "2025-05-08",
+    adoptDays: 2,
+    transitDays: 1,
+    destination: "hokkaido",
+    leadDaysMode: "calendar",
+    shippingRateId: "sr_yamato_cool",
+    matchedRuleIds: ["rule-1", "rule-2"],
+    usedDefaultLeadDays: false,
+    adjustedFrom: "2025-05-10",
+    holidayShifted: true,
+    shortfallDays: null,
+  });
+});
+
+test("buildShipByTrace: 既定の日数へフォールバックした場合は配送ケースをnullにする", () => {
+  const trace = buildShipByTrace({
+    shipBy: utcDate("2025-05-09"),
+    deliveryDate: utcDate("2025-05-12"),
+    deliverySource: {source: "metafield", key: "shipping.requested_date"},
+    timeSlot: null,
+    asap: false,
+    orderDate: utcDate("2025-05-10"),
+    adoptDays: 3,
+    transitDays: 0,
+    destination: null,
+    leadDaysMode: "business",
+    shippingRateId: "unknown",
+    matchedRuleIds: [],
+    adjustedFrom: utcDate("2025-05-09"),
+    infeasible: {shortfallDays: 1},
+  });
+
+  assert.equal(trace.shippingRateId, null);
+  assert.equal(trace.usedDefaultLeadDays, true);
+  assert.equal(trace.holidayShifted, false);
+  assert.equal(trace.shortfallDays, 1);
+});
+
+test("buildShipByTrace: 最短出荷ではお届け希望日と取得元を null にする", () => {
+  const trace = buildShipByTrace({
+    shipBy: utcDate("2025-05-12"),
+    deliveryDate: null,
+    deliverySource: null,
+    timeSlot: null,
+    asap: true,
+    orderDate: utcDate("2025-05-08"),
+    adoptDays: 2,
+    transitDays: 0,
+    destination: null,
+    leadDaysMode: "calendar",
+    shippingRateId: "sr_yamato_cool",
+    matchedRuleIds: ["rule-1"],
+    adjustedFrom: utcDate("2025-05-10"),
+    infeasible: null,
+  });
+
+  assert.equal(trace.asap, true);
+  assert.equal(trace.deliveryDate, null);
+  assert.equal(trace.deliverySource, null);
+  assert.equal(trace.deliveryKey, null);
+  assert.equal(trace.holidayShifted, true);
+});
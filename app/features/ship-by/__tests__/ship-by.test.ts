@@ -1,13 +1,20 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 
+import type { RuleTargetType } from "@prisma/client";
+
 import {
   adjustForHolidays,
   calculateShipBy,
   detectShippingRate,
+  findEarliestDelivery,
+  getLineItemTargets,
+  getRuleTier,
   parseDeliveryDate,
   pickAdoptedRule,
+  subtractBusinessDays,
   toISODate,
+  type RuleLike,
 } from "../server/ship-by.server.js";
 
 const baseSetting = {
@@ -132,7 +139,83 @@ test("属性の数値でもお届け希望日を読み取れる", () => {
 
   assert.equal(result.ok, true);
   if (!result.ok) return;
-  assert.equal(toISODate(result.value), "2025-12-24");
+  assert.equal(toISODate(result.value.date), "2025-12-24");
+});
+
+test("お届け希望日の取得元を順に試し、最初に読み取れた取得元を返す", () => {
+  const shopSetting = {
+    deliverySource: "attributes" as const,
+    deliveryKey: "requested_date",
+    deliveryFormat: "YYYY-MM-DD",
+    deliveryFallbacks: [
+      { source: "metafield" as const, key: "subscription.delivery_on", format: "YYYY/MM/DD" },
+      { source: "line_item_property" as const, key: "お届け日", format: "YYYY年MM月DD日" },
+    ],
+  };
+  const result = parseDeliveryDate(
+    {
+      attributes: [{ name: "gift_message", value: "おめでとう" }],
+      line_items: [
+        { product_id: 111, properties: [{ name: "お届け日", value: "" }] },
+        { product_id: 222, properties: [{ name: "お届け日", value: "2025年12月24日" }] },
+      ],
+    },
+    shopSetting,
+  );
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.equal(toISODate(result.value.date), "2025-12-24");
+  assert.deepEqual(result.value.source, {
+    source: "line_item_property",
+    key: "お届け日",
+    format: "YYYY年MM月DD日",
+  });
+});
+
+test("書式に一致しない取得元は飛ばし、どれも読み取れなければinvalid_delivery_formatになる", () => {
+  const shopSetting = {
+    deliverySource: "attributes" as const,
+    deliveryKey: "requested_date",
+    deliveryFormat: "YYYY-MM-DD",
+    deliveryFallbacks: [{ source: "metafield" as const, key: "shipping.requested_date" }],
+  };
+  const order = {
+    attributes: [{ name: "requested_date", value: "12/24" }],
+    metafields: [{ namespace: "shipping", key: "requested_date", value: "2025-12-25" }],
+  };
+
+  const result = parseDeliveryDate(order, shopSetting);
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.equal(toISODate(result.value.date), "2025-12-25");
+  assert.equal(result.value.source.source, "metafield");
+  assert.equal(result.value.source.format, "YYYY-MM-DD");
+
+  const failed = parseDeliveryDate({ attributes: order.attributes }, shopSetting);
+  assert.equal(failed.ok, false);
+  if (failed.ok) return;
+  assert.equal(failed.error, "invalid_delivery_format");
+});
+
+test("書式が auto なら12月の注文の年なし1月の日付を翌年と判断する", () => {
+  const result = parseDeliveryDate(
+    {
+      created_at: "2026-12-31T10:00:00Z",
+      attributes: [{ name: "requested_date", value: "１月５日（火）" }],
+    },
+    {
+      deliverySource: "attributes",
+      deliveryKey: "requested_date",
+      deliveryFormat: "auto",
+      timeZone: "Asia/Tokyo",
+    },
+  );
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.equal(toISODate(result.value.date), "2027-01-05");
+  assert.equal(result.value.source.format, "auto");
 });
 
 test("配送ケースが未設定ならshipping_rate_not_configuredエラーになる", () => {
@@ -164,7 +247,7 @@ test("配送ケースが一致しない場合はshipping_rate_not_foundエラー
 test("最大日数が同じルールはmatchedRuleIdsに全件含まれる", () => {
   const result = pickAdoptedRule({
     shippingRateId: "sr_yamato_cool",
-    productIds: ["111"],
+    items: getLineItemTargets({ line_items: [{ product_id: "111" }] }),
     rules: [
       {
         id: "candidate-a",
@@ -345,3 +428,631 @@ test("ルールがない場合は設定の日数を採用する", () => {
   assert.deepEqual(result.value.matchedRuleIds, []);
   assert.equal(toISODate(result.value.shipBy), "2025-05-08");
 });
+
+const utcDate = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+const orderWithDelivery = (deliveryDate: string) => ({
+  id: 6,
+  shipping_lines: [{ code: "yamato_cool", id: "sr_yamato_cool" }],
+  metafields: [
+    {
+      namespace: "shipping",
+      key: "requested_date",
+      value: deliveryDate,
+    },
+  ],
+  line_items: [{ product_id: 111 }],
+});
+
+test("営業日モードは土日を数えずにさかのぼる", () => {
+  const holiday = { holidays: [], weeklyHolidays: ["sat", "sun"] };
+
+  const calendar = calculateShipBy({
+    order: orderWithDelivery("2025-05-12"),
+    rules: [],
+    shopSetting: { ...baseSetting, defaultLeadDays: 3 },
+    holiday,
+  });
+  const business = calculateShipBy({
+    order: orderWithDelivery("2025-05-12"),
+    rules: [],
+    shopSetting: { ...baseSetting, defaultLeadDays: 3, leadDaysMode: "business" as const },
+    holiday,
+  });
+
+  assert.equal(calendar.ok, true);
+  assert.equal(business.ok, true);
+  if (!calendar.ok || !business.ok) throw new Error("calculation failed");
+
+  assert.equal(toISODate(calendar.value.shipBy), "2025-05-09");
+  assert.equal(calendar.value.leadDaysMode, "calendar");
+  assert.equal(toISODate(business.value.shipBy), "2025-05-07");
+  assert.equal(business.value.leadDaysMode, "business");
+  assert.equal(toISODate(business.value.adjustedFrom), "2025-05-07");
+});
+
+test("営業日モードは連休をまとめて読み飛ばす", () => {
+  const result = subtractBusinessDays(utcDate("2025-05-07"), 2, {
+    holidays: ["2025-05-03", "2025-05-04", "2025-05-05", "2025-05-06"],
+    weeklyHolidays: ["sun"],
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.equal(toISODate(result.value), "2025-05-01");
+});
+
+test("営業日モードは年末年始の休業をまたいで前年へさかのぼる", () => {
+  const result = subtractBusinessDays(utcDate("2026-01-05"), 3, {
+    holidays: [
+      "2025-12-29",
+      "2025-12-30",
+      "2025-12-31",
+      "2026-01-01",
+      "2026-01-02",
+      "2026-01-03",
+      "2026-01-04",
+    ],
+    weeklyHolidays: ["sat", "sun"],
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.equal(toISODate(result.value), "2025-12-24");
+});
+
+test("営業日モードで全曜日が休業日ならholiday_never_resolvesエラーになる", () => {
+  const result = subtractBusinessDays(utcDate("2025-05-12"), 1, {
+    holidays: [],
+    weeklyHolidays: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  });
+
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.equal(result.error, "holiday_never_resolves");
+});
+
+test("ルールの数え方が設定より優先される", () => {
+  const result = calculateShipBy({
+    order: orderWithDelivery("2025-05-12"),
+    rules: [
+      {
+        id: "all-business",
+        targetType: "all" as const,
+        targetId: null,
+        shippingRateIds: [],
+        days: 3,
+        leadDaysMode: "business" as const,
+      },
+    ],
+    shopSetting: { ...baseSetting, leadDaysMode: "calendar" as const },
+    holiday: { holidays: [], weeklyHolidays: ["sat", "sun"] },
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(result.value.leadDaysMode, "business");
+  assert.equal(toISODate(result.value.shipBy), "2025-05-07");
+});
+
+test("同じ日数のルールで数え方が異なる場合は営業日を採用する", () => {
+  const result = pickAdoptedRule({
+    rules: [
+      {
+        id: "calendar-rule",
+        targetType: "all" as const,
+        targetId: null,
+        shippingRateIds: [],
+        days: 2,
+        leadDaysMode: "calendar" as const,
+      },
+      {
+        id: "business-rule",
+        targetType: "all" as const,
+        targetId: null,
+        shippingRateIds: [],
+        days: 2,
+        leadDaysMode: "business" as const,
+      },
+      {
+        id: "inherit-rule",
+        targetType: "all" as const,
+        targetId: null,
+        shippingRateIds: [],
+        days: 1,
+        leadDaysMode: null,
+      },
+    ],
+    shippingRateId: "sr_yamato_cool",
+    items: [],
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.equal(result.value.leadDaysMode, "business");
+  assert.deepEqual(result.value.ruleIds, ["calendar-rule", "business-rule"]);
+});
+
+test("注文日は店舗のタイムゾーンと締め時刻で決まる", () => {
+  const order = {
+    ...orderWithDelivery("2025-05-12"),
+    created_at: "2025-05-09T15:30:00+09:00",
+  };
+
+  const result = calculateShipBy({
+    order,
+    rules: [],
+    shopSetting: {
+      ...baseSetting,
+      defaultLeadDays: 1,
+      timeZone: "Asia/Tokyo",
+      cutoffTime: "14:00",
+    },
+    holiday: { holidays: [], weeklyHolidays: [] },
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(toISODate(result.value.orderDate), "2025-05-10");
+  assert.equal(toISODate(result.value.shipBy), "2025-05-11");
+});
+
+test("注文日時がない場合は計算時点の日付を注文日にする", () => {
+  const result = calculateShipBy({
+    order: orderWithDelivery("2025-05-12"),
+    rules: [],
+    shopSetting: { ...baseSetting, defaultLeadDays: 1, timeZone: "America/Los_Angeles" },
+    holiday: { holidays: [], weeklyHolidays: [] },
+    now: new Date("2025-05-09T03:00:00.000Z"),
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(toISODate(result.value.orderDate), "2025-05-08");
+});
+
+test("出荷期限が注文日より前なら不足日数つきで間に合わないと判定する", () => {
+  const result = calculateShipBy({
+    order: { ...orderWithDelivery("2025-05-12"), created_at: "2025-05-10T10:00:00+09:00" },
+    rules: [],
+    shopSetting: { ...baseSetting, defaultLeadDays: 3, timeZone: "Asia/Tokyo" },
+    holiday: { holidays: [], weeklyHolidays: [] },
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(toISODate(result.value.shipBy), "2025-05-09");
+  assert.deepEqual(result.value.infeasible, { shortfallDays: 1 });
+});
+
+test("出荷期限が注文日当日なら間に合う扱いになる", () => {
+  const result = calculateShipBy({
+    order: { ...orderWithDelivery("2025-05-12"), created_at: "2025-05-09T10:00:00+09:00" },
+    rules: [],
+    shopSetting: { ...baseSetting, defaultLeadDays: 3, timeZone: "Asia/Tokyo" },
+    holiday: { holidays: [], weeklyHolidays: [] },
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(result.value.infeasible, null);
+});
+
+const cartOrder = {
+  shipping_lines: [{ code: "yamato_cool" }],
+  line_items: [{ product_id: "111" }],
+};
+
+test("最短のお届け日は今日から日数後で、それより前の日付は選べない", () => {
+  const result = findEarliestDelivery({
+    order: cartOrder,
+    rules: [],
+    shopSetting: { ...baseSetting, defaultLeadDays: 3, timeZone: "Asia/Tokyo" },
+    holiday: { holidays: [], weeklyHolidays: [] },
+    now: new Date("2025-05-09T10:00:00+09:00"),
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(toISODate(result.value.earliestDeliveryDate), "2025-05-12");
+  assert.deepEqual(result.value.blockedDates.map(toISODate), [
+    "2025-05-09",
+    "2025-05-10",
+    "2025-05-11",
+  ]);
+});
+
+test("出荷期限が休業日で注文日より前に繰り下がるお届け日は選べない", () => {
+  const result = findEarliestDelivery({
+    order: cartOrder,
+    rules: [],
+    shopSetting: { ...baseSetting, defaultLeadDays: 1, timeZone: "Asia/Tokyo" },
+    holiday: { holidays: [], weeklyHolidays: ["sat", "sun"] },
+    now: new Date("2025-05-10T10:00:00+09:00"),
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(toISODate(result.value.earliestDeliveryDate), "2025-05-13");
+});
+
+test("最短のお届け日はルールの営業日モードで数える", () => {
+  const result = findEarliestDelivery({
+    order: cartOrder,
+    rules: [
+      {
+        id: "yamato-business",
+        targetType: "all" as const,
+        targetId: null,
+        shippingRateIds: ["sr_yamato_cool"],
+        days: 2,
+        leadDaysMode: "business" as const,
+      },
+    ],
+    shopSetting: { ...baseSetting, timeZone: "Asia/Tokyo" },
+    holiday: { holidays: [], weeklyHolidays: ["sat", "sun"] },
+    now: new Date("2025-05-09T10:00:00+09:00"),
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(toISODate(result.value.earliestDeliveryDate), "2025-05-13");
+  assert.equal(result.value.shippingRateId, "sr_yamato_cool");
+  assert.deepEqual(result.value.matchedRuleIds, ["yamato-business"]);
+});
+
+test("締め時刻を過ぎると翌日の注文として数え、今日も選べない日付に含める", () => {
+  const result = findEarliestDelivery({
+    order: cartOrder,
+    rules: [],
+    shopSetting: {
+      ...baseSetting,
+      defaultLeadDays: 1,
+      timeZone: "Asia/Tokyo",
+      cutoffTime: "14:00",
+    },
+    holiday: { holidays: [], weeklyHolidays: [] },
+    now: new Date("2025-05-09T15:30:00+09:00"),
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  assert.equal(toISODate(result.value.orderDate), "2025-05-10");
+  assert.equal(toISODate(result.value.earliestDeliveryDate), "2025-05-11");
+  assert.deepEqual(result.value.blockedDates.map(toISODate), ["2025-05-09", "2025-05-10"]);
+});
+
+test("配送方法が一致せず既定の日数もなければ最短のお届け日はエラーになる", () => {
+  const result = findEarliestDelivery({
+    order: { shipping_lines: [{ code: "unknown_rate" }], line_items: [] },
+    rules: [],
+    shopSetting: baseSetting,
+    holiday: { holidays: [], weeklyHolidays: [] },
+    now: new Date("2025-05-09T10:00:00+09:00"),
+  });
+
+  assert.equal(result.ok, false);
+  if (result.ok) return;
+  assert.equal(result.error, "shipping_rate_not_found");
+});
+
+test("商品別ルールのtargetIdは商品GIDのJSON配列でも一致する", () => {
+  const result = pickAdoptedRule({
+    shippingRateId: "sr_yamato_cool",
+    items: getLineItemTargets({ line_items: [{ product_id: 111 }] }),
+    rules: [
+      {
+        id: "product-gids",
+        targetType: "product",
+        targetId: JSON.stringify(["gid://shopify/Product/999", "gid://shopify/Product/111"]),
+        shippingRateIds: ["sr_yamato_cool"],
+        days: 4,
+      },
+      {
+        id: "all",
+        targetType: "all",
+        targetId: null,
+        shippingRateIds: ["sr_yamato_cool"],
+        days: 1,
+      },
+    ],
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.deepEqual(result.value.ruleIds, ["product-gids"]);
+});
+
+test("対象が細かいルールほど優先する（バリエーション → 商品 → 商品の条件 → 全商品）", () => {
+  const items = getLineItemTargets({
+    line_items: [
+      {
+        product_id: 111,
+        variant_id: 222,
+        vendor: "Acme",
+        product_type: "Cake",
+        product_tags: ["Made-To-Order"],
+        collection_ids: ["333"],
+      },
+    ],
+  });
+  const rule = (id: string, targetType: RuleTargetType, targets: string[] | null) => ({
+    id,
+    targetType,
+    targetId: targets ? JSON.stringify(targets) : null,
+    shippingRateIds: [],
+    days: 1,
+  });
+  const rules = [
+    rule("all", "all", null),
+    rule("tag", "tag", ["made-to-order"]),
+    rule("vendor", "vendor", ["ACME"]),
+    rule("type", "product_type", ["cake"]),
+    rule("collection", "collection", ["gid://shopify/Collection/333"]),
+    rule("product", "product", ["gid://shopify/Product/111"]),
+    rule("variant", "variant", ["gid://shopify/ProductVariant/222"]),
+    rule("other-tag", "tag", ["ready-made"]),
+  ];
+  const pick = (candidates: typeof rules) => {
+    const result = pickAdoptedRule({ shippingRateId: "sr_yamato_cool", items, rules: candidates });
+    return result.ok ? result.value.ruleIds : null;
+  };
+
+  assert.deepEqual(pick(rules), ["variant"]);
+  assert.deepEqual(pick(rules.filter((r) => r.id !== "variant")), ["product"]);
+  assert.deepEqual(
+    pick(rules.filter((r) => r.id !== "variant" && r.id !== "product")),
+    ["tag", "vendor", "type", "collection"],
+  );
+  assert.deepEqual(pick([rules[0]!, rules[7]!]), ["all"]);
+  assert.equal(getRuleTier(rules[7]!, "sr_yamato_cool", items), null);
+});
+
+test("同じ対象なら配送ケース指定ありのルールを優先する", () => {
+  const items = getLineItemTargets({ line_items: [{ product_id: 1, product_tags: ["cool"] }] });
+  const tagRule = {
+    id: "tag-any",
+    targetType: "tag" as const,
+    targetId: JSON.stringify(["cool"]),
+    shippingRateIds: [],
+    days: 9,
+  };
+  const tagWithRate = { ...tagRule, id: "tag-yamato", shippingRateIds: ["sr_yamato_cool"], days: 2 };
+
+  assert.equal(getRuleTier(tagWithRate, "sr_yamato_cool", items), 5);
+  assert.equal(getRuleTier(tagRule, "sr_yamato_cool", items), 6);
+  assert.equal(getRuleTier(tagWithRate, "sr_sagawa_regular", items), null);
+});
+
+test("お届け希望日に含まれる時間帯を取り出し、時間帯のキーがあればそちらを優先する", () => {
+  const shopSetting = {
+    ...baseSetting,
+    deliverySource: "attributes" as const,
+    deliveryKey: "requested_date",
+    deliveryFormat: "YYYY/MM/DD",
+  };
+  const embedded = parseDeliveryDate(
+    { attributes: [{ name: "requested_date", value: "2025/05/12 14:00-16:00" }] },
+    shopSetting,
+  );
+  assert.equal(embedded.ok, true);
+  if (!embedded.ok) return;
+  assert.equal(toISODate(embedded.value.date), "2025-05-12");
+  assert.equal(embedded.value.timeSlot, "14-16");
+
+  const keyed = parseDeliveryDate(
+    {
+      attributes: [
+        { name: "requested_date", value: "2025/05/12 14:00-16:00" },
+        { name: "delivery_time", value: "午前中" },
+      ],
+    },
+    { ...shopSetting, deliveryTimeSlotKey: "delivery_time" },
+  );
+  assert.equal(keyed.ok && keyed.value.timeSlot, "午前中");
+});
+
+test("時間帯ごとの日数の増減を反映してから最大の日数を採用する", () => {
+  const order = {
+    shipping_lines: [{ code: "yamato_cool" }],
+    attributes: [
+      { name: "requested_date", value: "2025-05-12" },
+      { name: "delivery_time", value: "午前中" },
+    ],
+    line_items: [{ product_id: 111 }],
+  };
+  const rules: RuleLike[] = [
+    {
+      id: "base",
+      targetType: "all" as const,
+      targetId: null,
+      shippingRateIds: ["sr_yamato_cool"],
+      days: 2,
+      timeSlotDays: { 午前中: 1 },
+    },
+    {
+      id: "night",
+      targetType: "all" as const,
+      targetId: null,
+      shippingRateIds: ["sr_yamato_cool"],
+      days: 2,
+      timeSlotDays: { "19-21": -1 },
+    },
+  ];
+
+  const result = calculateShipBy({
+    order,
+    rules,
+    shopSetting: {
+      ...baseSetting,
+      deliverySource: "attributes",
+      deliveryKey: "requested_date",
+      deliveryTimeSlotKey: "delivery_time",
+    },
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) return;
+  assert.equal(result.value.timeSlot, "午前中");
+  assert.equal(result.value.adoptDays, 3);
+  assert.deepEqual(result.value.matchedRuleIds, ["base"]);
+  assert.equal(toISODate(result.value.shipBy), "2025-05-09");
+});
+
+test("最短出荷が有効なら、お届け希望日のない注文は注文日に日数を足して次の営業日へ送る", () => {
+  const order = {
+    created_at: "2025-05-08T10:00:00+09:00",
+    shipping_lines: [{ code: "yamato_cool" }],
+    attributes: [],
+    line_items: [{ product_id: 111 }],
+  };
+  const rules = [
+    {
+      id: "base",
+      targetType: "all" as const,
+      targetId: null,
+      shippingRateIds: ["sr_yamato_cool"],
+      days: 2,
+    },
+  ];
+  const shopSetting = {
+    ...baseSetting,
+    deliverySource: "attributes" as const,
+    deliveryKey: "requested_date",
+    asapWhenNoDeliveryDate: true,
+  };
+  const holiday = { holidays: [], weeklyHolidays: ["sat", "sun"] };
+
+  const calendar = calculateShipBy({ order, rules, shopSetting, holiday });
+  assert.equal(calendar.ok, true);
+  if (!calendar.ok) return;
+  assert.equal(calendar.value.asap, true);
+  assert.equal(calendar.value.deliveryDate, null);
+  assert.equal(calendar.value.deliverySource, null);
+  assert.equal(toISODate(calendar.value.adjustedFrom), "2025-05-10");
+  assert.equal(toISODate(calendar.value.shipBy), "2025-05-12");
+  assert.equal(calendar.value.infeasible, null);
+
+  const business = calculateShipBy({
+    order,
+    rules: [{ ...rules[0]!, leadDaysMode: "business" as const }],
+    shopSetting,
+    holiday,
+  });
+  assert.equal(business.ok && toISODate(business.value.shipBy), "2025-05-12");
+});
+
+test("最短出荷が無効な場合や、値の書式が合わない場合はこれまでどおりエラーになる", () => {
+  const rules = [
+    { id: "base", targetType: "all" as const, targetId: null, shippingRateIds: [], days: 2 },
+  ];
+  const shopSetting = {
+    ...baseSetting,
+    deliverySource: "attributes" as const,
+    deliveryKey: "requested_date",
+  };
+  const order = { shipping_lines: [{ code: "yamato_cool" }], line_items: [{ product_id: 111 }] };
+
+  const disabled = calculateShipBy({ order, rules, shopSetting });
+  assert.equal(disabled.ok, false);
+  assert.equal(disabled.error, "delivery_value_not_found");
+
+  const invalid = calculateShipBy({
+    order: { ...order, attributes: [{ name: "requested_date", value: "そのうち" }] },
+    rules,
+    shopSetting: { ...shopSetting, asapWhenNoDeliveryDate: true },
+  });
+  assert.equal(invalid.ok, false);
+  assert.equal(invalid.error, "invalid_delivery_format");
+});
+
+test("お届け先の都道府県・郵便番号の配送日数をルールの日数に足してさかのぼる", () => {
+  const rules = [
+    {
+      id: "base",
+      targetType: "all" as const,
+      targetId: null,
+      shippingRateIds: [],
+      days: 1,
+    },
+  ];
+  const shopSetting = {
+    ...baseSetting,
+    shippingRates: [
+      {
+        ...baseSetting.shippingRates[0]!,
+        transitDays: { prefectures: { hokkaido: 1, okinawa: 2 }, postalPrefixes: { "907": 4 } },
+      },
+      baseSetting.shippingRates[1]!,
+    ],
+  };
+  const orderTo = (shipping_address: Record<string, string>, code = "yamato_cool") => ({
+    shipping_lines: [{ code }],
+    metafields: [{ namespace: "shipping", key: "requested_date", value: "2025-05-10" }],
+    line_items: [{ product_id: 111 }],
+    shipping_address,
+  });
+  const shipByOf = (order: ReturnType<typeof orderTo>) => {
+    const result = calculateShipBy({ order, rules, shopSetting });
+    assert.equal(result.ok, true);
+    if (!result.ok) throw new Error("calculation failed");
+    return result.value;
+  };
+
+  const hokkaido = shipByOf(orderTo({ country_code: "JP", province_code: "JP-01", zip: "060-0001" }));
+  assert.equal(hokkaido.adoptDays, 1);
+  assert.equal(hokkaido.transitDays, 1);
+  assert.equal(hokkaido.destination, "hokkaido");
+  assert.equal(toISODate(hokkaido.shipBy), "2025-05-08");
+
+  // 石垣島（907）は沖縄県の日数より郵便番号の上書きを優先する
+  const ishigaki = shipByOf(orderTo({ province: "沖縄県", zip: "907-0002" }));
+  assert.equal(ishigaki.transitDays, 4);
+  assert.equal(toISODate(ishigaki.shipBy), "2025-05-05");
+
+  // 指定のない都道府県や、配送日数のない配送ケースはこれまでどおり
+  const tokyo = shipByOf(orderTo({ province_code: "JP-13", zip: "100-0001" }));
+  assert.equal(tokyo.transitDays, 0);
+  assert.equal(toISODate(tokyo.shipBy), "2025-05-09");
+  const sagawa = shipByOf(orderTo({ province_code: "JP-01" }, "sagawa_regular"));
+  assert.equal(sagawa.transitDays, 0);
+});
+
+test("営業日モードでも配送日数はカレンダー日でさかのぼり、その後に日数を営業日で数える", () => {
+  const result = calculateShipBy({
+    order: {
+      shipping_lines: [{ code: "yamato_cool" }],
+      metafields: [{ namespace: "shipping", key: "requested_date", value: "2025-05-13" }],
+      line_items: [{ product_id: 111 }],
+      shipping_address: { country_code: "JP", province_code: "JP-01" },
+    },
+    rules: [
+      {
+        id: "business",
+        targetType: "all" as const,
+        targetId: null,
+        shippingRateIds: [],
+        days: 2,
+        leadDaysMode: "business" as const,
+      },
+    ],
+    shopSetting: {
+      ...baseSetting,
+      shippingRates: [
+        {
+          ...baseSetting.shippingRates[0]!,
+          transitDays: { prefectures: { hokkaido: 2 }, postalPrefixes: {} },
+        },
+      ],
+    },
+    holiday: { holidays: [], weeklyHolidays: ["sat", "sun"] },
+  });
+
+  assert.equal(result.ok, true);
+  if (!result.ok) throw new Error("calculation failed");
+  // 火曜 5/13 から配送 2 日で日曜 5/11、そこから 2 営業日で木曜 5/8
+  //（配送日数まで営業日で数えると水曜 5/7 になる）
+  assert.equal(result.value.transitDays, 2);
+  assert.equal(toISODate(result.value.shipBy), "2025-05-08");
+  assert.equal(toISODate(result.value.adjustedFrom), "2025-05-08");
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  DEFAULT_TIME_ZONE,
+  getLocalDateTime,
+  getOrderDateKey,
+  parseCutoffTime,
+  resolveTimeZone,
+} from "../utils/shop-time.js";
+
+test("resolveTimeZone: 不正・未設定なら既定のタイムゾーンを返す", () => {
+  assert.equal(resolveTimeZone("America/New_York"), "America/New_York");
+  assert.equal(resolveTimeZone("Mars/Olympus"), DEFAULT_TIME_ZONE);
+  assert.equal(resolveTimeZone(null), DEFAULT_TIME_ZONE);
+});
+
+test("parseCutoffTime: HH:MM に正規化し、範囲外はnullを返す", () => {
+  assert.equal(parseCutoffTime("9:05"), "09:05");
+  assert.equal(parseCutoffTime("14:00"), "14:00");
+  assert.equal(parseCutoffTime("24:00"), null);
+  assert.equal(parseCutoffTime("14:60"), null);
+  assert.equal(parseCutoffTime(""), null);
+});
+
+test("getLocalDateTime: タイムゾーンの現地日付と時刻を返す", () => {
+  const instant = new Date("2025-05-09T20:30:00.000Z");
+
+  assert.deepEqual(getLocalDateTime(instant, "Asia/Tokyo"), {
+    dateKey: "2025-05-10",
+    minutes: 5 * 60 + 30,
+  });
+  assert.deepEqual(getLocalDateTime(instant, "America/Los_Angeles"), {
+    dateKey: "2025-05-09",
+    minutes: 13 * 60 + 30,
+  });
+});
+
+test("getOrderDateKey: 締め時刻以降の注文は翌日扱いになる", () => {
+  const beforeCutoff = new Date("2025-05-09T04:59:00.000Z"); // JST 13:59
+  const atCutoff = new Date("2025-05-09T05:00:00.000Z"); // JST 14:00
+
+  assert.equal(getOrderDateKey(beforeCutoff, "Asia/Tokyo", "14:00"), "2025-05-09");
+  assert.equal(getOrderDateKey(atCutoff, "Asia/Tokyo", "14:00"), "2025-05-10");
+  assert.equal(getOrderDateKey(atCutoff, "Asia/Tokyo", null), "2025-05-09");
+});
+
+test("getOrderDateKey: 大晦日の締め時刻以降は翌年の日付になる", () => {
+  const instant = new Date("2025-12-31T09:00:00.000Z"); // JST 18:00
+
+  assert.equal(getOrderDateKey(instant, "Asia/Tokyo", "15:00"), "2026-01-01");
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  extractTimeSlot,
+  formatTimeSlotDays,
+  getTimeSlotAdjustment,
+  parseTimeSlot,
+  parseTimeSlotDays,
+  parseTimeSlotDaysText,
+} from "../utils/time-slot.js";
+
+test("parseTimeSlot: 時間帯の表記をそろえ、読めない値は null", () => {
+  assert.equal(parseTimeSlot("午前中"), "午前中");
+  assert.equal(parseTimeSlot("午前"), "午前中");
+  assert.equal(parseTimeSlot("14-16"), "14-16");
+  assert.equal(parseTimeSlot("14時～16時"), "14-16");
+  assert.equal(parseTimeSlot("１４：００－１６：００"), "14-16");
+  assert.equal(parseTimeSlot("指定なし"), null);
+  assert.equal(parseTimeSlot("16-14"), null);
+  assert.equal(parseTimeSlot(null), null);
+});
+
+test("extractTimeSlot: 日付と一緒に書かれた時間帯を取り出し、日付部分を残す", () => {
+  assert.deepEqual(extractTimeSlot("2026/10/20 14:00-16:00"), {
+    timeSlot: "14-16",
+    rest: "2026/10/20",
+  });
+  assert.deepEqual(extractTimeSlot("10月20日（火） 19時〜21時"), {
+    timeSlot: "19-21",
+    rest: "10月20日(火)",
+  });
+  assert.deepEqual(extractTimeSlot("2026-10-20 午前中"), {timeSlot: "午前中", rest: "2026-10-20"});
+});
+
+test("extractTimeSlot: 時刻の表記がない日付の区切りは時間帯とみなさない", () => {
+  assert.equal(extractTimeSlot("2026-10-20"), null);
+  assert.equal(extractTimeSlot("10-20"), null);
+});
+
+test("getTimeSlotAdjustment: 時間帯がない・設定がなければ 0", () => {
+  const timeSlotDays = {午前中: 1, "19-21": -1};
+  assert.equal(getTimeSlotAdjustment(timeSlotDays, "午前中"), 1);
+  assert.equal(getTimeSlotAdjustment(timeSlotDays, "14-16"), 0);
+  assert.equal(getTimeSlotAdjustment(timeSlotDays, null), 0);
+  assert.equal(getTimeSlotAdjustment(null, "午前中"), 0);
+});
+
+test("parseTimeSlotDaysText: 入力を読み取り、書式と往復できる", () => {
+  const result = parseTimeSlotDaysText("午前中:+1、 19時-21時：-1, 14-16:0");
+  assert.deepEqual(result, {ok: true, value: {午前中: 1, "19-21": -1}});
+  assert.equal(formatTimeSlotDays(result.ok ? result.value : null), "午前中:+1, 19-21:-1");
+  assert.deepEqual(parseTimeSlotDaysText(""), {ok: true, value: {}});
+  assert.deepEqual(parseTimeSlotDaysText("夜:+1"), {ok: false});
+  assert.deepEqual(parseTimeSlotDaysText("午前中+1"), {ok: false});
+});
+
+test("parseTimeSlotDays: 保存値の形が合わない項目は無視する", () => {
+  assert.deepEqual(parseTimeSlotDays({午前中: 1, 夜: 2, "19-21": "x"}), {午前中: 1});
+  assert.deepEqual(parseTimeSlotDays(null), {});
+  assert.deepEqual(parseTimeSlotDays([]), {});
+});
@@ -1,4 +1,4 @@
-import { BlockStack, Card, InlineStack, Text } from "@shopify/polaris";
+import { BlockStack, Card, InlineStack, Link, Text } from "@shopify/polaris";
 import type { ShipBySummary } from "../server/ship-by-analytics.server";
 
 const TREND_LINE_COLOR = "#7fc9ff";
@@ -72,6 +72,7 @@ export function ShipByAnalytics({ summary }: { summary: ShipBySummary }) {
                 <Text as="p" variant="bodyMd">
                   {summary.todayCount}件
                 </Text>
+                <Link url="/app/orders">注文を見る</Link>
               </BlockStack>
               <BlockStack gap="100">
                 <div
@@ -170,7 +171,97 @@ export function ShipByAnalytics({ summary }: { summary: ShipBySummary }) {
             </div>
           </BlockStack>
         </Card>
+        <Card>
+          <BlockStack gap="300">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="p" tone="subdued">
+                期限内出荷率（直近{summary.rangeDays}日・発送済み）
+              </Text>
+              <Text as="p" variant="headingMd">
+                {formatRate(summary.onTime.rate)}
+              </Text>
+            </InlineStack>
+            <Text as="p" variant="bodySm" tone="subdued">
+              期限内 {summary.onTime.onTime}件 / 遅延 {summary.onTime.late}件
+            </Text>
+            <BlockStack gap="100">
+              <Text as="p" variant="bodySm" tone="subdued">
+                日別
+              </Text>
+              <OnTimeBars items={summary.onTime.byDay} labelWidth={48} />
+            </BlockStack>
+            <BlockStack gap="100">
+              <Text as="p" variant="bodySm" tone="subdued">
+                曜日別
+              </Text>
+              <OnTimeBars items={summary.onTime.byWeekday} labelWidth={32} />
+            </BlockStack>
+            {summary.onTime.byShippingRate.length > 0 ? (
+              <BlockStack gap="100">
+                <Text as="p" variant="bodySm" tone="subdued">
+                  配送ケース別
+                </Text>
+                <OnTimeBars items={summary.onTime.byShippingRate} labelWidth={140} />
+              </BlockStack>
+            ) : null}
+          </BlockStack>
+        </Card>
       </BlockStack>
     </BlockStack>
   );
 }
+
+const formatRate = (rate: number | null) => (rate == null ? "-" : `${rate}%`);
+
+// 期限内出荷率の横棒（対象がないグループは灰色で表示）
+function OnTimeBars({
+  items,
+  labelWidth,
+}: {
+  items: ShipBySummary["onTime"]["byDay"];
+  labelWidth: number;
+}) {
+  return (
+    <div style={{ display: "grid", gap: "6px" }}>
+      {items.map((item, index) => (
+        <div
+          key={`${item.label}-${index}`}
+          style={{
+            display: "grid",
+            gridTemplateColumns: `${labelWidth}px 1fr 72px`,
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <Text as="span" variant="bodySm" tone="subdued" truncate>
+            {item.label}
+          </Text>
+          <div
+            style={{
+              height: 8,
+              background: "var(--p-color-bg-surface-secondary)",
+              borderRadius: 999,
+              overflow: "hidden",
+            }}
+          >
+            <div
+              style={{
+                height: "100%",
+                width: `${item.rate ?? 0}%`,
+                background:
+                  item.rate == null
+                    ? "var(--p-color-border-secondary)"
+                    : item.rate >= 90
+                      ? "var(--p-color-bg-fill-success)"
+                      : "var(--p-color-bg-fill-caution)",
+              }}
+            />
+          </div>
+          <Text as="span" variant="bodySm">
+            {formatRate(item.rate)}（{item.total}）
+          </Text>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import type { BackfillJob } from "@prisma/client";
+
+import prisma from "../../../db.server";
+import { graphqlWithRetry } from "../../../server/admin-client.server";
+import {
+  ORDER_PAYLOAD_FIELDS,
+  toOrderPayload,
+  type GraphqlOrderNode,
+} from "../utils/order-payload";
+import { parseDeliveryFallbacks } from "../utils/delivery-sources";
+import { applyShipByToOrder, recordErrorOnce } from "./orders-create.server";
+import { SHIP_BY_METAFIELD } from "./ship-by-metafield.server";
+
+// 1回の実行で処理する注文数（Admin API のレート制限を考慮して小さめ）
+export const BACKFILL_BATCH_SIZE = 25;
+
+// 対象は未発送かつオープンな注文
+const BACKFILL_ORDER_QUERY = "fulfillment_status:unfulfilled AND status:open";
+
+export type BackfillJobSummary = {
+  id: string;
+  status: BackfillJob["status"];
+  total: number | null;
+  processed: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  lastError: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+};
+
+const toSummary = (job: BackfillJob): BackfillJobSummary => ({
+  id: job.id,
+  status: job.status,
+  total: job.total,
+  processed: job.processed,
+  succeeded: job.succeeded,
+  skipped: job.skipped,
+  failed: job.failed,
+  lastError: job.lastError,
+  createdAt: job.createdAt.toISOString(),
+  finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+});
+
+const hasShipByMetafield = (payload: Record<string, unknown>) =>
+  Array.isArray(payload.metafields) &&
+  (payload.metafields as Array<{ namespace?: unknown; key?: unknown; value?: unknown }>).some(
+    (mf) =>
+      mf?.namespace === SHIP_BY_METAFIELD.namespace &&
+      mf?.key === SHIP_BY_METAFIELD.key &&
+      Boolean(mf?.value),
+  );
+
+// 一括計算を始められる設定か（既定の日数と、お届け希望日の取得元または最短出荷）。
+// 取得元がないと全件が missing_setting で失敗するため、開始前に止める
+export const isBackfillSettingReady = async (shop: string) => {
+  const setting = await prisma.shopSetting.findUnique({
+    where: { shopId: shop },
+    select: {
+      defaultLeadDays: true,
+      deliverySource: true,
+      deliveryKey: true,
+      deliveryFallbacks: true,
+      asapWhenNoDeliveryDate: true,
+    },
+  });
+  if (setting?.defaultLeadDays == null || setting.defaultLeadDays <= 0) return false;
+
+  const hasDeliverySource =
+    (Boolean(setting.deliverySource) && Boolean(setting.deliveryKey?.trim())) ||
+    parseDeliveryFallbacks(setting.deliveryFallbacks).length > 0;
+  return hasDeliverySource || setting.asapWhenNoDeliveryDate;
+};
+
+const countBackfillTargets = async (shop: string): Promise<number | null> => {
+  try {
+    const response = await graphqlWithRetry(
+      shop,
+      `#graphql
+      query BackfillOrdersCount($query: String!) {
+        ordersCount(query: $query, limit: null) {
+          count
+        }
+      }`,
+      { variables: { query: BACKFILL_ORDER_QUERY } },
+      { action: "backfill_orders_count" },
+    );
+    const json = (await response.json()) as {
+      data?: { ordersCount?: { count?: number | null } | null };
+    };
+    const count = json?.data?.ordersCount?.count;
+    return typeof count === "number" ? count : null;
+  } catch (error) {
+    console.warn("[backfill] failed to count orders", error);
+    return null;
+  }
+};
+
+const fetchBackfillPage = async (shop: string, cursor: string | null) => {
+  const response = await graphqlWithRetry(
+    shop,
+    `#graphql
+    query BackfillOrders($first: Int!, $after: String, $query: String!) {
+      orders(first: $first, after: $after, query: $query, sortKey: CREATED_AT) {
+        nodes {
+          ${ORDER_PAYLOAD_FIELDS}
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }`,
+    {
+      variables: {
+        first: BACKFILL_BATCH_SIZE,
+        after: cursor,
+        query: BACKFILL_ORDER_QUERY,
+      },
+    },
+    { action: "backfill_orders" },
+  );
+
+  if (!response.ok) {
+    throw new Error(`orders fetch failed: ${response.status} ${response.statusText}`);
+  }
+
+  const json = (await response.json()) as {
+    data?: {
+      orders?: {
+        nodes?: GraphqlOrderNode[] | null;
+        pageInfo?: { hasNextPage?: boolean; endCursor?: string | null } | null;
+      } | null;
+    };
+    errors?: unknown;
+  };
+  if (Array.isArray(json?.errors) && json.errors.length > 0) {
+    throw new Error(`orders fetch graphql errors: ${JSON.stringify(json.errors)}`);
+  }
+
+  return {
+    orders: (json?.data?.orders?.nodes ?? []).map((node) => toOrderPayload(node)),
+    hasNextPage: json?.data?.orders?.pageInfo?.hasNextPage === true,
+    endCursor: json?.data?.orders?.pageInfo?.endCursor ?? null,
+  };
+};
+
+// 最新のジョブ（なければ null）
+export const getLatestBackfill = async (shopId: string) => {
+  const job = await prisma.backfillJob.findFirst({
+    where: { shopId },
+    orderBy: { createdAt: "desc" },
+  });
+  return job ? toSummary(job) : null;
+};
+
+// 新しいジョブを開始する。実行中のジョブがあればそれを返す
+export const startBackfill = async (shopId: string) => {
+  const running = await prisma.backfillJob.findFirst({
+    where: { shopId, status: "running" },
+    orderBy: { createdAt: "desc" },
+  });
+  if (running) return toSummary(running);
+
+  const total = await countBackfillTargets(shopId);
+  const job = await prisma.backfillJob.create({
+    data: { shopId, total },
+  });
+  return toSummary(job);
+};
+
+// 実行中のジョブを中止する
+export const cancelBackfill = async (shopId: string, jobId: string) => {
+  await prisma.backfillJob.updateMany({
+    where: { id: jobId, shopId, status: "running" },
+    data: { status: "cancelled", finishedAt: new Date() },
+  });
+};
+
+// ジョブを1バッチ分進める。出荷期限が保存済みの注文はスキップし、計算エラーは ErrorLog に記録する
+export const runBackfillBatch = async (shopId: string, jobId: string) => {
+  const job = await prisma.backfillJob.findFirst({
+    where: { id: jobId, shopId },
+  });
+  if (!job || job.status !== "running") {
+    return job ? toSummary(job) : null;
+  }
+
+  let page: Awaited<ReturnType<typeof fetchBackfillPage>>;
+  try {
+    page = await fetchBackfillPage(shopId, job.cursor);
+  } catch (error) {
+    console.error("[backfill] failed to fetch orders", error);
+    const failedJob = await prisma.backfillJob.update({
+      where: { id: job.id },
+      data: {
+        status: "failed",
+        lastError: error instanceof Error ? error.message : "unknown error",
+        finishedAt: new Date(),
+      },
+    });
+    return toSummary(failedJob);
+  }
+
+  const existingRecords = await prisma.shipByRecord.findMany({
+    where: {
+      shopId,
+      orderId: {
+        in: page.orders
+          .map((order) => order.id)
+          .filter((id): id is number => typeof id === "number")
+          .map((id) => BigInt(id)),
+      },
+    },
+    select: { orderId: true },
+  });
+  const recordedIds = new Set(existingRecords.map((record) => record.orderId.toString()));
+
+  let succeeded = 0;
+  let skipped = 0;
+  let failed = 0;
+  let lastError: string | null = job.lastError;
+
+  for (const payload of page.orders) {
+    if (recordedIds.has(String(payload.id)) || hasShipByMetafield(payload)) {
+      skipped += 1;
+      continue;
+    }
+
+    try {
+      const result = await applyShipByToOrder(shopId, payload);
+      if (result.ok) {
+        succeeded += 1;
+      } else {
+        failed += 1;
+        lastError = result.reason;
+        await recordErrorOnce(shopId, payload.id as string | number | null, result.reason, {
+          payload,
+        });
+      }
+    } catch (error) {
+      failed += 1;
+      lastError = error instanceof Error ? error.message : "unknown error";
+      console.error("[backfill] failed to apply ship-by", error);
+      await recordErrorOnce(shopId, payload.id as string | number | null, lastError, { payload });
+    }
+  }
+
+  const isDone = !page.hasNextPage;
+  const updated = await prisma.backfillJob.update({
+    where: { id: job.id },
+    data: {
+      cursor: page.endCursor ?? job.cursor,
+      processed: { increment: page.orders.length },
+      succeeded: { increment: succeeded },
+      skipped: { increment: skipped },
+      failed: { increment: failed },
+      lastError,
+      ...(isDone ? { status: "completed", finishedAt: new Date() } : {}),
+    },
+  });
+
+  return toSummary(updated);
+};
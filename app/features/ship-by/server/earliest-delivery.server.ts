@@ -0,0 +1,68 @@
+import type { LeadDaysMode } from "@prisma/client";
+
+import { loadCalculationInputs } from "./orders-create.server";
+import { withProductTargets } from "./product-targets.server";
+import { DEFAULT_DELIVERY_FORMAT, findEarliestDelivery, toISODate } from "./ship-by.server";
+import type { DeliveryDateQuery } from "../utils/delivery-date-query";
+import { isTolerantFormat } from "../utils/japanese-date";
+
+export type EarliestDeliveryResponse =
+  | {
+      ok: true;
+      earliestDeliveryDate: string;
+      blockedDates: string[];
+      orderDate: string;
+      leadDays: number;
+      leadDaysMode: LeadDaysMode;
+      deliveryKey: string | null;
+      deliveryFormat: string;
+    }
+  | { ok: false; error: string; message: string };
+
+// カートの商品と配送方法から、今注文した場合に選べる最短のお届け日を求める。
+// 注文時と同じルール・休業日・締め時刻を使い、注文と同じ形に組み立てて計算する
+export const getEarliestDelivery = async (
+  shop: string,
+  query: DeliveryDateQuery,
+  now: Date = new Date(),
+): Promise<EarliestDeliveryResponse> => {
+  const { setting, shopSetting, holiday, rules } = await loadCalculationInputs(shop);
+  const [order] = await withProductTargets(
+    shop,
+    [
+      {
+        shipping_lines: query.shippingRate ? [{ code: query.shippingRate }] : [],
+        line_items: query.productIds.map((productId) => ({ product_id: productId })),
+      },
+    ],
+    rules,
+  );
+
+  const result = findEarliestDelivery({
+    order,
+    rules,
+    shopSetting,
+    holiday,
+    now,
+  });
+
+  if (!result.ok) {
+    return { ok: false, error: result.error, message: result.message };
+  }
+
+  return {
+    ok: true,
+    earliestDeliveryDate: toISODate(result.value.earliestDeliveryDate),
+    blockedDates: result.value.blockedDates.map(toISODate),
+    orderDate: toISODate(result.value.orderDate),
+    leadDays: result.value.adoptDays,
+    leadDaysMode: result.value.leadDaysMode,
+    // カート属性に書き込めるのは取得元が注文属性の場合だけ
+    deliveryKey: setting?.deliverySource === "attributes" ? setting.deliveryKey : null,
+    // 自動判定の書式ではテーマが書き込む形を決められないため、既定の書式で書き込む
+    deliveryFormat:
+      setting?.deliveryFormat && !isTolerantFormat(setting.deliveryFormat)
+        ? setting.deliveryFormat
+        : DEFAULT_DELIVERY_FORMAT,
+  };
+};
@@ -0,0 +1,50 @@
+import prisma from "../../../db.server";
+import { parseOrderId } from "./orders-create.server";
+
+// 失敗・取消の発送は「発送した」とみなさない
+const IGNORED_FULFILLMENT_STATUSES = new Set(["cancelled", "error", "failure"]);
+
+const parseTimestamp = (value: unknown): Date | null => {
+  if (typeof value !== "string" || !value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// 注文全体の発送が終わった日時を ShipByRecord.fulfilledAt に記録する（記録済みなら変えない）
+const stampFulfilledAt = async (shop: string, orderId: bigint, fulfilledAt: Date) => {
+  const { count } = await prisma.shipByRecord.updateMany({
+    where: { shopId: shop, orderId, fulfilledAt: null },
+    data: { fulfilledAt },
+  });
+  return count > 0;
+};
+
+// orders/fulfilled: 注文内で最後の発送日時（すべて発送し終えた日時）を記録する。
+// 一部だけの発送では注文を発送済みとみなさないため、fulfillments/create では記録しない
+export const handleOrdersFulfilled = async (shop: string, payload: unknown) => {
+  const body = (payload ?? {}) as {
+    id?: string | number | null;
+    updated_at?: string | null;
+    fulfillment_status?: string | null;
+    fulfillments?: Array<{ status?: string | null; created_at?: string | null }> | null;
+  };
+  const { id: orderId, bigInt } = parseOrderId(body.id);
+  if (!orderId) return;
+  if (body.fulfillment_status && body.fulfillment_status.toLowerCase() !== "fulfilled") return;
+
+  const timestamps = (body.fulfillments ?? [])
+    .filter(
+      (fulfillment) =>
+        !IGNORED_FULFILLMENT_STATUSES.has(String(fulfillment?.status ?? "").toLowerCase()),
+    )
+    .map((fulfillment) => parseTimestamp(fulfillment?.created_at))
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => b.getTime() - a.getTime());
+  const fulfilledAt = timestamps[0] ?? parseTimestamp(body.updated_at) ?? new Date();
+
+  try {
+    await stampFulfilledAt(shop, bigInt, fulfilledAt);
+  } catch (error) {
+    console.error("[fulfillments] failed to stamp fulfilledAt", error);
+  }
+};
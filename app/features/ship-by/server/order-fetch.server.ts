@@ -0,0 +1,69 @@
+import {graphqlWithRetry} from "../../../server/admin-client.server";
+import {ORDER_PAYLOAD_FIELDS, toOrderPayload, type GraphqlOrderNode} from "../utils/order-payload";
+
+// 注文を Admin GraphQL で再取得し、Webhook と同じ形のペイロードにして返す（存在しなければ null）
+export const fetchOrderPayload = async (
+  shop: string,
+  orderId: string | number | bigint,
+): Promise<Record<string, unknown> | null> => {
+  const response = await graphqlWithRetry(
+    shop,
+    `#graphql
+    query ShipByOrder($id: ID!) {
+      order(id: $id) {
+        ${ORDER_PAYLOAD_FIELDS}
+      }
+    }`,
+    {variables: {id: `gid://shopify/Order/${orderId}`}},
+    {action: "order_fetch"},
+  );
+
+  if (!response.ok) {
+    throw new Error(`order fetch failed: ${response.status} ${response.statusText}`);
+  }
+
+  const json = (await response.json()) as {
+    data?: {order?: GraphqlOrderNode | null};
+    errors?: unknown;
+  };
+  if (Array.isArray(json?.errors) && json.errors.length > 0) {
+    throw new Error(`order fetch graphql errors: ${JSON.stringify(json.errors)}`);
+  }
+
+  const node = json?.data?.order;
+  return node ? toOrderPayload(node) : null;
+};
+
+// 指定日時以降に作成された注文を新しい順に取得する（最大 limit 件、Webhook と同じ形のペイロード）
+export const fetchRecentOrderPayloads = async (
+  shop: string,
+  {since, limit}: {since: Date; limit: number},
+): Promise<Record<string, unknown>[]> => {
+  const response = await graphqlWithRetry(
+    shop,
+    `#graphql
+    query RecentOrders($first: Int!, $query: String!) {
+      orders(first: $first, query: $query, sortKey: CREATED_AT, reverse: true) {
+        nodes {
+          ${ORDER_PAYLOAD_FIELDS}
+        }
+      }
+    }`,
+    {variables: {first: limit, query: `created_at:>='${since.toISOString()}'`}},
+    {action: "recent_orders_fetch"},
+  );
+
+  if (!response.ok) {
+    throw new Error(`orders fetch failed: ${response.status} ${response.statusText}`);
+  }
+
+  const json = (await response.json()) as {
+    data?: {orders?: {nodes?: GraphqlOrderNode[] | null} | null};
+    errors?: unknown;
+  };
+  if (Array.isArray(json?.errors) && json.errors.length > 0) {
+    throw new Error(`orders fetch graphql errors: ${JSON.stringify(json.errors)}`);
+  }
+
+  return (json?.data?.orders?.nodes ?? []).map((node) => toOrderPayload(node));
+};
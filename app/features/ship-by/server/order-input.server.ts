@@ -0,0 +1,71 @@
+import { buildOrderInputFingerprint } from "../utils/order-fingerprint.js";
+import {
+  resolveDeliverySources,
+  type ShopifyOrderLike,
+  type ShopSettingLike,
+} from "./ship-by.server.js";
+
+// お届け先は配送日数の計算に使う国・都道府県・郵便番号だけを残す
+const coerceShippingAddress = (value: unknown): ShopifyOrderLike["shipping_address"] => {
+  if (!value || typeof value !== "object") return null;
+  const address = value as Record<string, unknown>;
+  const text = (...keys: string[]) => {
+    const found = keys.map((key) => address[key]).find((item) => typeof item === "string");
+    return typeof found === "string" ? found : null;
+  };
+  return {
+    country_code: text("country_code", "countryCode", "countryCodeV2"),
+    province: text("province"),
+    province_code: text("province_code", "provinceCode"),
+    zip: text("zip"),
+  };
+};
+
+export const coerceOrder = (payload: unknown): ShopifyOrderLike => {
+  const obj = (payload ?? {}) as Record<string, unknown>;
+  const attributes: NonNullable<ShopifyOrderLike["attributes"]> = [];
+
+  if (Array.isArray(obj.attributes)) {
+    attributes.push(...(obj.attributes as NonNullable<ShopifyOrderLike["attributes"]>));
+  }
+  if (Array.isArray(obj.note_attributes)) {
+    attributes.push(...(obj.note_attributes as NonNullable<ShopifyOrderLike["attributes"]>));
+  }
+  if (Array.isArray(obj.noteAttributes)) {
+    attributes.push(...(obj.noteAttributes as NonNullable<ShopifyOrderLike["attributes"]>));
+  }
+
+  return {
+    id: obj.id as ShopifyOrderLike["id"],
+    created_at: typeof obj.created_at === "string" ? obj.created_at : null,
+    attributes,
+    metafields: Array.isArray(obj.metafields)
+      ? (obj.metafields as ShopifyOrderLike["metafields"])
+      : [],
+    shipping_lines: Array.isArray(obj.shipping_lines)
+      ? (obj.shipping_lines as ShopifyOrderLike["shipping_lines"])
+      : [],
+    line_items: Array.isArray(obj.line_items)
+      ? (obj.line_items as ShopifyOrderLike["line_items"])
+      : [],
+    shipping_address: coerceShippingAddress(obj.shipping_address ?? obj.shippingAddress),
+  };
+};
+
+// お届け希望日・時間帯を読むメタフィールドだけを指紋に含める（メタフィールドの取得元がなければ含めない）。
+// 他のアプリのメタフィールドや、メタフィールドのない REST のペイロードとの違いで再計算しないようにする
+export const getOrderInputFingerprint = (
+  order: ShopifyOrderLike,
+  shopSetting: Pick<
+    ShopSettingLike,
+    "deliverySource" | "deliveryKey" | "deliveryFallbacks" | "deliveryTimeSlotKey"
+  >,
+) => {
+  const metafieldKeys = resolveDeliverySources(shopSetting)
+    .filter((source) => source.source === "metafield")
+    .map((source) => source.key);
+  const timeSlotKey = shopSetting.deliveryTimeSlotKey?.trim();
+  if (metafieldKeys.length > 0 && timeSlotKey) metafieldKeys.push(timeSlotKey);
+
+  return buildOrderInputFingerprint(order, { metafieldKeys });
+};
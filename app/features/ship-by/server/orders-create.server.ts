@@ -1,4 +1,13 @@
-import type { Holiday, Rule, RuleShippingRate, ShopSetting } from "@prisma/client";
+import type {
+  DeliverySource,
+  ErrorLogKind,
+  Holiday,
+  LeadDaysMode,
+  Rule,
+  RuleShippingRate,
+  ShippingRate,
+  ShopSetting,
+} from "@prisma/client";
 
 import prisma from "../../../db.server";
 import { apiVersion } from "../../../shopify.server";
@@ -8,14 +17,28 @@ import {
   toISODate,
   type HolidayLike,
   type RuleLike,
-  type ShopifyOrderLike,
   type ShopSettingLike,
 } from "./ship-by.server";
-import { buildShipByMetafieldInput } from "./ship-by-metafield.server";
-
-const DEFAULT_TAG_FORMAT = "ship-by-{YYYY}-{MM}-{DD}";
-
-const parseOrderId = (value: unknown): { id: string | number | null; bigInt: bigint } => {
+import {
+  buildShipByMetafieldInput,
+  buildShipByTraceMetafieldInput,
+} from "./ship-by-metafield.server";
+import { withProductTargets } from "./product-targets.server";
+import { coerceOrder, getOrderInputFingerprint } from "./order-input.server";
+import { parseTransitDays } from "../../shipping/utils/transit-days";
+import { parseDeliveryFallbacks } from "../utils/delivery-sources";
+import { DEFAULT_NOTE_FORMAT, replaceShipByNoteLine } from "../utils/ship-by-note";
+import {
+  applyAsapTag,
+  applyInfeasibleTag,
+  DEFAULT_TAG_FORMAT,
+  replaceShipByTag,
+} from "../utils/ship-by-tags";
+import { formatShipByTemplate } from "../utils/ship-by-template";
+import { buildShipByTrace, type ShipByTrace } from "../utils/ship-by-trace";
+import { parseTimeSlotDays } from "../utils/time-slot";
+
+export const parseOrderId = (value: unknown): { id: string | number | null; bigInt: bigint } => {
   if (typeof value === "number" && Number.isFinite(value)) {
     return { id: value, bigInt: BigInt(value) };
   }
@@ -34,12 +57,40 @@ const resolveOrderGid = (payload: unknown, orderId: string | number) => {
   return { gid: `gid://shopify/Order/${orderId}`, fallback: true };
 };
 
-const extractShopSetting = (setting: ShopSetting | null): ShopSettingLike => ({
+// 配送ケースのキャッシュ（ShopSetting.shippingRates）に、ShippingRate の配送日数を重ねる
+const withTransitDays = (
+  shippingRates: ShopSettingLike["shippingRates"],
+  transitRates: Array<Pick<ShippingRate, "shippingRateId" | "transitDays">>,
+) => {
+  const transitById = new Map(
+    transitRates.map((rate) => [rate.shippingRateId, parseTransitDays(rate.transitDays)]),
+  );
+  return (shippingRates ?? [])
+    .filter((rate) => Boolean(rate))
+    .map((rate) => ({
+      ...rate,
+      transitDays: transitById.get(rate.shippingRateId) ?? null,
+    }));
+};
+
+export const extractShopSetting = (
+  setting: ShopSetting | null,
+  transitRates: Array<Pick<ShippingRate, "shippingRateId" | "transitDays">> = [],
+): ShopSettingLike => ({
   deliverySource: setting?.deliverySource ?? null,
   deliveryKey: setting?.deliveryKey ?? null,
   deliveryFormat: setting?.deliveryFormat ?? null,
+  deliveryFallbacks: parseDeliveryFallbacks(setting?.deliveryFallbacks),
+  deliveryTimeSlotKey: setting?.deliveryTimeSlotKey ?? null,
+  asapWhenNoDeliveryDate: setting?.asapWhenNoDeliveryDate ?? false,
   defaultLeadDays: setting?.defaultLeadDays ?? null,
-  shippingRates: (setting?.shippingRates ?? []) as ShopSettingLike["shippingRates"],
+  leadDaysMode: setting?.leadDaysMode ?? null,
+  timeZone: setting?.timezone ?? null,
+  cutoffTime: setting?.cutoffTime ?? null,
+  shippingRates: withTransitDays(
+    (setting?.shippingRates ?? []) as ShopSettingLike["shippingRates"],
+    transitRates,
+  ),
   language: setting?.language ?? null,
 });
 
@@ -64,52 +115,19 @@ const extractRules = (links: Array<RuleShippingRate & { rule: Rule }>): RuleLike
       targetId: rule.targetId,
       shippingRateIds: [link.shippingRateId],
       days: rule.days,
+      leadDaysMode: rule.leadDaysMode,
+      timeSlotDays: parseTimeSlotDays(rule.timeSlotDays),
     });
   });
 
   return Array.from(map.values());
 };
 
-const formatWithTokens = (template: string | null | undefined, date: Date) => {
-  const iso = toISODate(date);
-  const [YYYY, MM, DD] = iso.split("-");
-  const table: Record<string, string> = {
-    "{YYYY}": YYYY,
-    "{MM}": MM,
-    "{DD}": DD,
-  };
-
-  return (template || "").replace(/\{YYYY\}|\{MM\}|\{DD\}/g, (token) => table[token] ?? token);
-};
-
-const coerceOrder = (payload: unknown): ShopifyOrderLike => {
-  const obj = (payload ?? {}) as Record<string, unknown>;
-  const attributes: NonNullable<ShopifyOrderLike["attributes"]> = [];
-
-  if (Array.isArray(obj.attributes)) {
-    attributes.push(...(obj.attributes as NonNullable<ShopifyOrderLike["attributes"]>));
-  }
-  if (Array.isArray(obj.note_attributes)) {
-    attributes.push(...(obj.note_attributes as NonNullable<ShopifyOrderLike["attributes"]>));
-  }
-  if (Array.isArray(obj.noteAttributes)) {
-    attributes.push(...(obj.noteAttributes as NonNullable<ShopifyOrderLike["attributes"]>));
-  }
-
-  return {
-    id: obj.id as ShopifyOrderLike["id"],
-    attributes,
-    metafields: Array.isArray(obj.metafields)
-      ? (obj.metafields as ShopifyOrderLike["metafields"])
-      : [],
-    shipping_lines: Array.isArray(obj.shipping_lines)
-      ? (obj.shipping_lines as ShopifyOrderLike["shipping_lines"])
-      : [],
-    line_items: Array.isArray(obj.line_items)
-      ? (obj.line_items as ShopifyOrderLike["line_items"])
-      : [],
-  };
-};
+const formatWithTokens = (
+  template: string | null | undefined,
+  date: Date,
+  timeSlot: string | null,
+) => formatShipByTemplate(template || "", toISODate(date), { timeSlot });
 
 const ensureArray = (value: unknown): string[] =>
   Array.isArray(value) ? value.map((v: unknown) => String(v)) : [];
@@ -136,33 +154,74 @@ const saveTags = async ({
   orderId,
   shipBy,
   payload,
+  timeSlot,
   tagFormat,
   enableTag,
+  infeasible,
+  asap,
 }: {
   shop: string;
   orderId: string | number;
   shipBy: Date;
   payload: unknown;
+  timeSlot: string | null;
   tagFormat: string | null | undefined;
   enableTag: boolean;
+  infeasible: boolean;
+  asap: boolean;
 }) => {
-  if (!enableTag) return;
-
-  const { session, withRetry } = await getAdminClient(shop);
-  const newTag = enableTag
-    ? formatWithTokens(tagFormat ?? DEFAULT_TAG_FORMAT, shipBy)
-    : null;
   const existingTags = extractTags(payload);
-  const nextTags =
-    newTag && !existingTags.includes(newTag)
-      ? [...existingTags, newTag]
-      : existingTags;
-
-  const body: { order: Record<string, unknown> } = { order: { id: orderId } };
+  let nextTags = existingTags;
   if (enableTag) {
-    body.order.tags = nextTags.join(", ");
+    const newTag = formatWithTokens(tagFormat ?? DEFAULT_TAG_FORMAT, shipBy, timeSlot);
+    // 以前の出荷期限タグは置き換える（再計算でタグが増えないように）
+    nextTags = replaceShipByTag(nextTags, newTag, tagFormat);
+  }
+  // 間に合わない注文の警告タグはタグ保存の設定に関わらず付け外しする
+  nextTags = applyInfeasibleTag(nextTags, infeasible);
+  // 最短出荷の目印も同じく、タグ保存の設定に関わらず付け外しする
+  nextTags = applyAsapTag(nextTags, asap);
+  if (
+    nextTags.length === existingTags.length &&
+    nextTags.every((tag) => existingTags.includes(tag))
+  ) {
+    return;
   }
 
+  await updateOrder(shop, orderId, { order: { id: orderId, tags: nextTags.join(", ") } });
+};
+
+// 出荷期限の行を注文メモに書き込む（既存の出荷期限行は置き換え、変化がなければ更新しない）
+const saveNote = async ({
+  shop,
+  orderId,
+  shipBy,
+  payload,
+  timeSlot,
+  noteFormat,
+}: {
+  shop: string;
+  orderId: string | number;
+  shipBy: Date;
+  payload: unknown;
+  timeSlot: string | null;
+  noteFormat: string | null | undefined;
+}) => {
+  const rawNote = (payload as { note?: unknown } | null | undefined)?.note;
+  const currentNote = typeof rawNote === "string" ? rawNote : "";
+  const newLine = formatWithTokens(noteFormat || DEFAULT_NOTE_FORMAT, shipBy, timeSlot);
+  const nextNote = replaceShipByNoteLine(currentNote, newLine, noteFormat);
+  if (nextNote === currentNote) return;
+
+  await updateOrder(shop, orderId, { order: { id: orderId, note: nextNote } });
+};
+
+const updateOrder = async (
+  shop: string,
+  orderId: string | number,
+  body: { order: Record<string, unknown> },
+) => {
+  const { session, withRetry } = await getAdminClient(shop);
   const url = `https://${session.shop}/admin/api/${apiVersion}/orders/${orderId}.json`;
   const response = (await withRetry(
     () =>
@@ -186,16 +245,21 @@ const saveShipByMetafield = async ({
   shop,
   orderId,
   shipBy,
+  trace,
   payload,
 }: {
   shop: string;
   orderId: string | number;
   shipBy: Date;
+  trace: ShipByTrace;
   payload: unknown;
 }) => {
   const { admin, withRetry } = await getAdminClient(shop);
   const resolved = resolveOrderGid(payload, orderId);
-  const metafields = [buildShipByMetafieldInput(resolved.gid, shipBy)];
+  const metafields = [
+    buildShipByMetafieldInput(resolved.gid, shipBy),
+    buildShipByTraceMetafieldInput(resolved.gid, trace),
+  ];
 
   const response = (await withRetry(
     () =>
@@ -232,11 +296,12 @@ const saveShipByMetafield = async ({
   }
 };
 
-const recordError = async (
+export const recordError = async (
   shop: string,
   orderId: string | number | null,
   reason: string,
   raw: unknown,
+  kind: ErrorLogKind = "error",
 ) => {
   try {
     const parsed = parseOrderId(orderId);
@@ -244,6 +309,7 @@ const recordError = async (
       data: {
         shopId: shop,
         orderId: parsed.bigInt,
+        kind,
         reason,
         rawData: raw as unknown as object,
       },
@@ -253,16 +319,53 @@ const recordError = async (
   }
 };
 
+// 同じ注文・同じ理由の未解決エラーがあれば重複して記録しない
+export const recordErrorOnce = async (
+  shop: string,
+  orderId: string | number | null,
+  reason: string,
+  raw: unknown,
+) => {
+  const existing = await prisma.errorLog.findFirst({
+    where: {
+      shopId: shop,
+      orderId: parseOrderId(orderId).bigInt,
+      reason,
+      resolved: false,
+    },
+    select: { id: true },
+  });
+  if (existing) return;
+  await recordError(shop, orderId, reason, raw);
+};
+
+// 出荷期限と、その日付になった根拠（採用日数・ルール・休業日の繰り下げ・設定の版）
+type ShipByRecordData = {
+  shipByDate: Date;
+  deliveryDate: Date | null;
+  deliverySource: DeliverySource | null;
+  deliveryKey: string | null;
+  deliveryTimeSlot: string | null;
+  isAsap: boolean;
+  shippingRateId: string | null;
+  inputFingerprint: string;
+  shortfallDays: number | null;
+  adoptDays: number;
+  leadDaysMode: LeadDaysMode;
+  matchedRuleIds: string[];
+  adjustedFrom: Date;
+  usedDefaultLeadDays: boolean;
+  settingsVersion: number | null;
+};
+
 const recordShipBy = async ({
   shop,
   orderId,
-  shipBy,
-  deliveryDate,
+  data,
 }: {
   shop: string;
   orderId: string | number | null;
-  shipBy: Date;
-  deliveryDate: Date;
+  data: ShipByRecordData;
 }) => {
   if (!orderId) return;
 
@@ -272,90 +375,206 @@ const recordShipBy = async ({
 
     await prisma.shipByRecord.upsert({
       where: { shopId_orderId: { shopId: shop, orderId: parsed.bigInt } },
-      create: {
-        shopId: shop,
-        orderId: parsed.bigInt,
-        shipByDate: shipBy,
-        deliveryDate,
-      },
-      update: {
-        shipByDate: shipBy,
-        deliveryDate,
-      },
+      create: { shopId: shop, orderId: parsed.bigInt, ...data },
+      update: data,
     });
   } catch (err) {
     console.error("[orders-create] failed to record ship-by", err);
   }
 };
 
-export const handleOrdersCreate = async (shop: string, payload: unknown) => {
+// アプリ自身が書き込むメタフィールドを除いた、計算入力の指紋
+// 間に合わない注文の警告で使う理由（エラー記録の絞り込みで他のエラーと区別できるよう固定文言）
+export const INFEASIBLE_REASON = "ship-by date is before order date";
+
+// 間に合わない注文は警告として記録し（未解決の警告があれば重複させない）、解消したら解決済みにする
+const syncInfeasibleWarning = async ({
+  shop,
+  orderId,
+  shortfallDays,
+  shipBy,
+  orderDate,
+  payload,
+}: {
+  shop: string;
+  orderId: string | number;
+  shortfallDays: number | null;
+  shipBy: Date;
+  orderDate: Date;
+  payload: unknown;
+}) => {
+  const where = {
+    shopId: shop,
+    orderId: parseOrderId(orderId).bigInt,
+    kind: "warning" as const,
+    reason: INFEASIBLE_REASON,
+    resolved: false,
+  };
+
+  if (shortfallDays == null) {
+    await prisma.errorLog.updateMany({ where, data: { resolved: true } });
+    return;
+  }
+
+  const existing = await prisma.errorLog.findFirst({ where, select: { id: true } });
+  if (existing) return;
+
+  await recordError(
+    shop,
+    orderId,
+    INFEASIBLE_REASON,
+    {
+      shortfallDays,
+      shipBy: toISODate(shipBy),
+      orderDate: toISODate(orderDate),
+      payload,
+    },
+    "warning",
+  );
+};
+
+// 出荷期限の計算と保存（レコード・メタフィールド・タグ）の結果
+export type ShipByApplyResult =
+  | { ok: true; shipBy: Date; deliveryDate: Date | null; shortfallDays: number | null }
+  | { ok: false; reason: string };
+
+// 出荷期限の計算に使う店舗の設定・休業日・ルールをまとめて読み込む
+export const loadCalculationInputs = async (shop: string) => {
+  const [setting, holiday, ruleLinks, transitRates] = await Promise.all([
+    prisma.shopSetting.findUnique({ where: { shopId: shop } }),
+    prisma.holiday.findUnique({ where: { shopId: shop } }),
+    prisma.ruleShippingRate.findMany({
+      where: { shopId: shop },
+      include: { rule: true },
+    }),
+    prisma.shippingRate.findMany({
+      where: { shopId: shop },
+      select: { shippingRateId: true, transitDays: true },
+    }),
+  ]);
+
+  return {
+    setting,
+    shopSetting: extractShopSetting(setting, transitRates),
+    holiday: extractHoliday(holiday),
+    rules: extractRules(ruleLinks),
+  };
+};
+
+// 注文ペイロードから出荷期限を計算し、設定に従って保存する。
+// 計算エラーは ok: false で返し、保存処理の失敗は例外として呼び出し元へ投げる。
+export const applyShipByToOrder = async (
+  shop: string,
+  payload: unknown,
+): Promise<ShipByApplyResult> => {
   const { id: orderId } = parseOrderId(
     (payload as { id?: string | number | null } | null | undefined)?.id,
   );
 
-  try {
-    if (!orderId) {
-      await recordError(shop, orderId, "order id missing", { payload });
-      return;
-    }
+  if (!orderId) {
+    return { ok: false, reason: "order id missing" };
+  }
 
-    const [setting, holiday, ruleLinks] = await Promise.all([
-      prisma.shopSetting.findUnique({ where: { shopId: shop } }),
-      prisma.holiday.findUnique({ where: { shopId: shop } }),
-      prisma.ruleShippingRate.findMany({
-        where: { shopId: shop },
-        include: { rule: true },
-      }),
-    ]);
+  const { setting, shopSetting, holiday, rules } = await loadCalculationInputs(shop);
 
-    const calcResult = calculateShipBy({
-      order: coerceOrder(payload),
-      rules: extractRules(ruleLinks),
-      shopSetting: extractShopSetting(setting),
-      holiday: extractHoliday(holiday),
+  const [order] = await withProductTargets(shop, [coerceOrder(payload)], rules);
+  const calcResult = calculateShipBy({ order, rules, shopSetting, holiday });
+
+  if (!calcResult.ok) {
+    console.warn("[orders-create] shipping calculation failed", {
+      shop,
+      orderId,
+      error: calcResult.error,
+      message: calcResult.message,
     });
+    return { ok: false, reason: calcResult.message };
+  }
 
-    if (!calcResult.ok) {
-      console.warn("[orders-create] shipping calculation failed", {
-        shop,
-        orderId,
-        error: calcResult.error,
-        message: calcResult.message,
-      });
-      await recordError(shop, orderId, calcResult.message, { payload });
-      return;
-    }
+  const shipBy = calcResult.value.shipBy;
+  const deliveryDate = calcResult.value.deliveryDate;
+  const shortfallDays = calcResult.value.infeasible?.shortfallDays ?? null;
+  const saveTagEnabled = setting?.saveTag === true;
+  const saveNoteEnabled = setting?.saveNote === true;
+  const saveMetafieldEnabled = setting?.saveMetafield !== false;
 
-    const shipBy = calcResult.value.shipBy;
-    const deliveryDate = calcResult.value.deliveryDate;
-    const saveTagEnabled = setting?.saveTag === true;
-    const saveMetafieldEnabled = setting?.saveMetafield !== false;
+  const trace = buildShipByTrace(calcResult.value);
 
-    await recordShipBy({
+  await recordShipBy({
+    shop,
+    orderId,
+    data: {
+      shipByDate: shipBy,
+      deliveryDate,
+      deliverySource: trace.deliverySource,
+      deliveryKey: trace.deliveryKey,
+      deliveryTimeSlot: trace.timeSlot,
+      isAsap: trace.asap,
+      shippingRateId: trace.shippingRateId,
+      inputFingerprint: getOrderInputFingerprint(order, shopSetting),
+      shortfallDays,
+      adoptDays: trace.adoptDays,
+      leadDaysMode: trace.leadDaysMode,
+      matchedRuleIds: trace.matchedRuleIds,
+      adjustedFrom: calcResult.value.adjustedFrom,
+      usedDefaultLeadDays: trace.usedDefaultLeadDays,
+      settingsVersion: setting?.settingsVersion ?? null,
+    },
+  });
+
+  if (saveMetafieldEnabled) {
+    await saveShipByMetafield({
       shop,
       orderId,
       shipBy,
-      deliveryDate,
+      trace,
+      payload,
     });
+  }
 
-    if (saveMetafieldEnabled) {
-      await saveShipByMetafield({
-        shop,
-        orderId,
-        shipBy,
-        payload,
-      });
-    }
+  await saveTags({
+    shop,
+    orderId,
+    shipBy,
+    payload,
+    timeSlot: trace.timeSlot,
+    tagFormat: setting?.saveTagFormat,
+    enableTag: saveTagEnabled,
+    infeasible: shortfallDays != null,
+    asap: trace.asap,
+  });
 
-    if (saveTagEnabled) {
-      await saveTags({
-        shop,
-        orderId,
-        shipBy,
-        payload,
-        tagFormat: setting?.saveTagFormat,
-        enableTag: saveTagEnabled,
-      });
+  if (saveNoteEnabled) {
+    await saveNote({
+      shop,
+      orderId,
+      shipBy,
+      payload,
+      timeSlot: trace.timeSlot,
+      noteFormat: setting?.saveNoteFormat,
+    });
+  }
+
+  await syncInfeasibleWarning({
+    shop,
+    orderId,
+    shortfallDays,
+    shipBy,
+    orderDate: calcResult.value.orderDate,
+    payload,
+  });
+
+  return { ok: true, shipBy, deliveryDate, shortfallDays };
+};
+
+export const handleOrdersCreate = async (shop: string, payload: unknown) => {
+  const { id: orderId } = parseOrderId(
+    (payload as { id?: string | number | null } | null | undefined)?.id,
+  );
+
+  try {
+    const result = await applyShipByToOrder(shop, payload);
+    if (!result.ok) {
+      await recordError(shop, orderId, result.reason, { payload });
     }
   } catch (error) {
     console.error("[orders-create] failed", error);
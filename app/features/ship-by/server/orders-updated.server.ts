@@ -0,0 +1,129 @@
+import prisma from "../../../db.server";
+import { applyShipByToOrder, parseOrderId, recordErrorOnce } from "./orders-create.server";
+import { coerceOrder, getOrderInputFingerprint } from "./order-input.server";
+import { fetchOrderPayload } from "./order-fetch.server";
+import { markShipByRecordCancelled } from "./ship-by-orders.server";
+import { parseDeliveryFallbacks } from "../utils/delivery-sources";
+
+type RecomputeOutcome = "skipped" | "unchanged" | "updated" | "failed";
+
+// キャンセル済み・発送済みの注文は出荷期限を更新しない
+export const isClosedOrder = (payload: Record<string, unknown>) =>
+  Boolean(payload.cancelled_at) ||
+  String(payload.fulfillment_status ?? "").toLowerCase() === "fulfilled";
+
+// 指紋と再取得の判定に使う、お届け希望日の取得元の設定
+const loadDeliverySetting = async (shop: string) => {
+  const setting = await prisma.shopSetting.findUnique({
+    where: { shopId: shop },
+    select: {
+      deliverySource: true,
+      deliveryKey: true,
+      deliveryFallbacks: true,
+      deliveryTimeSlotKey: true,
+    },
+  });
+  return {
+    deliverySource: setting?.deliverySource ?? null,
+    deliveryKey: setting?.deliveryKey ?? null,
+    deliveryFallbacks: parseDeliveryFallbacks(setting?.deliveryFallbacks),
+    deliveryTimeSlotKey: setting?.deliveryTimeSlotKey ?? null,
+  };
+};
+
+type DeliverySetting = Awaited<ReturnType<typeof loadDeliverySetting>>;
+
+// 計算の入力が前回から変わっていれば出荷期限を再計算して保存し直す
+const recomputeShipBy = async (
+  shop: string,
+  payload: Record<string, unknown>,
+  setting: DeliverySetting,
+): Promise<RecomputeOutcome> => {
+  const { id: orderId, bigInt } = parseOrderId(payload.id);
+  if (!orderId) return "skipped";
+  if (payload.cancelled_at) {
+    // キャンセル済みの注文は出荷予定の一覧から外す
+    const cancelledAt = new Date(String(payload.cancelled_at));
+    await markShipByRecordCancelled(
+      shop,
+      bigInt,
+      Number.isNaN(cancelledAt.getTime()) ? new Date() : cancelledAt,
+    );
+  }
+  if (isClosedOrder(payload)) return "skipped";
+
+  const record = await prisma.shipByRecord.findUnique({
+    where: { shopId_orderId: { shopId: shop, orderId: bigInt } },
+    select: { inputFingerprint: true },
+  });
+  const fingerprint = getOrderInputFingerprint(coerceOrder(payload), setting);
+  if (record?.inputFingerprint === fingerprint) return "unchanged";
+
+  const result = await applyShipByToOrder(shop, payload);
+  if (!result.ok) {
+    await recordErrorOnce(shop, orderId, result.reason, { payload });
+    return "failed";
+  }
+
+  console.log("[orders-updated] ship-by recomputed", {
+    shop,
+    orderId,
+    shipBy: result.shipBy.toISOString(),
+  });
+  return "updated";
+};
+
+// orders/updated: Webhook のペイロードで判定する。
+// お届け希望日をメタフィールドから取る設定（予備の取得元を含む）では、
+// ペイロードにメタフィールドが含まれないため再取得する。
+export const handleOrdersUpdated = async (shop: string, payload: unknown) => {
+  const { id: orderId } = parseOrderId(
+    (payload as { id?: string | number | null } | null | undefined)?.id,
+  );
+  if (!orderId) return;
+
+  try {
+    const setting = await loadDeliverySetting(shop);
+    const usesMetafield =
+      setting.deliverySource === "metafield" ||
+      setting.deliveryFallbacks.some((fallback) => fallback.source === "metafield");
+    const source = usesMetafield
+      ? await fetchOrderPayload(shop, orderId)
+      : (payload as Record<string, unknown>);
+    if (!source) return;
+
+    await recomputeShipBy(shop, source, setting);
+  } catch (error) {
+    console.error("[orders-updated] failed", error);
+    await recordErrorOnce(
+      shop,
+      orderId,
+      error instanceof Error ? error.message : "unknown error",
+      { payload },
+    );
+  }
+};
+
+// orders/edited: ペイロードは編集内容のみのため、注文を再取得して判定する
+export const handleOrdersEdited = async (shop: string, payload: unknown) => {
+  const { id: orderId } = parseOrderId(
+    (payload as { order_edit?: { order_id?: string | number | null } } | null | undefined)
+      ?.order_edit?.order_id,
+  );
+  if (!orderId) return;
+
+  try {
+    const order = await fetchOrderPayload(shop, orderId);
+    if (!order) return;
+
+    await recomputeShipBy(shop, order, await loadDeliverySetting(shop));
+  } catch (error) {
+    console.error("[orders-edited] failed", error);
+    await recordErrorOnce(
+      shop,
+      orderId,
+      error instanceof Error ? error.message : "unknown error",
+      { payload },
+    );
+  }
+};
@@ -0,0 +1,120 @@
+import prisma from "../../../db.server";
+import { graphqlWithRetry } from "../../../server/admin-client.server";
+import {
+  attachProductTargets,
+  EMPTY_PRODUCT_TARGETS,
+  isProductTargetCacheFresh,
+  needsProductTargets,
+  toProductTargets,
+  type GraphqlProductTargetNode,
+  type ProductTargets,
+} from "../utils/product-targets";
+import type { RuleLike, ShopifyOrderLike } from "./ship-by.server";
+
+const PRODUCT_FETCH_BATCH_SIZE = 50;
+
+const toStringArray = (value: unknown) =>
+  Array.isArray(value) ? value.map((item) => String(item)) : [];
+
+const fetchProductTargets = async (shop: string, productIds: string[]) => {
+  const response = await graphqlWithRetry(
+    shop,
+    `#graphql
+    query ProductTargets($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        __typename
+        ... on Product {
+          legacyResourceId
+          vendor
+          productType
+          tags
+          collections(first: 100) { nodes { legacyResourceId } }
+        }
+      }
+    }`,
+    { variables: { ids: productIds.map((id) => `gid://shopify/Product/${id}`) } },
+    { action: "product_targets_fetch" },
+  );
+
+  if (!response.ok) {
+    throw new Error(`product fetch failed: ${response.status} ${response.statusText}`);
+  }
+
+  const json = (await response.json()) as {
+    data?: { nodes?: Array<GraphqlProductTargetNode | null> | null };
+    errors?: unknown;
+  };
+  if (Array.isArray(json?.errors) && json.errors.length > 0) {
+    throw new Error(`product fetch graphql errors: ${JSON.stringify(json.errors)}`);
+  }
+
+  return (json?.data?.nodes ?? []).filter(
+    (node): node is GraphqlProductTargetNode =>
+      node?.__typename === "Product" && node.legacyResourceId != null,
+  );
+};
+
+// 商品ごとのベンダー・商品タイプ・タグ・コレクションを返す。
+// キャッシュが古い・ない商品だけ Admin GraphQL で取得し、キャッシュを更新する。
+// 見つからなかった商品も空の情報でキャッシュし、同じ ID で Admin API を呼び直さない
+// （ストアフロントの公開 API から存在しない ID を繰り返し送られても API の利用上限を消費しない）
+export const loadProductTargets = async (
+  shop: string,
+  productIds: string[],
+  now: Date = new Date(),
+): Promise<Map<string, ProductTargets>> => {
+  const uniqueIds = Array.from(new Set(productIds.filter(Boolean)));
+  const targets = new Map<string, ProductTargets>();
+  if (uniqueIds.length === 0) return targets;
+
+  const cached = await prisma.productTargetCache.findMany({
+    where: { shopId: shop, productId: { in: uniqueIds } },
+  });
+  cached
+    .filter((row) => isProductTargetCacheFresh(row.fetchedAt, now))
+    .forEach((row) => {
+      targets.set(row.productId, {
+        vendor: row.vendor,
+        productType: row.productType,
+        tags: toStringArray(row.tags),
+        collectionIds: toStringArray(row.collectionIds),
+      });
+    });
+
+  const missingIds = uniqueIds.filter((id) => !targets.has(id));
+  for (let i = 0; i < missingIds.length; i += PRODUCT_FETCH_BATCH_SIZE) {
+    const batchIds = missingIds.slice(i, i + PRODUCT_FETCH_BATCH_SIZE);
+    const nodes = await fetchProductTargets(shop, batchIds);
+    const fetched = new Map(
+      nodes.map((node) => [String(node.legacyResourceId), toProductTargets(node)] as const),
+    );
+    for (const productId of batchIds) {
+      const value = fetched.get(productId) ?? EMPTY_PRODUCT_TARGETS;
+      targets.set(productId, value);
+      await prisma.productTargetCache.upsert({
+        where: { shopId_productId: { shopId: shop, productId } },
+        update: { ...value, fetchedAt: now },
+        create: { shopId: shop, productId, ...value, fetchedAt: now },
+      });
+    }
+  }
+
+  return targets;
+};
+
+// 商品の条件別ルールがあるときだけ、注文の明細に商品情報を補う
+export const withProductTargets = async <T extends ShopifyOrderLike>(
+  shop: string,
+  orders: T[],
+  rules: RuleLike[],
+): Promise<T[]> => {
+  if (!needsProductTargets(rules)) return orders;
+
+  const productIds = orders.flatMap((order) =>
+    (order.line_items ?? [])
+      .map((item) => (item?.product_id != null ? String(item.product_id) : ""))
+      .filter(Boolean),
+  );
+  const targets = await loadProductTargets(shop, productIds);
+  return orders.map((order) => attachProductTargets(order, targets));
+};
@@ -1,4 +1,7 @@
 import prisma from "../../../db.server";
+import {parseShippingRates} from "../../shipping/utils/shipping-rate-normalize";
+import {groupOnTimeStats, isShippedOnTime, toOnTimeStat, type OnTimeStat} from "../utils/on-time";
+import {DEFAULT_TIME_ZONE} from "../utils/shop-time";
 
 type WeekdayCount = {
   label: string;
@@ -10,6 +13,17 @@ type DailyTrendPoint = {
   count: number;
 };
 
+type OnTimeGroup = OnTimeStat & {
+  label: string;
+};
+
+// 出荷済みの記録から見た期限内出荷率
+export type OnTimeSummary = OnTimeStat & {
+  byDay: OnTimeGroup[];
+  byWeekday: OnTimeGroup[];
+  byShippingRate: OnTimeGroup[];
+};
+
 export type ShipBySummary = {
   rangeDays: number;
   total: number;
@@ -17,6 +31,7 @@ export type ShipBySummary = {
   todayCount: number;
   byWeekday: WeekdayCount[];
   dailyTrend: DailyTrendPoint[];
+  onTime: OnTimeSummary;
 };
 
 export const getShipBySummary = async ({
@@ -24,7 +39,7 @@ export const getShipBySummary = async ({
   rangeDays = 30,
   trendTake = 30,
   trendFallbackDays = 7,
-  timeZone = "Asia/Tokyo",
+  timeZone = DEFAULT_TIME_ZONE,
 }: {
   shopId: string;
   rangeDays?: number;
@@ -33,15 +48,10 @@ export const getShipBySummary = async ({
   timeZone?: string;
 }): Promise<ShipBySummary> => {
   const weekdayLabels = ["日", "月", "火", "水", "木", "金", "土"];
-  let weekdayFormatter: Intl.DateTimeFormat | null = null;
   let dateFormatter: Intl.DateTimeFormat | null = null;
   let shortDateFormatter: Intl.DateTimeFormat | null = null;
 
   try {
-    weekdayFormatter = new Intl.DateTimeFormat("ja-JP", {
-      weekday: "short",
-      timeZone,
-    });
     dateFormatter = new Intl.DateTimeFormat("en-CA", {
       timeZone,
       year: "numeric",
@@ -60,12 +70,11 @@ export const getShipBySummary = async ({
     );
   }
 
-  const formatWeekday = (date: Date) =>
-    weekdayFormatter
-      ? weekdayFormatter.format(date)
-      : weekdayLabels[date.getUTCDay()];
   const formatDateKey = (date: Date) =>
     dateFormatter ? dateFormatter.format(date) : date.toISOString().slice(0, 10);
+  // 出荷期限は日付のみ（UTC 0時）で保存しているため、タイムゾーン変換せずに扱う
+  const toShipByKey = (date: Date) => date.toISOString().slice(0, 10);
+  const toShipByWeekday = (date: Date) => weekdayLabels[date.getUTCDay()];
   const formatShortDate = (date: Date) =>
     shortDateFormatter
       ? shortDateFormatter.format(date)
@@ -85,6 +94,12 @@ export const getShipBySummary = async ({
     todayCount: 0,
     byWeekday: weekdayLabels.map((label) => ({label, count: 0})),
     dailyTrend: buildDefaultDailyTrend(trendFallbackDays),
+    onTime: {
+      ...toOnTimeStat(0, 0),
+      byDay: [],
+      byWeekday: weekdayLabels.map((label) => ({label, ...toOnTimeStat(0, 0)})),
+      byShippingRate: [],
+    },
   };
 
   try {
@@ -93,7 +108,7 @@ export const getShipBySummary = async ({
 
     const shipByRecords = await prisma.shipByRecord.findMany({
       where: {shopId, shipByDate: {gte: shipByStart}},
-      select: {shipByDate: true},
+      select: {shipByDate: true, fulfilledAt: true, shippingRateId: true},
     });
     const recentShipByRecords = await prisma.shipByRecord.findMany({
       where: {shopId},
@@ -108,11 +123,9 @@ export const getShipBySummary = async ({
   const dailyCounts = new Map<string, number>();
 
     shipByRecords.forEach((record) => {
-      const weekdayLabel = formatWeekday(record.shipByDate);
-      const dayIndex = weekdayLabels.indexOf(weekdayLabel);
-      if (dayIndex !== -1) shipByCounts[dayIndex] += 1;
+      shipByCounts[record.shipByDate.getUTCDay()] += 1;
 
-      const dateKey = formatDateKey(record.shipByDate);
+      const dateKey = toShipByKey(record.shipByDate);
       if (dateKey === todayKey) {
         todayCount += 1;
       }
@@ -120,6 +133,46 @@ export const getShipBySummary = async ({
 
     });
 
+    // 期限内出荷率（発送済みの記録のみ）
+    const setting = await prisma.shopSetting.findUnique({
+      where: {shopId},
+      select: {shippingRates: true},
+    });
+    const rateTitleById = new Map(
+      parseShippingRates(setting?.shippingRates).map((rate) => [rate.shippingRateId, rate.title]),
+    );
+    const fulfilledEntries = shipByRecords
+      .filter((record) => record.fulfilledAt)
+      .map((record) => ({
+        record,
+        onTime: isShippedOnTime(
+          toShipByKey(record.shipByDate),
+          formatDateKey(record.fulfilledAt as Date),
+        ),
+      }));
+    const onTimeTotal = toOnTimeStat(
+      fulfilledEntries.filter((entry) => entry.onTime).length,
+      fulfilledEntries.filter((entry) => !entry.onTime).length,
+    );
+    const onTimeByDay = groupOnTimeStats(
+      fulfilledEntries.map((entry) => ({
+        groupKey: toShipByKey(entry.record.shipByDate),
+        onTime: entry.onTime,
+      })),
+    );
+    const onTimeByWeekday = groupOnTimeStats(
+      fulfilledEntries.map((entry) => ({
+        groupKey: toShipByWeekday(entry.record.shipByDate),
+        onTime: entry.onTime,
+      })),
+    );
+    const onTimeByRate = groupOnTimeStats(
+      fulfilledEntries.map((entry) => ({
+        groupKey: entry.record.shippingRateId ?? "",
+        onTime: entry.onTime,
+      })),
+    );
+
     const dailyTrend = Array.from({length: trendFallbackDays}, (_, index) => {
       const date = new Date();
       date.setDate(date.getDate() - (trendFallbackDays - 1 - index));
@@ -140,6 +193,27 @@ export const getShipBySummary = async ({
         count: shipByCounts[index],
       })),
       dailyTrend,
+      onTime: {
+        ...onTimeTotal,
+        byDay: Array.from({length: trendFallbackDays}, (_, index) => {
+          const date = new Date();
+          date.setDate(date.getDate() - (trendFallbackDays - 1 - index));
+          return {
+            label: formatShortDate(date),
+            ...(onTimeByDay.get(formatDateKey(date)) ?? toOnTimeStat(0, 0)),
+          };
+        }),
+        byWeekday: weekdayLabels.map((label) => ({
+          label,
+          ...(onTimeByWeekday.get(label) ?? toOnTimeStat(0, 0)),
+        })),
+        byShippingRate: Array.from(onTimeByRate.entries())
+          .map(([rateId, stat]) => ({
+            label: rateId ? rateTitleById.get(rateId) ?? rateId : "（配送ケース不明）",
+            ...stat,
+          }))
+          .sort((a, b) => b.total - a.total),
+      },
     };
   } catch (error) {
     console.warn(
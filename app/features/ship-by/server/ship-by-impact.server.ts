@@ -0,0 +1,101 @@
+import {
+  calculateShipBy,
+  toISODate,
+  type HolidayLike,
+  type RuleLike,
+  type ShopifyOrderLike,
+  type ShopSettingLike,
+} from "./ship-by.server.js";
+
+// 比較する注文（open は未発送かつキャンセルされていない注文）
+export type ImpactOrder = {
+  orderId: string;
+  orderName: string | null;
+  open: boolean;
+  order: ShopifyOrderLike;
+};
+
+// 出荷期限が変わる注文（日付は YYYY-MM-DD、計算できなければ null）
+export type ShipByImpactChange = {
+  orderId: string;
+  orderName: string | null;
+  open: boolean;
+  before: string | null;
+  after: string | null;
+  shiftDays: number | null;
+};
+
+export type ShipByImpact = {
+  evaluated: number;
+  changed: number;
+  earlier: number;
+  later: number;
+  newlyFailed: number;
+  resolved: number;
+  openChanged: number;
+  // ずれた日数ごとの件数（日数の昇順）
+  shifts: Array<{ days: number; count: number }>;
+  changes: ShipByImpactChange[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shipByOf = (input: Parameters<typeof calculateShipBy>[0]) => {
+  const result = calculateShipBy(input);
+  return result.ok ? result.value.shipBy : null;
+};
+
+// 現在のルールと保存前のルールで出荷期限を計算し直し、変わる注文を集計する
+export const compareShipByImpact = (input: {
+  orders: ImpactOrder[];
+  currentRules: RuleLike[];
+  draftRules: RuleLike[];
+  shopSetting: ShopSettingLike;
+  // 保存前の設定（配送日数など）。省略すると shopSetting のまま比べる
+  draftShopSetting?: ShopSettingLike;
+  holiday?: HolidayLike | null;
+}): ShipByImpact => {
+  const { orders, currentRules, draftRules, shopSetting, holiday } = input;
+  const draftShopSetting = input.draftShopSetting ?? shopSetting;
+  const shiftCounts = new Map<number, number>();
+  const changes: ShipByImpactChange[] = [];
+
+  for (const target of orders) {
+    const before = shipByOf({ order: target.order, rules: currentRules, shopSetting, holiday });
+    const after = shipByOf({
+      order: target.order,
+      rules: draftRules,
+      shopSetting: draftShopSetting,
+      holiday,
+    });
+    if (before?.getTime() === after?.getTime()) continue;
+
+    const shiftDays =
+      before && after ? Math.round((after.getTime() - before.getTime()) / DAY_MS) : null;
+    if (shiftDays != null) {
+      shiftCounts.set(shiftDays, (shiftCounts.get(shiftDays) ?? 0) + 1);
+    }
+    changes.push({
+      orderId: target.orderId,
+      orderName: target.orderName,
+      open: target.open,
+      before: before ? toISODate(before) : null,
+      after: after ? toISODate(after) : null,
+      shiftDays,
+    });
+  }
+
+  return {
+    evaluated: orders.length,
+    changed: changes.length,
+    earlier: changes.filter((change) => (change.shiftDays ?? 0) < 0).length,
+    later: changes.filter((change) => (change.shiftDays ?? 0) > 0).length,
+    newlyFailed: changes.filter((change) => change.before && !change.after).length,
+    resolved: changes.filter((change) => !change.before && change.after).length,
+    openChanged: changes.filter((change) => change.open).length,
+    shifts: Array.from(shiftCounts, ([days, count]) => ({ days, count })).sort(
+      (a, b) => a.days - b.days,
+    ),
+    changes,
+  };
+};
@@ -1,5 +1,6 @@
 import {graphqlWithRetry} from "../../../server/admin-client.server";
 import {toISODate} from "./ship-by.server";
+import type {ShipByTrace} from "../utils/ship-by-trace";
 
 export const SHIP_BY_METAFIELD = {
   namespace: "shipping",
@@ -10,6 +11,16 @@ export const SHIP_BY_METAFIELD = {
   ownerType: "ORDER",
 } as const;
 
+// 出荷期限の計算内容（管理画面の注文詳細ブロックで表示する）
+export const SHIP_BY_TRACE_METAFIELD = {
+  namespace: "shipping",
+  key: "ship_by_trace",
+  type: "json",
+  name: "Ship-by calculation trace",
+  description: "How the ship-by date was calculated",
+  ownerType: "ORDER",
+} as const;
+
 type MetafieldSetInput = {
   ownerId: string;
   namespace: string;
@@ -29,7 +40,21 @@ export const buildShipByMetafieldInput = (
   value: toISODate(shipBy),
 });
 
-export const ensureShipByMetafieldDefinition = async (shop: string) => {
+export const buildShipByTraceMetafieldInput = (
+  orderGid: string,
+  trace: ShipByTrace,
+): MetafieldSetInput => ({
+  ownerId: orderGid,
+  namespace: SHIP_BY_TRACE_METAFIELD.namespace,
+  key: SHIP_BY_TRACE_METAFIELD.key,
+  type: SHIP_BY_TRACE_METAFIELD.type,
+  value: JSON.stringify(trace),
+});
+
+const createMetafieldDefinition = async (
+  shop: string,
+  metafield: typeof SHIP_BY_METAFIELD | typeof SHIP_BY_TRACE_METAFIELD,
+) => {
   const response = await graphqlWithRetry(
     shop,
     `#graphql
@@ -47,12 +72,12 @@ export const ensureShipByMetafieldDefinition = async (shop: string) => {
     {
       variables: {
         definition: {
-          name: SHIP_BY_METAFIELD.name,
-          namespace: SHIP_BY_METAFIELD.namespace,
-          key: SHIP_BY_METAFIELD.key,
-          type: SHIP_BY_METAFIELD.type,
-          ownerType: SHIP_BY_METAFIELD.ownerType,
-          description: SHIP_BY_METAFIELD.description,
+          name: metafield.name,
+          namespace: metafield.namespace,
+          key: metafield.key,
+          type: metafield.type,
+          ownerType: metafield.ownerType,
+          description: metafield.description,
         },
       },
     },
@@ -69,6 +94,11 @@ export const ensureShipByMetafieldDefinition = async (shop: string) => {
   const userErrors = payload?.data?.metafieldDefinitionCreate?.userErrors ?? [];
 
   if (Array.isArray(userErrors) && userErrors.length > 0) {
-    console.warn("[ship-by-metafield] definition create errors", userErrors);
+    console.warn("[ship-by-metafield] definition create errors", metafield.key, userErrors);
   }
 };
+
+export const ensureShipByMetafieldDefinition = async (shop: string) => {
+  await createMetafieldDefinition(shop, SHIP_BY_METAFIELD);
+  await createMetafieldDefinition(shop, SHIP_BY_TRACE_METAFIELD);
+};
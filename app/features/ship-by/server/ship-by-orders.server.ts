@@ -0,0 +1,179 @@
+import prisma from "../../../db.server";
+import { graphqlWithRetry } from "../../../server/admin-client.server";
+import { getShippingRates } from "../../shipping/server/shipping-rates.server";
+import { toZoneKey, toZoneLabel } from "../../rules/utils/shipping-zones";
+import {
+  SHIP_BY_ORDER_PAGE_SIZE,
+  classifyShipByDate,
+  partitionCancelledOrders,
+  toShipByOrderWhere,
+  type ShipByBucket,
+  type ShipByOrderFilters,
+} from "../utils/ship-by-orders";
+import { toISODate } from "./ship-by.server";
+
+// 一覧の1行（注文の詳細は Admin API から取得し、取れなければ null）
+export type ShipByOrderRow = {
+  orderId: string;
+  shipByDate: string;
+  deliveryDate: string | null;
+  // お届け希望日がなく、注文日から数えた最短の出荷期限にした注文
+  isAsap: boolean;
+  bucket: ShipByBucket;
+  zoneLabel: string | null;
+  orderName: string | null;
+  customerName: string | null;
+  fulfillmentStatus: string | null;
+  shortfallDays: number | null;
+};
+
+export type ShipByOrderList = {
+  rows: ShipByOrderRow[];
+  total: number;
+  hasNext: boolean;
+  infeasibleCount: number;
+  zones: Array<{ zoneKey: string; label: string }>;
+  detailsAvailable: boolean;
+};
+
+type OrderDetailNode = {
+  legacyResourceId?: string | null;
+  name?: string | null;
+  displayFulfillmentStatus?: string | null;
+  cancelledAt?: string | null;
+  customer?: { displayName?: string | null } | null;
+};
+
+// 注文名・顧客名・発送状況をまとめて取得する（失敗時は null）
+const fetchOrderDetails = async (shop: string, orderIds: string[]) => {
+  if (orderIds.length === 0) return new Map<string, OrderDetailNode>();
+
+  try {
+    const response = await graphqlWithRetry(
+      shop,
+      `#graphql
+      query ShipByOrderDetails($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on Order {
+            legacyResourceId
+            name
+            displayFulfillmentStatus
+            cancelledAt
+            customer {
+              displayName
+            }
+          }
+        }
+      }`,
+      { variables: { ids: orderIds.map((id) => `gid://shopify/Order/${id}`) } },
+      { action: "ship_by_order_details" },
+    );
+    const json = (await response.json()) as {
+      data?: { nodes?: Array<OrderDetailNode | null> | null };
+      errors?: unknown;
+    };
+    if (Array.isArray(json?.errors) && json.errors.length > 0) {
+      console.warn("[ship-by-orders] order details graphql errors", json.errors);
+    }
+
+    const map = new Map<string, OrderDetailNode>();
+    (json?.data?.nodes ?? []).forEach((node) => {
+      if (node?.legacyResourceId) map.set(String(node.legacyResourceId), node);
+    });
+    return map;
+  } catch (error) {
+    console.warn(
+      "[ship-by-orders] failed to fetch order details",
+      error instanceof Error ? error.message : String(error),
+    );
+    return null;
+  }
+};
+
+// 未発送で出荷期限が注文日より前になっている（間に合わない）注文の件数
+export const countInfeasibleOrders = async (shopId: string) =>
+  prisma.shipByRecord.count({
+    where: { shopId, shortfallDays: { gt: 0 }, fulfilledAt: null, cancelledAt: null },
+  });
+
+// キャンセル済みの注文を記録し、次回から一覧・件数の対象外にする
+export const markShipByRecordCancelled = async (
+  shopId: string,
+  orderId: bigint,
+  cancelledAt: Date,
+) =>
+  prisma.shipByRecord.updateMany({
+    where: { shopId, orderId, cancelledAt: null },
+    data: { cancelledAt },
+  });
+
+// 出荷期限の近い順に ShipByRecord を取得し、注文の詳細を付けて返す
+export const listShipByOrders = async ({
+  shopId,
+  filters,
+  todayKey,
+}: {
+  shopId: string;
+  filters: ShipByOrderFilters;
+  todayKey: string;
+}): Promise<ShipByOrderList> => {
+  const rates = await getShippingRates(shopId);
+  const zoneByRateId = new Map(rates.map((rate) => [rate.shippingRateId, rate.zoneName]));
+  const zoneMap = new Map<string, string>();
+  rates.forEach((rate) => zoneMap.set(toZoneKey(rate.zoneName), toZoneLabel(rate.zoneName)));
+
+  const where = toShipByOrderWhere(shopId, filters, rates);
+
+  const [total, records, infeasibleCount] = await Promise.all([
+    prisma.shipByRecord.count({ where }),
+    prisma.shipByRecord.findMany({
+      where,
+      orderBy: [{ shipByDate: "asc" }, { orderId: "asc" }],
+      skip: (filters.page - 1) * SHIP_BY_ORDER_PAGE_SIZE,
+      take: SHIP_BY_ORDER_PAGE_SIZE,
+    }),
+    // 絞り込みに関係なく件数を出す（一覧上部の警告用）
+    countInfeasibleOrders(shopId),
+  ]);
+
+  const details = await fetchOrderDetails(
+    shopId,
+    records.map((record) => record.orderId.toString()),
+  );
+
+  const { listed, cancelled } = partitionCancelledOrders(records, details);
+  await Promise.all(
+    cancelled.map((record) => {
+      const cancelledAt = details?.get(record.orderId.toString())?.cancelledAt;
+      return markShipByRecordCancelled(shopId, record.orderId, new Date(cancelledAt as string));
+    }),
+  );
+
+  const rows = listed.map((record): ShipByOrderRow => {
+    const orderId = record.orderId.toString();
+    const shipByKey = toISODate(record.shipByDate);
+    const detail = details?.get(orderId);
+    const zoneName = record.shippingRateId ? zoneByRateId.get(record.shippingRateId) : undefined;
+    return {
+      orderId,
+      shipByDate: shipByKey,
+      deliveryDate: record.deliveryDate ? toISODate(record.deliveryDate) : null,
+      isAsap: record.isAsap,
+      bucket: classifyShipByDate(shipByKey, todayKey),
+      zoneLabel: zoneName !== undefined ? toZoneLabel(zoneName) : null,
+      orderName: detail?.name ?? null,
+      customerName: detail?.customer?.displayName ?? null,
+      fulfillmentStatus: detail?.displayFulfillmentStatus ?? null,
+      shortfallDays: record.shortfallDays,
+    };
+  });
+
+  return {
+    rows,
+    total: total - cancelled.length,
+    hasNext: filters.page * SHIP_BY_ORDER_PAGE_SIZE < total,
+    infeasibleCount,
+    zones: Array.from(zoneMap.entries()).map(([zoneKey, label]) => ({ zoneKey, label })),
+    detailsAvailable: details !== null,
+  };
+};
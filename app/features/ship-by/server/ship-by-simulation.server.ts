@@ -0,0 +1,255 @@
+import type { DeliverySource, LeadDaysMode, RuleTargetType } from "@prisma/client";
+
+import {
+  addDays,
+  calculateShipBy,
+  collectDeliveryAttempts,
+  collectShippingRateCandidates,
+  DEFAULT_DELIVERY_FORMAT,
+  detectShippingRate,
+  getLineItemTargets,
+  getRuleTier,
+  listNonWorkingDays,
+  matchShippingRateCandidate,
+  resolveOrderDate,
+  toISODate,
+  type HolidayLike,
+  type RuleLike,
+  type ShopifyOrderLike,
+  type ShopSettingLike,
+} from "./ship-by.server.js";
+import { resolvePrefecture } from "../../shipping/utils/transit-days.js";
+import { getTimeSlotAdjustment } from "../utils/time-slot.js";
+
+// シミュレーターで入力する注文の内容
+export type SimulationInput = {
+  productIds: string[];
+  shippingRate: { handle: string; title: string } | null;
+  deliveryValue: string;
+  // お届け先（都道府県のコードと郵便番号。空なら指定なし）
+  prefecture?: string;
+  zip?: string;
+};
+
+type SimulationDeliveryAttempt = {
+  source: DeliverySource;
+  key: string;
+  format: string;
+  rawValue: string | null;
+  parsed: string | null;
+  timeSlot: string | null;
+};
+
+// 計算の各段階を画面に表示できる形（日付は YYYY-MM-DD）
+export type ShipBySimulation = {
+  // source〜parsed は採用した取得元（読み取れなければ最初の取得元）、attempts は試した順の全取得元
+  delivery: {
+    source: DeliverySource | null;
+    key: string | null;
+    format: string;
+    rawValue: string | null;
+    parsed: string | null;
+    timeSlot: string | null;
+    attempts: SimulationDeliveryAttempt[];
+  };
+  orderDate: string;
+  // お届け先の都道府県（読み取れなければ null）と郵便番号
+  destination: { prefecture: string | null; zip: string | null };
+  shippingRate: {
+    candidates: Array<{ value: string; matchedRateId: string | null }>;
+    detected: string | null;
+    usedFallback: boolean;
+  };
+  rules: Array<{
+    id: string;
+    targetType: RuleTargetType;
+    targetId: string | null;
+    shippingRateIds: string[];
+    days: number;
+    // お届け時間帯による日数の増減
+    timeSlotAdjustment: number;
+    leadDaysMode: LeadDaysMode | null;
+    tier: number | null;
+    adopted: boolean;
+  }>;
+  adoptedTier: number | null;
+  // transitDays はお届け先までの配送日数（days に足してさかのぼる）
+  leadTime: {
+    days: number;
+    transitDays: number;
+    mode: LeadDaysMode;
+    usedDefaultLeadDays: boolean;
+  } | null;
+  // 最短出荷（お届け希望日がなく注文日から数えた）場合、subtraction・adjustment は前向きに進めた結果
+  asap: boolean;
+  subtraction: { from: string; to: string; skippedDays: string[] } | null;
+  adjustment: { from: string; to: string; skippedDays: string[] } | null;
+  result:
+    | { ok: true; shipBy: string; shortfallDays: number | null }
+    | { ok: false; error: string; message: string };
+};
+
+// 入力から注文の形を組み立てる。お届け希望日は設定の（最初の）取得元・キーに入れる
+export const buildSimulationOrder = (
+  input: SimulationInput,
+  shopSetting: ShopSettingLike,
+): ShopifyOrderLike => {
+  const order: ShopifyOrderLike = {
+    shipping_lines: input.shippingRate
+      ? [{ code: input.shippingRate.handle, title: input.shippingRate.title }]
+      : [],
+    line_items: input.productIds.map((productId) => ({ product_id: productId })),
+  };
+  if (input.prefecture || input.zip) {
+    order.shipping_address = {
+      country_code: "JP",
+      province: input.prefecture || null,
+      zip: input.zip || null,
+    };
+  }
+  const key = shopSetting.deliveryKey ?? "";
+
+  if (shopSetting.deliverySource === "metafield") {
+    const [namespace, metafieldKey] = key.split(".");
+    order.metafields = [{ namespace, key: metafieldKey, value: input.deliveryValue }];
+  } else if (shopSetting.deliverySource === "line_item_property") {
+    // 商品を選んでいなければ、プロパティだけの明細を作る
+    const [first, ...rest] = order.line_items?.length ? order.line_items : [{}];
+    order.line_items = [
+      { ...first, properties: [{ name: key, value: input.deliveryValue }] },
+      ...rest,
+    ];
+  } else {
+    order.attributes = [{ name: key, value: input.deliveryValue }];
+  }
+
+  return order;
+};
+
+// calculateShipBy と同じ手順を、段階ごとの途中結果つきでたどる
+export const simulateShipBy = (input: {
+  order: ShopifyOrderLike;
+  rules: RuleLike[];
+  shopSetting: ShopSettingLike;
+  holiday?: HolidayLike | null;
+  now?: Date;
+}): ShipBySimulation => {
+  const { order, rules, shopSetting, holiday } = input;
+  const calcResult = calculateShipBy(input);
+
+  const attempts = collectDeliveryAttempts(order, shopSetting, input.now).map((attempt) => ({
+    ...attempt,
+    parsed: attempt.parsed ? toISODate(attempt.parsed) : null,
+  }));
+  const shownAttempt = attempts.find((attempt) => attempt.parsed) ?? attempts[0];
+  const timeSlot = calcResult.ok ? calcResult.value.timeSlot : (shownAttempt?.timeSlot ?? null);
+
+  const shippingRateResult = detectShippingRate(order, shopSetting);
+  const detected = shippingRateResult.ok ? shippingRateResult.value : null;
+  const items = getLineItemTargets(order);
+  const ruleTiers = rules.map((rule) => (detected ? getRuleTier(rule, detected, items) : null));
+  const adoptedIds = new Set(calcResult.ok ? calcResult.value.matchedRuleIds : []);
+  const adoptedTier = rules.reduce<number | null>(
+    (tier, rule, index) => (adoptedIds.has(rule.id) ? ruleTiers[index] : tier),
+    null,
+  );
+
+  const simulation: ShipBySimulation = {
+    delivery: {
+      source: shownAttempt?.source ?? null,
+      key: shownAttempt?.key ?? null,
+      format: shownAttempt?.format ?? DEFAULT_DELIVERY_FORMAT,
+      rawValue: shownAttempt?.rawValue ?? null,
+      parsed: shownAttempt?.parsed ?? null,
+      timeSlot,
+      attempts,
+    },
+    orderDate: toISODate(resolveOrderDate(order, shopSetting, input.now)),
+    destination: {
+      prefecture: resolvePrefecture(order.shipping_address),
+      zip: order.shipping_address?.zip ?? null,
+    },
+    shippingRate: {
+      candidates: collectShippingRateCandidates(order).map((value) => ({
+        value,
+        matchedRateId: matchShippingRateCandidate(value, shopSetting),
+      })),
+      detected,
+      usedFallback: !detected && calcResult.ok,
+    },
+    rules: rules.map((rule, index) => ({
+      id: rule.id,
+      targetType: rule.targetType,
+      targetId: rule.targetId,
+      shippingRateIds: rule.shippingRateIds,
+      days: rule.days,
+      timeSlotAdjustment: getTimeSlotAdjustment(rule.timeSlotDays, timeSlot),
+      leadDaysMode: rule.leadDaysMode ?? null,
+      tier: ruleTiers[index],
+      adopted: adoptedIds.has(rule.id),
+    })),
+    adoptedTier,
+    leadTime: null,
+    asap: calcResult.ok && calcResult.value.asap,
+    subtraction: null,
+    adjustment: null,
+    result: calcResult.ok
+      ? {
+          ok: true,
+          shipBy: toISODate(calcResult.value.shipBy),
+          shortfallDays: calcResult.value.infeasible?.shortfallDays ?? null,
+        }
+      : { ok: false, error: calcResult.error, message: calcResult.message },
+  };
+
+  if (!calcResult.ok) return simulation;
+
+  const { deliveryDate, adjustedFrom, shipBy, adoptDays, transitDays, leadDaysMode, orderDate } =
+    calcResult.value;
+  simulation.leadTime = {
+    days: adoptDays,
+    transitDays,
+    mode: leadDaysMode,
+    usedDefaultLeadDays: calcResult.value.matchedRuleIds.length === 0,
+  };
+
+  if (!deliveryDate) {
+    // 最短出荷は注文日から進め、休業日なら次の営業日へ送っている
+    simulation.subtraction = {
+      from: toISODate(orderDate),
+      to: toISODate(adjustedFrom),
+      skippedDays:
+        leadDaysMode === "business"
+          ? listNonWorkingDays(addDays(orderDate, 1), addDays(adjustedFrom, 1), holiday).map(
+              toISODate,
+            )
+          : [],
+    };
+    simulation.adjustment = {
+      from: toISODate(adjustedFrom),
+      to: toISODate(shipBy),
+      skippedDays: listNonWorkingDays(adjustedFrom, shipBy, holiday).map(toISODate),
+    };
+    return simulation;
+  }
+
+  // 営業日で数える場合は、さかのぼる間の休業日を数えずに飛ばしている
+  simulation.subtraction = {
+    from: toISODate(deliveryDate),
+    to: toISODate(adjustedFrom),
+    skippedDays:
+      leadDaysMode === "business"
+        ? listNonWorkingDays(adjustedFrom, deliveryDate, holiday).map(toISODate)
+        : [],
+  };
+  // 補正では、差し引いた日から出荷期限の翌日までの休業日を飛ばしている
+  simulation.adjustment = {
+    from: toISODate(adjustedFrom),
+    to: toISODate(shipBy),
+    skippedDays: listNonWorkingDays(addDays(shipBy, 1), addDays(adjustedFrom, 1), holiday).map(
+      toISODate,
+    ),
+  };
+
+  return simulation;
+};
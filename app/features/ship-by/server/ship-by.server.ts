@@ -1,17 +1,44 @@
-import type { DeliverySource, RuleTargetType } from "@prisma/client";
+import type { DeliverySource, LeadDaysMode, RuleTargetType } from "@prisma/client";
+
+import {
+  getTransitDays,
+  resolvePrefecture,
+  type ShippingAddressLike,
+  type TransitDays,
+} from "../../shipping/utils/transit-days.js";
+import type { DeliverySourceSetting } from "../utils/delivery-sources.js";
+import { dateFromParts, isTolerantFormat, parseTolerantDate } from "../utils/japanese-date.js";
+import { getOrderDateKey, resolveTimeZone } from "../utils/shop-time.js";
+import {
+  extractTimeSlot,
+  getTimeSlotAdjustment,
+  parseTimeSlot,
+  type TimeSlotDays,
+} from "../utils/time-slot.js";
 
 type ShippingRateLike = {
   shippingRateId: string;
   handle?: string | null;
   title?: string | null;
   zoneName?: string | null;
+  // お届け先ごとの配送日数（ShippingRate.transitDays）
+  transitDays?: TransitDays | null;
 };
 
 export type ShopSettingLike = {
   deliverySource?: DeliverySource | null;
   deliveryKey?: string | null;
   deliveryFormat?: string | null;
+  // 上の取得元で読み取れなかったときに順に試す取得元
+  deliveryFallbacks?: DeliverySourceSetting[] | null;
+  // お届け時間帯のキー（お届け希望日を読み取った取得元で探す）
+  deliveryTimeSlotKey?: string | null;
+  // お届け希望日のない注文を、注文日から数えた最短の出荷期限で計算する
+  asapWhenNoDeliveryDate?: boolean | null;
   defaultLeadDays?: number | null;
+  leadDaysMode?: LeadDaysMode | null;
+  timeZone?: string | null;
+  cutoffTime?: string | null;
   shippingRates?: ShippingRateLike[] | null;
   language?: string | null;
 };
@@ -23,6 +50,8 @@ export type RuleLike = {
   targetId: string | null;
   shippingRateIds: string[];
   days: number;
+  leadDaysMode?: LeadDaysMode | null;
+  timeSlotDays?: TimeSlotDays | null;
 };
 
 export type HolidayLike = {
@@ -32,6 +61,7 @@ export type HolidayLike = {
 
 export type ShopifyOrderLike = {
   id?: string | number;
+  created_at?: string | null;
   attributes?: Array<{ name?: string | null; value?: unknown }>;
   metafields?: Array<{ namespace?: string | null; key?: string | null; value?: unknown }>;
   shipping_lines?: Array<{
@@ -41,7 +71,17 @@ export type ShopifyOrderLike = {
     shipping_rate_handle?: string | null;
     id?: string | number | null;
   }>;
-  line_items?: Array<{ product_id?: number | string | null }>;
+  line_items?: Array<{
+    product_id?: number | string | null;
+    variant_id?: number | string | null;
+    vendor?: string | null;
+    properties?: Array<{ name?: string | null; value?: unknown }> | null;
+    // 以下は計算前に商品情報から補う（attachProductTargets）
+    product_type?: string | null;
+    product_tags?: string[] | null;
+    collection_ids?: string[] | null;
+  }>;
+  shipping_address?: ShippingAddressLike | null;
 };
 
 type Ok<T> = { ok: true; value: T };
@@ -59,19 +99,29 @@ export type CalculationError =
 export type CalculationResult =
   | (Ok<{
       shipBy: Date;
-      deliveryDate: Date;
+      // 最短出荷（asap）の場合、お届け希望日と取得元は null
+      deliveryDate: Date | null;
+      deliverySource: DeliverySourceSetting | null;
+      timeSlot: string | null;
+      asap: boolean;
       adoptDays: number;
+      // お届け先までの配送日数（adoptDays に足してさかのぼる。最短出荷では 0）と、お届け先の都道府県
+      transitDays: number;
+      destination: string | null;
+      leadDaysMode: LeadDaysMode;
       shippingRateId: string;
       matchedRuleIds: string[];
       adjustedFrom: Date;
+      orderDate: Date;
+      infeasible: { shortfallDays: number } | null;
     }> & { error?: never })
   | (Err & { value?: never });
 
 const WEEKDAY_CODES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
-const DEFAULT_FORMAT = "YYYY-MM-DD";
+export const DEFAULT_DELIVERY_FORMAT = "YYYY-MM-DD";
 const WEEKDAY_TOKEN = "(?:Sun|Mon|Tue|Wed|Thu|Fri|Sat|日|月|火|水|木|金|土)";
 
-const normalizeKey = (value: string) =>
+export const normalizeKey = (value: string) =>
   value.trim().toLowerCase().replace(/[\s-]+/g, "_");
 
 const ensureArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
@@ -86,19 +136,10 @@ const buildFormatRegex = (format: string) => {
   return new RegExp(`^${pattern}$`);
 };
 
-const dateFromParts = (year: number, month: number, day: number) => {
-  const date = new Date(Date.UTC(year, month - 1, day));
-  if (
-    date.getUTCFullYear() !== year ||
-    date.getUTCMonth() !== month - 1 ||
-    date.getUTCDate() !== day
-  ) {
-    return null;
-  }
-  return date;
-};
+// 書式が auto なら書式に頼らず読み取る（年のない日付は referenceDate から年を決める）
+const parseDateWithFormat = (raw: string, format: string, referenceDate: Date) => {
+  if (isTolerantFormat(format)) return parseTolerantDate(raw, referenceDate);
 
-const parseDateWithFormat = (raw: string, format: string) => {
   const regex = buildFormatRegex(format);
   const match = regex.exec(raw.trim());
   if (!match?.groups) return null;
@@ -114,7 +155,13 @@ const parseDateWithFormat = (raw: string, format: string) => {
   return dateFromParts(year, month, day);
 };
 
-const getDeliveryValue = (
+const toDeliveryText = (value: unknown) => {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return null;
+};
+
+export const getDeliveryValue = (
   order: ShopifyOrderLike,
   source: DeliverySource,
   deliveryKey: string,
@@ -133,32 +180,81 @@ const getDeliveryValue = (
     )?.value as string | null | undefined;
   }
 
+  // 商品のプロパティは、値の入っている最初の明細のものを使う
+  if (source === "line_item_property") {
+    for (const item of order.line_items ?? []) {
+      const property = item?.properties?.find((prop) => prop?.name?.trim() === deliveryKey);
+      const value = toDeliveryText(property?.value);
+      if (value?.trim()) return value;
+    }
+    return null;
+  }
+
   const attribute = order.attributes?.find(
     (attr) => attr?.name?.trim() === deliveryKey,
   );
 
-  if (typeof attribute?.value === "string") {
-    return attribute.value;
-  }
-  if (
-    typeof attribute?.value === "number" &&
-    Number.isFinite(attribute.value)
-  ) {
-    return String(attribute.value);
-  }
+  return toDeliveryText(attribute?.value);
+};
 
-  return null;
+// 試す順に並べた取得元（設定の取得元、予備の取得元の順）
+export const resolveDeliverySources = (shopSetting: ShopSettingLike): DeliverySourceSetting[] => {
+  const primary: DeliverySourceSetting[] =
+    shopSetting.deliverySource && shopSetting.deliveryKey
+      ? [
+          {
+            source: shopSetting.deliverySource,
+            key: shopSetting.deliveryKey,
+            format: shopSetting.deliveryFormat,
+          },
+        ]
+      : [];
+  return [...primary, ...(shopSetting.deliveryFallbacks ?? [])];
+};
+
+// 取得元ごとに読み取った値（parsed は値がないか書式に一致しなければ null、timeSlot は値に含まれていた時間帯）
+export type DeliveryAttempt = {
+  source: DeliverySource;
+  key: string;
+  format: string;
+  rawValue: string | null;
+  parsed: Date | null;
+  timeSlot: string | null;
+};
+
+export const collectDeliveryAttempts = (
+  order: ShopifyOrderLike,
+  shopSetting: ShopSettingLike,
+  now?: Date,
+): DeliveryAttempt[] => {
+  const orderDate = resolveOrderDate(order, shopSetting, now);
+  return resolveDeliverySources(shopSetting).map(({ source, key, format }) => {
+    const resolvedFormat = format || DEFAULT_DELIVERY_FORMAT;
+    const rawValue = getDeliveryValue(order, source, key) || null;
+    // 「10/20 14-16時」のように時間帯が一緒に書かれていれば、日付の部分だけを読む
+    const embedded = rawValue ? extractTimeSlot(rawValue) : null;
+    const dateText = embedded?.rest ?? rawValue;
+    return {
+      source,
+      key,
+      format: resolvedFormat,
+      rawValue,
+      parsed: dateText ? parseDateWithFormat(dateText, resolvedFormat, orderDate) : null,
+      timeSlot: embedded?.timeSlot ?? null,
+    };
+  });
 };
 
+// 取得元を順に試し、最初に読み取れたお届け希望日と、その取得元を返す。
+// now は注文日時がない注文で、年のない日付の年を決めるのに使う
 export const parseDeliveryDate = (
   order: ShopifyOrderLike,
   shopSetting: ShopSettingLike,
-): Ok<Date> | Err => {
-  const source = shopSetting.deliverySource;
-  const key = shopSetting.deliveryKey;
-  const format = shopSetting.deliveryFormat || DEFAULT_FORMAT;
+  now?: Date,
+): Ok<{ date: Date; source: DeliverySourceSetting; timeSlot: string | null }> | Err => {
+  const attempts = collectDeliveryAttempts(order, shopSetting, now);
 
-  if (!source || !key) {
+  if (attempts.length === 0) {
     return {
       ok: false,
       error: "missing_setting",
@@ -166,25 +262,37 @@ export const parseDeliveryDate = (
     };
   }
 
-  const rawValue = getDeliveryValue(order, source, key);
-  if (!rawValue) {
+  const adopted = attempts.find((attempt) => attempt.parsed);
+  if (adopted?.parsed) {
+    // 時間帯のキーがあればその値を優先し、なければ日付と一緒に書かれていた時間帯を使う
+    const timeSlotKey = shopSetting.deliveryTimeSlotKey?.trim();
+    const keyedTimeSlot = timeSlotKey
+      ? parseTimeSlot(getDeliveryValue(order, adopted.source, timeSlotKey))
+      : null;
     return {
-      ok: false,
-      error: "delivery_value_not_found",
-      message: "delivery date value not found on order",
+      ok: true,
+      value: {
+        date: adopted.parsed,
+        source: { source: adopted.source, key: adopted.key, format: adopted.format },
+        timeSlot: keyedTimeSlot ?? adopted.timeSlot,
+      },
     };
   }
 
-  const parsed = parseDateWithFormat(rawValue, format);
-  if (!parsed) {
+  const found = attempts.filter((attempt) => attempt.rawValue);
+  if (found.length === 0) {
     return {
       ok: false,
-      error: "invalid_delivery_format",
-      message: `delivery date does not match format ${format}`,
+      error: "delivery_value_not_found",
+      message: "delivery date value not found on order",
     };
   }
 
-  return { ok: true, value: parsed };
+  return {
+    ok: false,
+    error: "invalid_delivery_format",
+    message: `delivery date does not match format ${found.map((attempt) => attempt.format).join(", ")}`,
+  };
 };
 
 const buildShippingRateLookup = (shippingRates: ShippingRateLike[] | null | undefined) => {
@@ -205,11 +313,8 @@ const buildShippingRateLookup = (shippingRates: ShippingRateLike[] | null | unde
   return { all };
 };
 
-export const detectShippingRate = (
-  order: ShopifyOrderLike,
-  shopSetting: ShopSettingLike,
-): Ok<string> | Err => {
-  const lookup = buildShippingRateLookup(shopSetting.shippingRates);
+// 配送ケースの照合に使う注文の値（配送方法・メタフィールド・注文属性の順）
+export const collectShippingRateCandidates = (order: ShopifyOrderLike) => {
   const candidates: string[] = [];
 
   order.shipping_lines?.forEach((line) => {
@@ -232,6 +337,21 @@ export const detectShippingRate = (
     }
   });
 
+  return candidates;
+};
+
+// 候補の値に一致する配送ケースID（なければnull）
+export const matchShippingRateCandidate = (candidate: string, shopSetting: ShopSettingLike) =>
+  buildShippingRateLookup(shopSetting.shippingRates).all.get(normalizeKey(candidate))
+    ?.shippingRateId ?? null;
+
+export const detectShippingRate = (
+  order: ShopifyOrderLike,
+  shopSetting: ShopSettingLike,
+): Ok<string> | Err => {
+  const lookup = buildShippingRateLookup(shopSetting.shippingRates);
+  const candidates = collectShippingRateCandidates(order);
+
   for (const candidate of candidates) {
     const normalized = normalizeKey(candidate);
     const canonical = lookup.all.get(normalized);
@@ -255,78 +375,164 @@ export const detectShippingRate = (
   };
 };
 
-const getProductIds = (order: ShopifyOrderLike) =>
-  (order.line_items ?? [])
-    .map((item) => (item?.product_id != null ? String(item.product_id) : null))
-    .filter((id): id is string => Boolean(id));
+// ルールの対象と突き合わせる明細の値（ID は数値部分、文字列は小文字に揃える）
+export type LineItemTarget = {
+  productId: string | null;
+  variantId: string | null;
+  vendor: string | null;
+  productType: string | null;
+  tags: string[];
+  collectionIds: string[];
+};
+
+// gid://shopify/Product/123 と 123 を同じ値として扱う
+const toResourceId = (value: unknown) => {
+  const str = String(value ?? "").trim();
+  return str.split("/").pop() ?? "";
+};
+
+const toMatchText = (value: unknown) => String(value ?? "").trim().toLowerCase();
+
+export const getLineItemTargets = (order: ShopifyOrderLike): LineItemTarget[] =>
+  (order.line_items ?? []).map((item) => ({
+    productId: item?.product_id != null ? toResourceId(item.product_id) : null,
+    variantId: item?.variant_id != null ? toResourceId(item.variant_id) : null,
+    vendor: item?.vendor ? toMatchText(item.vendor) : null,
+    productType: item?.product_type ? toMatchText(item.product_type) : null,
+    tags: (item?.product_tags ?? []).map(toMatchText).filter(Boolean),
+    collectionIds: (item?.collection_ids ?? []).map(toResourceId).filter(Boolean),
+  }));
+
+// Rule.targetId は対象の値の配列を JSON 文字列化して保存している（古いデータは単一の値）
+const parseRuleTargets = (targetId: string | null) => {
+  if (!targetId) return [];
+  try {
+    const parsed = JSON.parse(targetId);
+    if (Array.isArray(parsed)) return parsed.map((value) => String(value));
+  } catch {
+    // fall through
+  }
+  return [targetId];
+};
+
+const matchesRuleTarget = (rule: RuleLike, items: LineItemTarget[]) => {
+  const targets = parseRuleTargets(rule.targetId);
+  const ids = new Set(targets.map(toResourceId).filter(Boolean));
+  const texts = new Set(targets.map(toMatchText).filter(Boolean));
+
+  return items.some((item) => {
+    switch (rule.targetType) {
+      case "variant":
+        return item.variantId != null && ids.has(item.variantId);
+      case "product":
+        return item.productId != null && ids.has(item.productId);
+      case "collection":
+        return item.collectionIds.some((id) => ids.has(id));
+      case "tag":
+        return item.tags.some((tag) => texts.has(tag));
+      case "vendor":
+        return item.vendor != null && texts.has(item.vendor);
+      case "product_type":
+        return item.productType != null && texts.has(item.productType);
+      default:
+        return false;
+    }
+  });
+};
 
 const normalizeIdList = (value: unknown) =>
   (Array.isArray(value) ? value : []).map((v) => normalizeKey(String(v)));
 
+// 対象の絞り込みが細かい順（バリエーション → 商品 → 商品の条件 → 全商品）
+const TARGET_RANKS: Record<RuleTargetType, number> = {
+  variant: 0,
+  product: 1,
+  collection: 2,
+  tag: 2,
+  vendor: 2,
+  product_type: 2,
+  all: 3,
+};
+
+export const RULE_TIER_COUNT = 8;
+
+// ルールが一致する優先順位（1 が最優先）。一致しなければ null
+// 対象が細かいほど優先し、同じ細かさなら配送ケース指定ありを優先する
+// 1-2: バリエーション / 3-4: 商品 / 5-6: コレクション・タグ・ベンダー・商品タイプ / 7-8: 全商品
+export const getRuleTier = (
+  rule: RuleLike,
+  shippingRateId: string,
+  items: LineItemTarget[],
+): number | null => {
+  const rank = TARGET_RANKS[rule.targetType];
+  if (rank == null) return null;
+
+  const rateIds = normalizeIdList(rule.shippingRateIds);
+  const hasRateConstraint = rateIds.length > 0;
+  if (hasRateConstraint && !rateIds.includes(normalizeKey(shippingRateId))) return null;
+  if (rule.targetType !== "all" && !matchesRuleTarget(rule, items)) return null;
+
+  return rank * 2 + (hasRateConstraint ? 1 : 2);
+};
+
+// 時間帯の増減を反映したルールの日数（0日未満にはしない）
+export const getRuleDays = (rule: RuleLike, timeSlot?: string | null) =>
+  Math.max(0, rule.days + getTimeSlotAdjustment(rule.timeSlotDays, timeSlot));
+
 export const pickAdoptedRule = (
   params: {
     rules: RuleLike[];
     shippingRateId: string;
-    productIds: string[];
+    items: LineItemTarget[];
+    timeSlot?: string | null;
   },
-): Ok<{ days: number; ruleIds: string[] }> | Err => {
-  const { rules, shippingRateId, productIds } = params;
-  const normalizedProductIds = productIds.map((p) => String(p));
-
-  const matchesProduct = (rule: RuleLike) =>
-    rule.targetType === "all" ||
-    (rule.targetId ? normalizedProductIds.includes(String(rule.targetId)) : false);
-
-  const matchesShippingRate = (rule: RuleLike) => {
-    const rateIds = normalizeIdList(rule.shippingRateIds);
-    if (rateIds.length === 0) return true;
-    return rateIds.includes(normalizeKey(shippingRateId));
-  };
-
-  const hasRateConstraint = (rule: RuleLike) =>
-    normalizeIdList(rule.shippingRateIds).length > 0;
-
-  const tiers: Array<(rule: RuleLike) => boolean> = [
-    (rule) =>
-      rule.targetType === "product" &&
-      hasRateConstraint(rule) &&
-      matchesProduct(rule) &&
-      matchesShippingRate(rule),
-    (rule) =>
-      rule.targetType === "product" &&
-      !hasRateConstraint(rule) &&
-      matchesProduct(rule),
-    (rule) =>
-      rule.targetType === "all" &&
-      hasRateConstraint(rule) &&
-      matchesShippingRate(rule),
-    (rule) => rule.targetType === "all" && !hasRateConstraint(rule),
-  ];
-
-  for (const tier of tiers) {
-    const candidates = rules.filter((rule) => tier(rule));
+): Ok<{
+  days: number;
+  ruleIds: string[];
+  leadDaysMode: LeadDaysMode | null;
+  tier: number;
+}> | Err => {
+  const { rules, shippingRateId, items, timeSlot } = params;
+  const ruleTiers = rules.map((rule) => getRuleTier(rule, shippingRateId, items));
+
+  for (let tier = 1; tier <= RULE_TIER_COUNT; tier++) {
+    const candidates = rules.filter((_, index) => ruleTiers[index] === tier);
     if (candidates.length === 0) continue;
 
     let adoptDays = -Infinity;
     const matchedRuleIds: string[] = [];
+    const matchedModes = new Set<LeadDaysMode>();
     candidates.forEach((rule) => {
-      if (rule.days > adoptDays) {
-        adoptDays = rule.days;
+      if (getRuleDays(rule, timeSlot) > adoptDays) {
+        adoptDays = getRuleDays(rule, timeSlot);
       }
     });
     candidates.forEach((rule) => {
-      if (rule.days === adoptDays) {
+      if (getRuleDays(rule, timeSlot) === adoptDays) {
         matchedRuleIds.push(rule.id);
+        if (rule.leadDaysMode) matchedModes.add(rule.leadDaysMode);
       }
     });
 
-    return { ok: true, value: { days: adoptDays, ruleIds: matchedRuleIds } };
+    // 同じ日数のルールで数え方が食い違う場合は、準備期間が長くなる営業日を優先する
+    const leadDaysMode = matchedModes.has("business")
+      ? "business"
+      : matchedModes.has("calendar")
+        ? "calendar"
+        : null;
+
+    return {
+      ok: true,
+      value: { days: adoptDays, ruleIds: matchedRuleIds, leadDaysMode, tier },
+    };
   }
 
   return { ok: false, error: "no_rule", message: "no matching rule found" };
 };
 
-const addDays = (date: Date, days: number) => {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (date: Date, days: number) => {
   const result = new Date(date);
   result.setUTCDate(result.getUTCDate() + days);
   return result;
@@ -337,100 +543,359 @@ const toSet = (value: unknown) => {
   return new Set(arr);
 };
 
-export const adjustForHolidays = (
+const buildWorkingDayChecker = (holiday: HolidayLike | null | undefined) => {
+  const holidaySet = toSet(holiday?.holidays);
+  const weeklySet = new Set(
+    ensureArray(holiday?.weeklyHolidays).map((day) => String(day).toLowerCase()),
+  );
+  return (date: Date) =>
+    !holidaySet.has(toISODate(date)) &&
+    !weeklySet.has(WEEKDAY_CODES[date.getUTCDay()]);
+};
+
+// [from, to) のうち休業日（単発・曜日）にあたる日付
+export const listNonWorkingDays = (
+  from: Date,
+  to: Date,
+  holiday: HolidayLike | null | undefined,
+) => {
+  const isWorkingDay = buildWorkingDayChecker(holiday);
+  const days: Date[] = [];
+  for (let cursor = new Date(from); cursor.getTime() < to.getTime(); cursor = addDays(cursor, 1)) {
+    if (!isWorkingDay(cursor)) days.push(cursor);
+  }
+  return days;
+};
+
+const holidayNeverResolves = (): Err => ({
+  ok: false,
+  error: "holiday_never_resolves",
+  message: "could not find a working day within 1 year",
+});
+
+// 休業日なら step の向き（-1 は前、1 は後）へ営業日まで寄せる
+const rollToWorkingDay = (
   date: Date,
+  step: 1 | -1,
   holiday: HolidayLike | null | undefined,
-  ): Ok<Date> | Err => {
-    const holidaySet = toSet(holiday?.holidays);
-    const weeklySet = new Set(
-    ensureArray(holiday?.weeklyHolidays).map((day) => String(day).toLowerCase()),
-    );
+): Ok<Date> | Err => {
+  const isWorkingDay = buildWorkingDayChecker(holiday);
 
   let cursor = new Date(date);
   for (let i = 0; i < 366; i++) {
-    const iso = toISODate(cursor);
-    const isWeekly = weeklySet.has(WEEKDAY_CODES[cursor.getUTCDay()]);
-    if (!holidaySet.has(iso) && !isWeekly) {
+    if (isWorkingDay(cursor)) {
       return { ok: true, value: cursor };
     }
-    cursor = addDays(cursor, -1);
+    cursor = addDays(cursor, step);
   }
 
-  return {
-    ok: false,
-    error: "holiday_never_resolves",
-    message: "could not find a working day within 1 year",
-  };
+  return holidayNeverResolves();
 };
 
-export const calculateShipBy = (input: {
-  order: ShopifyOrderLike;
-  rules: RuleLike[];
-  shopSetting: ShopSettingLike;
-  holiday?: HolidayLike | null;
-}): CalculationResult => {
-  const deliveryResult = parseDeliveryDate(input.order, input.shopSetting);
-  if (!deliveryResult.ok) return deliveryResult;
+export const adjustForHolidays = (date: Date, holiday: HolidayLike | null | undefined) =>
+  rollToWorkingDay(date, -1, holiday);
 
-  const fallbackDays = input.shopSetting.defaultLeadDays;
-  const fallbackWithDays = (days: number, shippingRateId: string): CalculationResult => {
-    const baseShipBy = addDays(deliveryResult.value, -days);
-    const adjustedResult = adjustForHolidays(baseShipBy, input.holiday);
-    if (!adjustedResult.ok) return adjustedResult;
+// 休業日なら次の営業日へ送る（最短出荷の出荷期限に使う）
+export const rollForwardForHolidays = (date: Date, holiday: HolidayLike | null | undefined) =>
+  rollToWorkingDay(date, 1, holiday);
 
-    return {
-      ok: true,
-      value: {
-        shipBy: adjustedResult.value,
-        deliveryDate: deliveryResult.value,
-        adoptDays: days,
-        shippingRateId,
-        matchedRuleIds: [],
-        adjustedFrom: baseShipBy,
-      },
-    };
-  };
+// 休業日を数えずに営業日だけで days 日、step の向きへ進める
+const shiftBusinessDays = (
+  date: Date,
+  days: number,
+  step: 1 | -1,
+  holiday: HolidayLike | null | undefined,
+): Ok<Date> | Err => {
+  const isWorkingDay = buildWorkingDayChecker(holiday);
 
-  const shippingRateResult = detectShippingRate(input.order, input.shopSetting);
+  let cursor = new Date(date);
+  for (let counted = 0; counted < days; counted++) {
+    cursor = addDays(cursor, step);
+    let skipped = 0;
+    while (!isWorkingDay(cursor)) {
+      if (++skipped > 366) return holidayNeverResolves();
+      cursor = addDays(cursor, step);
+    }
+  }
+
+  return { ok: true, value: cursor };
+};
+
+// 休業日を数えずに営業日だけで days 日さかのぼる
+export const subtractBusinessDays = (
+  date: Date,
+  days: number,
+  holiday: HolidayLike | null | undefined,
+) => shiftBusinessDays(date, days, -1, holiday);
+
+// 休業日を数えずに営業日だけで days 日進める
+export const addBusinessDays = (
+  date: Date,
+  days: number,
+  holiday: HolidayLike | null | undefined,
+) => shiftBusinessDays(date, days, 1, holiday);
+
+const subtractLeadDays = (
+  date: Date,
+  days: number,
+  mode: LeadDaysMode,
+  holiday: HolidayLike | null | undefined,
+): Ok<Date> | Err =>
+  mode === "business"
+    ? subtractBusinessDays(date, days, holiday)
+    : { ok: true, value: addDays(date, -days) };
+
+// 注文日時を店舗のタイムゾーン・締め時刻で日付に直す（日付は UTC 0時の Date で表す）
+export const resolveOrderDate = (
+  order: ShopifyOrderLike,
+  shopSetting: ShopSettingLike,
+  now: Date = new Date(),
+) => {
+  const placedAt = order.created_at ? new Date(order.created_at) : null;
+  const base = placedAt && !Number.isNaN(placedAt.getTime()) ? placedAt : now;
+  const dateKey = getOrderDateKey(
+    base,
+    resolveTimeZone(shopSetting.timeZone),
+    shopSetting.cutoffTime,
+  );
+  return new Date(`${dateKey}T00:00:00.000Z`);
+};
+
+// 出荷期限が注文日より前なら、何日足りないかを返す（間に合う場合はnull）
+export const detectInfeasible = (shipBy: Date, orderDate: Date) => {
+  const shortfallDays = Math.round((orderDate.getTime() - shipBy.getTime()) / DAY_MS);
+  return shortfallDays > 0 ? { shortfallDays } : null;
+};
+
+type LeadTime = {
+  days: number;
+  // お届け先までの配送日数（配送ケースを特定できなければ 0）
+  transitDays: number;
+  leadDaysMode: LeadDaysMode;
+  shippingRateId: string;
+  matchedRuleIds: string[];
+};
+
+// 配送ケースに設定した、注文のお届け先までの配送日数
+const resolveTransitDays = (
+  order: ShopifyOrderLike,
+  shopSetting: ShopSettingLike,
+  shippingRateId: string,
+) => {
+  const rate = shopSetting.shippingRates?.find((entry) => entry?.shippingRateId === shippingRateId);
+  return getTransitDays(rate?.transitDays, order.shipping_address);
+};
+
+// 配送方法と商品から採用する日数・数え方を決める（ルールがなければ既定の日数）
+const resolveLeadTime = (
+  order: ShopifyOrderLike,
+  rules: RuleLike[],
+  shopSetting: ShopSettingLike,
+  timeSlot: string | null = null,
+): Ok<LeadTime> | Err => {
+  const fallbackDays = shopSetting.defaultLeadDays;
+  const shopMode = shopSetting.leadDaysMode ?? "calendar";
+  const fallback = (shippingRateId: string): Ok<LeadTime> => ({
+    ok: true,
+    value: {
+      days: fallbackDays as number,
+      transitDays: resolveTransitDays(order, shopSetting, shippingRateId),
+      leadDaysMode: shopMode,
+      shippingRateId,
+      matchedRuleIds: [],
+    },
+  });
+
+  const shippingRateResult = detectShippingRate(order, shopSetting);
   if (!shippingRateResult.ok) {
     if (fallbackDays && fallbackDays > 0) {
-      return fallbackWithDays(fallbackDays, "unknown");
+      return fallback("unknown");
     }
     return shippingRateResult;
   }
 
-  const productIds = getProductIds(input.order);
-
   const ruleResult = pickAdoptedRule({
-    rules: input.rules,
+    rules,
     shippingRateId: shippingRateResult.value,
-    productIds,
+    items: getLineItemTargets(order),
+    timeSlot,
   });
 
   if (!ruleResult.ok) {
     if (ruleResult.error === "no_rule" && fallbackDays && fallbackDays > 0) {
-      return fallbackWithDays(fallbackDays, shippingRateResult.value);
+      return fallback(shippingRateResult.value);
     }
     return ruleResult;
   }
 
-  const baseShipBy = addDays(deliveryResult.value, -ruleResult.value.days);
-  const adjustedResult = adjustForHolidays(baseShipBy, input.holiday);
-  if (!adjustedResult.ok) return adjustedResult;
-
   return {
     ok: true,
     value: {
-      shipBy: adjustedResult.value,
-      deliveryDate: deliveryResult.value,
-      adoptDays: ruleResult.value.days,
+      days: ruleResult.value.days,
+      transitDays: resolveTransitDays(order, shopSetting, shippingRateResult.value),
+      leadDaysMode: ruleResult.value.leadDaysMode ?? shopMode,
       shippingRateId: shippingRateResult.value,
       matchedRuleIds: ruleResult.value.ruleIds,
-      adjustedFrom: baseShipBy,
     },
   };
 };
 
+// お届け日から配送日数をカレンダー日でさかのぼり、さらに日数をルールの数え方でさかのぼる。
+// 配送中は店舗の休業日に関係なく進むため、配送日数は営業日モードでも休業日を読み飛ばさない。
+// 休業日なら直前の営業日へ寄せる
+const shipByForDelivery = (
+  deliveryDate: Date,
+  leadTime: LeadTime,
+  holiday: HolidayLike | null | undefined,
+): Ok<{ shipBy: Date; adjustedFrom: Date }> | Err => {
+  const baseResult = subtractLeadDays(
+    addDays(deliveryDate, -leadTime.transitDays),
+    leadTime.days,
+    leadTime.leadDaysMode,
+    holiday,
+  );
+  if (!baseResult.ok) return baseResult;
+  const adjustedResult = adjustForHolidays(baseResult.value, holiday);
+  if (!adjustedResult.ok) return adjustedResult;
+
+  return {
+    ok: true,
+    value: { shipBy: adjustedResult.value, adjustedFrom: baseResult.value },
+  };
+};
+
+// 注文日から日数を進め、休業日なら次の営業日へ送る（お届け希望日のない注文の最短出荷）
+const shipByForAsap = (
+  orderDate: Date,
+  leadTime: LeadTime,
+  holiday: HolidayLike | null | undefined,
+): Ok<{ shipBy: Date; adjustedFrom: Date }> | Err => {
+  const baseResult: Ok<Date> | Err =
+    leadTime.leadDaysMode === "business"
+      ? addBusinessDays(orderDate, leadTime.days, holiday)
+      : { ok: true, value: addDays(orderDate, leadTime.days) };
+  if (!baseResult.ok) return baseResult;
+  const adjustedResult = rollForwardForHolidays(baseResult.value, holiday);
+  if (!adjustedResult.ok) return adjustedResult;
+
+  return {
+    ok: true,
+    value: { shipBy: adjustedResult.value, adjustedFrom: baseResult.value },
+  };
+};
+
+export const calculateShipBy = (input: {
+  order: ShopifyOrderLike;
+  rules: RuleLike[];
+  shopSetting: ShopSettingLike;
+  holiday?: HolidayLike | null;
+  now?: Date;
+}): CalculationResult => {
+  const deliveryResult = parseDeliveryDate(input.order, input.shopSetting, input.now);
+  // 最短出荷が有効なら、お届け希望日の値がない注文はエラーにせず注文日から数える
+  const asap =
+    !deliveryResult.ok &&
+    deliveryResult.error === "delivery_value_not_found" &&
+    input.shopSetting.asapWhenNoDeliveryDate === true;
+  if (!deliveryResult.ok && !asap) return deliveryResult;
+  const delivery = deliveryResult.ok ? deliveryResult.value : null;
+  const orderDate = resolveOrderDate(input.order, input.shopSetting, input.now);
+
+  const leadTimeResult = resolveLeadTime(
+    input.order,
+    input.rules,
+    input.shopSetting,
+    delivery?.timeSlot ?? null,
+  );
+  if (!leadTimeResult.ok) return leadTimeResult;
+  const leadTime = leadTimeResult.value;
+
+  const shipByResult = delivery
+    ? shipByForDelivery(delivery.date, leadTime, input.holiday)
+    : shipByForAsap(orderDate, leadTime, input.holiday);
+  if (!shipByResult.ok) return shipByResult;
+
+  return {
+    ok: true,
+    value: {
+      shipBy: shipByResult.value.shipBy,
+      deliveryDate: delivery?.date ?? null,
+      deliverySource: delivery?.source ?? null,
+      timeSlot: delivery?.timeSlot ?? null,
+      asap,
+      adoptDays: leadTime.days,
+      // 最短出荷は届く日を決めないので、配送日数は使わない
+      transitDays: delivery ? leadTime.transitDays : 0,
+      destination: resolvePrefecture(input.order.shipping_address),
+      leadDaysMode: leadTime.leadDaysMode,
+      shippingRateId: leadTime.shippingRateId,
+      matchedRuleIds: leadTime.matchedRuleIds,
+      adjustedFrom: shipByResult.value.adjustedFrom,
+      orderDate,
+      infeasible: detectInfeasible(shipByResult.value.shipBy, orderDate),
+    },
+  };
+};
+
+export type EarliestDeliveryResult =
+  | (Ok<{
+      earliestDeliveryDate: Date;
+      blockedDates: Date[];
+      orderDate: Date;
+      adoptDays: number;
+      leadDaysMode: LeadDaysMode;
+      shippingRateId: string;
+      matchedRuleIds: string[];
+    }> & { error?: never })
+  | (Err & { value?: never });
+
+// 今から注文した場合に選べる最短のお届け日と、それより前の選べない日付を求める。
+// 出荷期限が注文日以降になる最初のお届け日を前向きに探す
+export const findEarliestDelivery = (input: {
+  order: ShopifyOrderLike;
+  rules: RuleLike[];
+  shopSetting: ShopSettingLike;
+  holiday?: HolidayLike | null;
+  now?: Date;
+}): EarliestDeliveryResult => {
+  const now = input.now ?? new Date();
+  const orderDate = resolveOrderDate({}, input.shopSetting, now);
+  const today = resolveOrderDate({}, { timeZone: input.shopSetting.timeZone }, now);
+
+  const leadTimeResult = resolveLeadTime(input.order, input.rules, input.shopSetting);
+  if (!leadTimeResult.ok) return leadTimeResult;
+  const leadTime = leadTimeResult.value;
+
+  // 日数分の営業日が1年分の休業日をまたいでも見つかるよう、日数＋1年まで探す
+  const totalDays = leadTime.days + leadTime.transitDays;
+  let candidate = addDays(orderDate, totalDays);
+  for (let i = 0; i <= totalDays + 366; i++) {
+    const shipByResult = shipByForDelivery(candidate, leadTime, input.holiday);
+    if (!shipByResult.ok) return shipByResult;
+    if (shipByResult.value.shipBy.getTime() >= orderDate.getTime()) {
+      const blockedDates: Date[] = [];
+      for (let date = today; date.getTime() < candidate.getTime(); date = addDays(date, 1)) {
+        blockedDates.push(date);
+      }
+      return {
+        ok: true,
+        value: {
+          earliestDeliveryDate: candidate,
+          blockedDates,
+          orderDate,
+          adoptDays: leadTime.days,
+          leadDaysMode: leadTime.leadDaysMode,
+          shippingRateId: leadTime.shippingRateId,
+          matchedRuleIds: leadTime.matchedRuleIds,
+        },
+      };
+    }
+    candidate = addDays(candidate, 1);
+  }
+
+  return holidayNeverResolves();
+};
+
 export const toISODate = (date: Date) =>
   `${date.getUTCFullYear().toString().padStart(4, "0")}-${(date
     .getUTCMonth() +
@@ -0,0 +1,44 @@
+// ストアフロント（アプリプロキシ）から受け取るカートの内容
+export type DeliveryDateQuery = {
+  productIds: string[];
+  shippingRate: string | null;
+};
+
+export type DeliveryDateQueryResult =
+  | {ok: true; value: DeliveryDateQuery}
+  | {ok: false; error: "too_many_products"; message: string};
+
+// 1 回に受け付ける商品の数（カートの商品の種類の上限の目安）。
+// 商品情報の取得は 50 件ごとに Admin API を呼ぶため、公開 API から無制限に呼ばせない
+export const DELIVERY_DATE_MAX_PRODUCT_IDS = 100;
+
+const PRODUCT_GID_PREFIX = "gid://shopify/Product/";
+
+// 商品IDは数値・GIDのどちらでも受け付け、注文の product_id と同じ数値の文字列に揃える
+const normalizeProductId = (value: string) => {
+  const trimmed = value.trim();
+  const id = trimmed.startsWith(PRODUCT_GID_PREFIX)
+    ? trimmed.slice(PRODUCT_GID_PREFIX.length)
+    : trimmed;
+  return /^\d+$/.test(id) ? id : null;
+};
+
+// product_ids=1,2 と product_id=1&product_id=2 のどちらの形でも読む（重複を除いて上限を超えたらエラー）
+export const parseDeliveryDateQuery = (params: URLSearchParams): DeliveryDateQueryResult => {
+  const rawIds = [...params.getAll("product_ids"), ...params.getAll("product_id")].flatMap(
+    (value) => value.split(","),
+  );
+  const productIds = Array.from(
+    new Set(rawIds.map(normalizeProductId).filter((id): id is string => Boolean(id))),
+  );
+  if (productIds.length > DELIVERY_DATE_MAX_PRODUCT_IDS) {
+    return {
+      ok: false,
+      error: "too_many_products",
+      message: `product_ids must contain at most ${DELIVERY_DATE_MAX_PRODUCT_IDS} products`,
+    };
+  }
+  const shippingRate = params.get("shipping_rate")?.trim() || null;
+
+  return {ok: true, value: {productIds, shippingRate}};
+};
@@ -0,0 +1,87 @@
+import type {DeliverySource} from "@prisma/client";
+
+export type {DeliverySource};
+
+// お届け希望日の取得元と、その取得元で使うキー・日付の書式（未指定なら既定の書式）
+export type DeliverySourceSetting = {
+  source: DeliverySource;
+  key: string;
+  format?: string | null;
+};
+
+export const DELIVERY_SOURCE_LABELS: Record<DeliverySource, string> = {
+  metafield: "注文メタフィールド",
+  attributes: "注文属性",
+  line_item_property: "商品のプロパティ",
+};
+
+export const DELIVERY_SOURCE_OPTIONS = (
+  Object.keys(DELIVERY_SOURCE_LABELS) as DeliverySource[]
+).map((source) => ({label: DELIVERY_SOURCE_LABELS[source], value: source}));
+
+// フォーム値を取得元へ変換し、不明な値はnullを返す
+export const parseDeliverySource = (value: unknown): DeliverySource | null => {
+  const text = String(value ?? "").trim();
+  return text in DELIVERY_SOURCE_LABELS ? (text as DeliverySource) : null;
+};
+
+// メタフィールドのキーは namespace.key の形で指定する
+export const isValidDeliveryKey = (source: DeliverySource, key: string) => {
+  if (!key.trim()) return false;
+  if (source !== "metafield") return true;
+  const [namespace, metafieldKey, ...rest] = key.trim().split(".");
+  return Boolean(namespace && metafieldKey) && rest.length === 0;
+};
+
+// ShopSetting.deliveryFallbacks（JSON）を読み取る。形の合わない項目は無視する
+export const parseDeliveryFallbacks = (value: unknown): DeliverySourceSetting[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    const record = (item ?? {}) as Record<string, unknown>;
+    const source = parseDeliverySource(record.source);
+    const key = typeof record.key === "string" ? record.key.trim() : "";
+    if (!source || !key) return [];
+    const format = typeof record.format === "string" ? record.format.trim() : "";
+    return [{source, key, format: format || null}];
+  });
+};
+
+// 設定画面から送られた予備の取得元を検証する（空の行は無視する）
+export const normalizeDeliveryFallbacks = (
+  raw: string,
+): {ok: true; value: DeliverySourceSetting[]} | {ok: false; message: string} => {
+  let rows: unknown;
+  try {
+    rows = raw.trim() ? JSON.parse(raw) : [];
+  } catch {
+    return {ok: false, message: "予備の取得元を読み取れませんでした"};
+  }
+  if (!Array.isArray(rows)) {
+    return {ok: false, message: "予備の取得元を読み取れませんでした"};
+  }
+
+  const value: DeliverySourceSetting[] = [];
+  for (const [index, row] of rows.entries()) {
+    const record = (row ?? {}) as Record<string, unknown>;
+    const key = String(record.key ?? "").trim();
+    const format = String(record.format ?? "").trim();
+    if (!key && !format) continue;
+
+    const source = parseDeliverySource(record.source);
+    if (!source) {
+      return {ok: false, message: `予備の取得元${index + 1}の取得方法を選択してください`};
+    }
+    if (!isValidDeliveryKey(source, key)) {
+      return {
+        ok: false,
+        message:
+          source === "metafield"
+            ? `予備の取得元${index + 1}のキーは namespace.key の形で入力してください`
+            : `予備の取得元${index + 1}のキーを入力してください`,
+      };
+    }
+    value.push({source, key, format: format || null});
+  }
+
+  return {ok: true, value};
+};
@@ -0,0 +1,87 @@
+// お届け希望日を書式に頼らず読み取るときの書式の値（全角数字・漢字の区切り・和暦・年なしに対応）
+export const TOLERANT_DELIVERY_FORMAT = "auto";
+
+export const isTolerantFormat = (format: string | null | undefined) =>
+  format?.trim().toLowerCase() === TOLERANT_DELIVERY_FORMAT;
+
+// 年のない日付が注文日よりこの日数以上前なら、翌年の日付とみなす
+export const YEARLESS_PAST_GRACE_DAYS = 30;
+
+// 和暦の元年の西暦（R / H は略記）
+const ERA_START_YEARS: Record<string, number> = {
+  令和: 2019,
+  R: 2019,
+  平成: 1989,
+  H: 1989,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEPARATOR = "[年./-]";
+const MONTH_SEPARATOR = "[月./-]";
+const ERA_PATTERN = new RegExp(
+  `^(令和|平成|R|H)(\\d{1,2}|元)${SEPARATOR}(\\d{1,2})${MONTH_SEPARATOR}(\\d{1,2})日?$`,
+);
+const FULL_PATTERN = new RegExp(`^(\\d{4})${SEPARATOR}(\\d{1,2})${MONTH_SEPARATOR}(\\d{1,2})日?$`);
+const COMPACT_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const YEARLESS_PATTERN = new RegExp(`^(\\d{1,2})${MONTH_SEPARATOR}(\\d{1,2})日?$`);
+
+// 存在しない日付（2月30日など）は null
+export const dateFromParts = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+};
+
+// 全角の数字・記号を半角にし、曜日と空白を取り除く
+export const normalizeDateText = (raw: string) =>
+  raw
+    .normalize("NFKC")
+    .replace(/[‐−–—ー]/g, "-")
+    .replace(/\([^)]*\)/g, "")
+    .replace(/[日月火水木金土]曜日?/g, "")
+    .replace(/\b(?:sun|mon|tue|wed|thu|fri|sat)[a-z]*\.?/gi, "")
+    .replace(/\s+/g, "")
+    .toUpperCase();
+
+// 年のない日付は注文日に近い年にする（12月の注文の「1/5」は翌年1月5日）
+const inferYear = (month: number, day: number, referenceDate: Date) => {
+  const earliest = referenceDate.getTime() - YEARLESS_PAST_GRACE_DAYS * DAY_MS;
+  const year = referenceDate.getUTCFullYear();
+  for (const candidateYear of [year, year + 1]) {
+    const candidate = dateFromParts(candidateYear, month, day);
+    if (candidate && candidate.getTime() >= earliest) return candidate;
+  }
+  return null;
+};
+
+// 書式を指定せずにお届け希望日を読み取る。referenceDate は年のない日付の年を決める注文日
+export const parseTolerantDate = (raw: string, referenceDate: Date): Date | null => {
+  const text = normalizeDateText(raw);
+  const toInt = (value: string) => Number.parseInt(value, 10);
+
+  const era = ERA_PATTERN.exec(text);
+  if (era) {
+    const eraYear = era[2] === "元" ? 1 : toInt(era[2]);
+    if (eraYear < 1) return null;
+    return dateFromParts(ERA_START_YEARS[era[1]] + eraYear - 1, toInt(era[3]), toInt(era[4]));
+  }
+
+  const full = FULL_PATTERN.exec(text) ?? COMPACT_PATTERN.exec(text);
+  if (full) {
+    return dateFromParts(toInt(full[1]), toInt(full[2]), toInt(full[3]));
+  }
+
+  const yearless = YEARLESS_PATTERN.exec(text);
+  if (yearless) {
+    return inferYear(toInt(yearless[1]), toInt(yearless[2]), referenceDate);
+  }
+
+  return null;
+};
@@ -0,0 +1,19 @@
+import type {LeadDaysMode} from "@prisma/client";
+
+export type {LeadDaysMode};
+
+// 出荷日数の数え方（カレンダー日 / 営業日）
+export const LEAD_DAYS_MODE_LABELS: Record<LeadDaysMode, string> = {
+  calendar: "カレンダー日",
+  business: "営業日",
+};
+
+export const LEAD_DAYS_MODE_OPTIONS = (Object.keys(LEAD_DAYS_MODE_LABELS) as LeadDaysMode[]).map(
+  (mode) => ({label: LEAD_DAYS_MODE_LABELS[mode], value: mode}),
+);
+
+// フォーム値を数え方へ変換し、不明な値はnullを返す
+export const parseLeadDaysMode = (value: unknown): LeadDaysMode | null => {
+  const text = String(value ?? "").trim();
+  return text === "calendar" || text === "business" ? text : null;
+};
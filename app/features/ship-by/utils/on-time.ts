@@ -0,0 +1,40 @@
+// 期限内出荷の判定と集計
+
+export type OnTimeStat = {
+  total: number;
+  onTime: number;
+  late: number;
+  // 期限内出荷率（%）。対象がなければ null
+  rate: number | null;
+};
+
+// 発送日（YYYY-MM-DD）が出荷期限以前なら期限内
+export const isShippedOnTime = (shipByKey: string, fulfilledKey: string) =>
+  fulfilledKey <= shipByKey;
+
+export const toOnTimeStat = (onTime: number, late: number): OnTimeStat => {
+  const total = onTime + late;
+  return {
+    total,
+    onTime,
+    late,
+    rate: total > 0 ? Math.round((onTime / total) * 1000) / 10 : null,
+  };
+};
+
+// グループごとに期限内・遅延を数える（グループの並びは最初に現れた順）
+export const groupOnTimeStats = (
+  entries: Array<{groupKey: string; onTime: boolean}>,
+): Map<string, OnTimeStat> => {
+  const counts = new Map<string, {onTime: number; late: number}>();
+  entries.forEach((entry) => {
+    const current = counts.get(entry.groupKey) ?? {onTime: 0, late: 0};
+    if (entry.onTime) current.onTime += 1;
+    else current.late += 1;
+    counts.set(entry.groupKey, current);
+  });
+
+  return new Map(
+    Array.from(counts.entries()).map(([key, value]) => [key, toOnTimeStat(value.onTime, value.late)]),
+  );
+};
@@ -0,0 +1,87 @@
+import {createHash} from "node:crypto";
+
+import {toLegacyId} from "./order-payload.js";
+
+// 出荷期限の計算に使う注文の入力（coerceOrder 後の形）
+type FingerprintOrder = {
+  attributes?: Array<{name?: string | null; value?: unknown}>;
+  metafields?: Array<{namespace?: string | null; key?: string | null; value?: unknown}>;
+  shipping_lines?: Array<{
+    code?: string | null;
+    title?: string | null;
+    delivery_category?: string | null;
+    shipping_rate_handle?: string | null;
+    id?: string | number | null;
+  }>;
+  line_items?: Array<{
+    product_id?: number | string | null;
+    variant_id?: number | string | null;
+    properties?: Array<{name?: string | null; value?: unknown}> | null;
+  }>;
+  shipping_address?: {
+    country_code?: string | null;
+    province?: string | null;
+    province_code?: string | null;
+    zip?: string | null;
+  } | null;
+};
+
+const toText = (value: unknown) => (value == null ? "" : String(value));
+
+// REST（数値）と再取得した GraphQL（GID）のどちらの ID でも同じ文字列にする
+const toIdText = (value: string | number | null | undefined) => toText(toLegacyId(value));
+
+// 計算の入力（注文属性・メタフィールド・配送方法・商品とそのプロパティ・お届け先）から指紋を作る。
+// 並び順や、metafieldKeys（namespace.key）にないメタフィールドの違いでは変わらない。
+export const buildOrderInputFingerprint = (
+  order: FingerprintOrder,
+  {metafieldKeys = []}: {metafieldKeys?: string[]} = {},
+): string => {
+  const included = new Set(metafieldKeys);
+
+  const attributes = (order.attributes ?? [])
+    .map((attr) => `${toText(attr?.name)}=${toText(attr?.value)}`)
+    .sort();
+  const metafields = (order.metafields ?? [])
+    .filter((mf) => included.has(`${toText(mf?.namespace)}.${toText(mf?.key)}`))
+    .map((mf) => `${toText(mf?.namespace)}.${toText(mf?.key)}=${toText(mf?.value)}`)
+    .sort();
+  const shippingLines = (order.shipping_lines ?? [])
+    .map((line) =>
+      [
+        line?.shipping_rate_handle,
+        line?.code,
+        line?.delivery_category,
+        line?.title,
+        toIdText(line?.id),
+      ]
+        .map(toText)
+        .join("|"),
+    )
+    .sort();
+  // プロパティのない明細は以前と同じ形にし、既存の指紋を変えない
+  const lineItems = (order.line_items ?? [])
+    .map((item) => {
+      const properties = (item?.properties ?? [])
+        .map((prop) => `${toText(prop?.name)}=${toText(prop?.value)}`)
+        .sort();
+      const base = `${toIdText(item?.product_id)}:${toIdText(item?.variant_id)}`;
+      return properties.length > 0 ? `${base}:${properties.join("&")}` : base;
+    })
+    .sort();
+  // お届け先のない注文も以前と同じ形にする
+  const address = order.shipping_address;
+  const inputs = address
+    ? {
+        attributes,
+        metafields,
+        shippingLines,
+        lineItems,
+        destination: [address.country_code, address.province_code, address.province, address.zip]
+          .map(toText)
+          .join("|"),
+      }
+    : {attributes, metafields, shippingLines, lineItems};
+
+  return createHash("sha256").update(JSON.stringify(inputs)).digest("hex");
+};
@@ -0,0 +1,116 @@
+// Admin GraphQL の Order を orders/create Webhook（REST）と同じ形に変換する。
+// coerceOrder / saveTags は REST の形を前提にしているため、再取得した注文もこの形に揃える。
+
+type GraphqlNodes<T> = {nodes?: Array<T | null> | null} | null | undefined;
+
+export type GraphqlOrderNode = {
+  id?: string | null;
+  legacyResourceId?: string | number | null;
+  name?: string | null;
+  createdAt?: string | null;
+  cancelledAt?: string | null;
+  tags?: string[] | null;
+  note?: string | null;
+  displayFulfillmentStatus?: string | null;
+  customAttributes?: Array<{key?: string | null; value?: string | null} | null> | null;
+  shippingAddress?: {
+    countryCodeV2?: string | null;
+    province?: string | null;
+    provinceCode?: string | null;
+    zip?: string | null;
+  } | null;
+  metafields?: GraphqlNodes<{namespace?: string | null; key?: string | null; value?: string | null}>;
+  shippingLines?: GraphqlNodes<{
+    id?: string | null;
+    code?: string | null;
+    title?: string | null;
+    source?: string | null;
+    deliveryCategory?: string | null;
+  }>;
+  lineItems?: GraphqlNodes<{
+    quantity?: number | null;
+    customAttributes?: Array<{key?: string | null; value?: string | null} | null> | null;
+    product?: {id?: string | null; legacyResourceId?: string | number | null} | null;
+    variant?: {id?: string | null; legacyResourceId?: string | number | null} | null;
+  }>;
+};
+
+// Order クエリで取得するフィールド（toOrderPayload と対応）
+export const ORDER_PAYLOAD_FIELDS = `
+  id
+  legacyResourceId
+  name
+  createdAt
+  cancelledAt
+  tags
+  note
+  displayFulfillmentStatus
+  customAttributes { key value }
+  shippingAddress { countryCodeV2 province provinceCode zip }
+  metafields(first: 50) { nodes { namespace key value } }
+  shippingLines(first: 10) { nodes { id code title source deliveryCategory } }
+  lineItems(first: 100) {
+    nodes {
+      quantity
+      customAttributes { key value }
+      product { id legacyResourceId }
+      variant { id legacyResourceId }
+    }
+  }
+`;
+
+const toNameValues = (
+  attributes: Array<{key?: string | null; value?: string | null} | null> | null | undefined,
+) =>
+  (attributes ?? [])
+    .filter((attr): attr is {key?: string | null; value?: string | null} => Boolean(attr))
+    .map((attr) => ({name: attr.key ?? null, value: attr.value ?? null}));
+
+const nodesOf = <T>(value: GraphqlNodes<T>): T[] =>
+  (value?.nodes ?? []).filter((node): node is T => Boolean(node));
+
+// 数値の ID（REST の形）に揃える。GID（gid://shopify/ShippingLine/1）は末尾の数値を使う
+export const toLegacyId = (value: string | number | null | undefined) => {
+  if (value == null) return null;
+  const str = String(value);
+  const id = /^gid:\/\/shopify\/\w+\/(\d+)(?:\?.*)?$/.exec(str)?.[1] ?? str;
+  return /^\d+$/.test(id) ? Number(id) : str;
+};
+
+export const toOrderPayload = (node: GraphqlOrderNode): Record<string, unknown> => ({
+  id: toLegacyId(node.legacyResourceId),
+  admin_graphql_api_id: node.id ?? null,
+  name: node.name ?? null,
+  created_at: node.createdAt ?? null,
+  cancelled_at: node.cancelledAt ?? null,
+  tags: node.tags ?? [],
+  note: node.note ?? null,
+  fulfillment_status: node.displayFulfillmentStatus ?? null,
+  note_attributes: toNameValues(node.customAttributes),
+  shipping_address: node.shippingAddress
+    ? {
+        country_code: node.shippingAddress.countryCodeV2 ?? null,
+        province: node.shippingAddress.province ?? null,
+        province_code: node.shippingAddress.provinceCode ?? null,
+        zip: node.shippingAddress.zip ?? null,
+      }
+    : null,
+  metafields: nodesOf(node.metafields).map((mf) => ({
+    namespace: mf.namespace ?? null,
+    key: mf.key ?? null,
+    value: mf.value ?? null,
+  })),
+  shipping_lines: nodesOf(node.shippingLines).map((line) => ({
+    id: line.id ?? null,
+    code: line.code ?? null,
+    title: line.title ?? null,
+    source: line.source ?? null,
+    delivery_category: line.deliveryCategory ?? null,
+  })),
+  line_items: nodesOf(node.lineItems).map((item) => ({
+    product_id: toLegacyId(item.product?.legacyResourceId),
+    variant_id: toLegacyId(item.variant?.legacyResourceId),
+    quantity: item.quantity ?? null,
+    properties: toNameValues(item.customAttributes),
+  })),
+});
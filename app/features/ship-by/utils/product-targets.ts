@@ -0,0 +1,75 @@
+import type {RuleTargetType} from "@prisma/client";
+
+// 商品の条件別ルールの判定に使う商品情報（ID は数値部分のみ）
+export type ProductTargets = {
+  vendor: string | null;
+  productType: string | null;
+  tags: string[];
+  collectionIds: string[];
+};
+
+// Admin GraphQL の Product から読み取るフィールド
+export type GraphqlProductTargetNode = {
+  __typename?: string;
+  legacyResourceId?: string | number | null;
+  vendor?: string | null;
+  productType?: string | null;
+  tags?: string[] | null;
+  collections?: {nodes?: Array<{legacyResourceId?: string | number | null} | null> | null} | null;
+};
+
+type LineItem = {
+  product_id?: number | string | null;
+  vendor?: string | null;
+  product_type?: string | null;
+  product_tags?: string[] | null;
+  collection_ids?: string[] | null;
+};
+
+// 注文の明細だけでは判定できず、商品情報の取得が必要なルールの対象
+const PRODUCT_TARGET_TYPES = new Set<RuleTargetType>(["collection", "tag", "vendor", "product_type"]);
+
+// 商品情報のキャッシュの有効期間
+export const PRODUCT_TARGET_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+export const needsProductTargets = (rules: Array<{targetType: RuleTargetType}>) =>
+  rules.some((rule) => PRODUCT_TARGET_TYPES.has(rule.targetType));
+
+export const isProductTargetCacheFresh = (fetchedAt: Date, now: Date) =>
+  now.getTime() - fetchedAt.getTime() < PRODUCT_TARGET_CACHE_TTL_MS;
+
+// 見つからなかった商品のキャッシュ（どの条件のルールにも一致しない）
+export const EMPTY_PRODUCT_TARGETS: ProductTargets = {
+  vendor: null,
+  productType: null,
+  tags: [],
+  collectionIds: [],
+};
+
+export const toProductTargets = (node: GraphqlProductTargetNode): ProductTargets => ({
+  vendor: node.vendor || null,
+  productType: node.productType || null,
+  tags: node.tags ?? [],
+  collectionIds: (node.collections?.nodes ?? [])
+    .map((collection) => String(collection?.legacyResourceId ?? ""))
+    .filter(Boolean),
+});
+
+// 明細に商品情報を補った注文を返す（明細に vendor があればそちらを優先）
+export const attachProductTargets = <T extends {line_items?: LineItem[]}>(
+  order: T,
+  targets: Map<string, ProductTargets>,
+): T => ({
+  ...order,
+  line_items: order.line_items?.map((item) => {
+    const found = item?.product_id != null ? targets.get(String(item.product_id)) : undefined;
+    if (!found) return item;
+    return {
+      ...item,
+      vendor: item.vendor ?? found.vendor,
+      product_type: found.productType,
+      product_tags: found.tags,
+      collection_ids: found.collectionIds,
+    };
+  }),
+});
@@ -0,0 +1,27 @@
+import {buildShipByTemplateMatcher} from "./ship-by-template.js";
+
+export const DEFAULT_NOTE_FORMAT = "出荷期限: {YYYY}-{MM}-{DD}";
+
+// 注文メモの出荷期限行を差し替える。
+// 書式に一致する既存行があれば最初の行を置き換えて残りは削除し、なければ末尾に追記する。
+export const replaceShipByNoteLine = (
+  note: string | null | undefined,
+  newLine: string,
+  format: string | null | undefined,
+): string => {
+  const matcher = buildShipByTemplateMatcher(format || DEFAULT_NOTE_FORMAT);
+  const lines = (note ?? "").split(/\r?\n/);
+  const isShipByLine = (line: string) =>
+    line.trim() === newLine || Boolean(matcher && matcher.test(line.trim()));
+
+  const firstIndex = lines.findIndex(isShipByLine);
+  if (firstIndex === -1) {
+    const body = (note ?? "").replace(/\s+$/, "");
+    return body ? `${body}\n${newLine}` : newLine;
+  }
+
+  return lines
+    .map((line, index) => (index === firstIndex ? newLine : line))
+    .filter((line, index) => index === firstIndex || !isShipByLine(line))
+    .join("\n");
+};
@@ -0,0 +1,137 @@
+import type {Prisma} from "@prisma/client";
+
+import {toZoneKey} from "../../rules/utils/shipping-zones.js";
+
+// 出荷予定一覧の1ページあたりの件数
+export const SHIP_BY_ORDER_PAGE_SIZE = 50;
+
+// 一覧の初期表示で何日前までの出荷期限を含めるか（遅延分の確認用）
+export const DEFAULT_OVERDUE_LOOKBACK_DAYS = 7;
+
+export type ShipByBucket = "overdue" | "today" | "tomorrow" | "later";
+
+export const SHIP_BY_BUCKETS: ShipByBucket[] = ["overdue", "today", "tomorrow", "later"];
+
+export const SHIP_BY_BUCKET_LABELS: Record<ShipByBucket, string> = {
+  overdue: "期限切れ",
+  today: "今日出荷",
+  tomorrow: "明日出荷",
+  later: "それ以降",
+};
+
+// 一覧の絞り込み条件（日付は YYYY-MM-DD。infeasible は間に合わない注文のみ）
+export type ShipByOrderFilters = {
+  from: string | null;
+  to: string | null;
+  zone: string | null;
+  infeasible: boolean;
+  page: number;
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const addDaysToKey = (dateKey: string, days: number) => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// 出荷期限（YYYY-MM-DD）を今日との比較で分類する
+export const classifyShipByDate = (shipByKey: string, todayKey: string): ShipByBucket => {
+  if (shipByKey < todayKey) return "overdue";
+  if (shipByKey === todayKey) return "today";
+  if (shipByKey === addDaysToKey(todayKey, 1)) return "tomorrow";
+  return "later";
+};
+
+// 一覧の検索条件。発送済み（fulfilledAt あり）とキャンセル済み（cancelledAt あり）の注文は含めない
+export const toShipByOrderWhere = (
+  shopId: string,
+  filters: ShipByOrderFilters,
+  rates: Array<{shippingRateId: string; zoneName?: string | null}>,
+): Prisma.ShipByRecordWhereInput => {
+  const where: Prisma.ShipByRecordWhereInput = {shopId, fulfilledAt: null, cancelledAt: null};
+  if (filters.from || filters.to) {
+    where.shipByDate = {
+      ...(filters.from ? {gte: new Date(`${filters.from}T00:00:00Z`)} : {}),
+      ...(filters.to ? {lte: new Date(`${filters.to}T23:59:59.999Z`)} : {}),
+    };
+  }
+  if (filters.zone) {
+    where.shippingRateId = {
+      in: rates
+        .filter((rate) => toZoneKey(rate.zoneName) === filters.zone)
+        .map((rate) => rate.shippingRateId),
+    };
+  }
+  if (filters.infeasible) {
+    where.shortfallDays = {gt: 0};
+  }
+  return where;
+};
+
+// 注文の詳細でキャンセル済みとわかった注文を一覧から外す（cancelledAt を記録する前の注文用）
+export const partitionCancelledOrders = <T extends {orderId: bigint}>(
+  records: T[],
+  details: Map<string, {cancelledAt?: string | null}> | null,
+) => {
+  const listed: T[] = [];
+  const cancelled: T[] = [];
+  records.forEach((record) => {
+    const detail = details?.get(record.orderId.toString());
+    (detail?.cancelledAt ? cancelled : listed).push(record);
+  });
+  return {listed, cancelled};
+};
+
+// URLクエリから絞り込み条件を取り出す。期間の開始が未指定なら数日前からにする
+// （間に合わない注文のみの場合は期限が過去になっているため制限しない）
+export const parseShipByOrderFilters = (
+  params: URLSearchParams,
+  todayKey: string,
+): ShipByOrderFilters => {
+  const rawFrom = params.get("from")?.trim() ?? "";
+  const rawTo = params.get("to")?.trim() ?? "";
+  const infeasible = params.get("infeasible") === "1";
+  const from = ISO_DATE_PATTERN.test(rawFrom)
+    ? rawFrom
+    : params.has("from") || infeasible
+      ? null
+      : addDaysToKey(todayKey, -DEFAULT_OVERDUE_LOOKBACK_DAYS);
+  const to = ISO_DATE_PATTERN.test(rawTo) ? rawTo : null;
+  const zone = params.get("zone")?.trim() || null;
+  const rawPage = Number.parseInt(params.get("page") ?? "", 10);
+  const page = Number.isFinite(rawPage) && rawPage > 0 ? rawPage : 1;
+
+  return {from, to, zone, infeasible, page};
+};
+
+// 絞り込み条件をURLクエリに戻す（開始日を空にした場合は from= を残して「指定なし」を表す）
+export const toShipByOrderSearch = (
+  filters: Partial<ShipByOrderFilters>,
+  host?: string | null,
+): string => {
+  const params = new URLSearchParams();
+  if (host) params.set("host", host);
+  if (filters.from !== undefined) params.set("from", filters.from ?? "");
+  if (filters.to) params.set("to", filters.to);
+  if (filters.zone) params.set("zone", filters.zone);
+  if (filters.infeasible) params.set("infeasible", "1");
+  if (filters.page && filters.page > 1) params.set("page", String(filters.page));
+  const search = params.toString();
+  return search ? `?${search}` : "";
+};
+
+// 指定タイムゾーンでの日付キー（YYYY-MM-DD）。タイムゾーンが不正なら UTC で返す
+export const toDateKeyInTimeZone = (date: Date, timeZone: string) => {
+  try {
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+};
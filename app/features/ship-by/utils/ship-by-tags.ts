@@ -0,0 +1,38 @@
+import {buildShipByTemplateMatcher} from "./ship-by-template.js";
+
+export const DEFAULT_TAG_FORMAT = "ship-by-{YYYY}-{MM}-{DD}";
+
+// 出荷期限が注文日より前になった（間に合わない）注文に付けるタグ
+export const INFEASIBLE_TAG = "ship-by-infeasible";
+
+// お届け希望日がなく、注文日から数えた最短の出荷期限にした注文に付けるタグ
+export const ASAP_TAG = "ship-by-asap";
+
+// 書式から「このアプリが付けた出荷期限タグ」を判定する正規表現を作る（未設定なら既定の書式）
+export const buildShipByTagMatcher = (format: string | null | undefined): RegExp | null =>
+  buildShipByTemplateMatcher(format || DEFAULT_TAG_FORMAT);
+
+// 既存タグから古い出荷期限タグを取り除き、新しいタグを1つだけ付ける
+export const replaceShipByTag = (
+  tags: string[],
+  newTag: string,
+  format: string | null | undefined,
+): string[] => {
+  const matcher = buildShipByTagMatcher(format);
+  const kept = tags.filter((tag) => tag !== newTag && !(matcher && matcher.test(tag)));
+  return [...kept, newTag];
+};
+
+// 目印のタグを条件に合えば1つだけ付け、合わなければ外す
+const toggleTag = (tags: string[], tag: string, enabled: boolean): string[] => {
+  const kept = tags.filter((current) => current !== tag);
+  return enabled ? [...kept, tag] : kept;
+};
+
+// 間に合わない注文には警告タグを付け、解消したら外す
+export const applyInfeasibleTag = (tags: string[], infeasible: boolean): string[] =>
+  toggleTag(tags, INFEASIBLE_TAG, infeasible);
+
+// 最短出荷の注文には目印のタグを付け、お届け希望日が入ったら外す
+export const applyAsapTag = (tags: string[], asap: boolean): string[] =>
+  toggleTag(tags, ASAP_TAG, asap);
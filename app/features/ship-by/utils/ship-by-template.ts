@@ -0,0 +1,46 @@
+// 出荷期限の書式（{YYYY}/{MM}/{DD}、お届け時間帯の {SLOT}）を扱うユーティリティ。タグとメモで共通
+
+const TOKEN_PATTERN = /\{YYYY\}|\{MM\}|\{DD\}|\{SLOT\}/g;
+
+const TOKEN_REGEX_PARTS: Record<string, string> = {
+  "{YYYY}": "\\d{4}",
+  "{MM}": "\\d{2}",
+  "{DD}": "\\d{2}",
+  "{SLOT}": ".*?",
+};
+
+// 書式のトークンを日付（YYYY-MM-DD）と時間帯で置き換える。時間帯がなければ {SLOT} は空にする
+export const formatShipByTemplate = (
+  template: string,
+  isoDate: string,
+  options: {timeSlot?: string | null} = {},
+) => {
+  const [YYYY, MM, DD] = isoDate.split("-");
+  const table: Record<string, string> = {
+    "{YYYY}": YYYY,
+    "{MM}": MM,
+    "{DD}": DD,
+    "{SLOT}": options.timeSlot ?? "",
+  };
+  const formatted = template.replace(TOKEN_PATTERN, (token) => table[token] ?? token);
+  return template.includes("{SLOT}") ? formatted.trim() : formatted;
+};
+
+// 書式どおりに出力された文字列（日付・時間帯は任意）に一致する正規表現を作る。
+// 日付トークンを含まない書式は他の文字列と区別できないため null を返す。
+export const buildShipByTemplateMatcher = (template: string): RegExp | null => {
+  const trimmed = template.trim();
+  if (!/\{YYYY\}|\{MM\}|\{DD\}/.test(trimmed)) return null;
+
+  // {SLOT} が空だと前後の空白が詰まるため、空白はなくても一致させる
+  const hasSlot = trimmed.includes("{SLOT}");
+  const pattern = trimmed
+    .split(/(\{YYYY\}|\{MM\}|\{DD\}|\{SLOT\})/)
+    .map((part) => {
+      if (TOKEN_REGEX_PARTS[part]) return TOKEN_REGEX_PARTS[part];
+      const escaped = part.replace(/[-/\\^$*+?.()|[\]{}]/g, "\\$&");
+      return hasSlot ? escaped.replace(/\s+/g, "\\s*") : escaped;
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`, "i");
+};
@@ -0,0 +1,70 @@
+import type {DeliverySource, LeadDaysMode} from "@prisma/client";
+
+import type {DeliverySourceSetting} from "./delivery-sources.js";
+
+// 出荷期限をどう決めたか（注文メタフィールド shipping.ship_by_trace に JSON で保存する）
+export type ShipByTrace = {
+  shipBy: string;
+  // 最短出荷（asap）の場合、お届け希望日と取得元・キーは null
+  deliveryDate: string | null;
+  // お届け希望日を読み取った取得元とキー
+  deliverySource: DeliverySource | null;
+  deliveryKey: string | null;
+  asap: boolean;
+  // お届け時間帯（指定がなければ null）
+  timeSlot: string | null;
+  orderDate: string;
+  adoptDays: number;
+  // お届け先までの配送日数（adoptDays に足してさかのぼった日数）と、お届け先の都道府県
+  transitDays: number;
+  destination: string | null;
+  leadDaysMode: LeadDaysMode;
+  shippingRateId: string | null;
+  matchedRuleIds: string[];
+  usedDefaultLeadDays: boolean;
+  adjustedFrom: string;
+  holidayShifted: boolean;
+  shortfallDays: number | null;
+};
+
+type TraceSource = {
+  shipBy: Date;
+  deliveryDate: Date | null;
+  deliverySource: DeliverySourceSetting | null;
+  timeSlot: string | null;
+  asap: boolean;
+  orderDate: Date;
+  adoptDays: number;
+  transitDays: number;
+  destination: string | null;
+  leadDaysMode: LeadDaysMode;
+  shippingRateId: string;
+  matchedRuleIds: string[];
+  adjustedFrom: Date;
+  infeasible: {shortfallDays: number} | null;
+};
+
+// 日付のみの値は UTC 0時で表しているため、UTC の日付をそのまま使う
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// calculateShipBy の結果を、管理画面で表示できる形に変換する
+export const buildShipByTrace = (value: TraceSource): ShipByTrace => ({
+  shipBy: toDateKey(value.shipBy),
+  deliveryDate: value.deliveryDate ? toDateKey(value.deliveryDate) : null,
+  deliverySource: value.deliverySource?.source ?? null,
+  deliveryKey: value.deliverySource?.key ?? null,
+  asap: value.asap,
+  timeSlot: value.timeSlot,
+  orderDate: toDateKey(value.orderDate),
+  adoptDays: value.adoptDays,
+  transitDays: value.transitDays,
+  destination: value.destination,
+  leadDaysMode: value.leadDaysMode,
+  // 配送ケースを特定できずフォールバックした場合は "unknown" になる
+  shippingRateId: value.shippingRateId === "unknown" ? null : value.shippingRateId,
+  matchedRuleIds: value.matchedRuleIds,
+  usedDefaultLeadDays: value.matchedRuleIds.length === 0,
+  adjustedFrom: toDateKey(value.adjustedFrom),
+  holidayShifted: value.adjustedFrom.getTime() !== value.shipBy.getTime(),
+  shortfallDays: value.infeasible?.shortfallDays ?? null,
+});
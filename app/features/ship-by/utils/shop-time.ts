@@ -0,0 +1,71 @@
+// 店舗のタイムゾーンが未設定・不正なときに使う既定値
+export const DEFAULT_TIME_ZONE = "Asia/Tokyo";
+
+// IANA タイムゾーン名として解釈できるか
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || !value.trim()) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", {timeZone: value.trim()});
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const resolveTimeZone = (value: string | null | undefined) =>
+  isValidTimeZone(value) ? value.trim() : DEFAULT_TIME_ZONE;
+
+// 締め時刻（HH:MM）を正規化し、不正ならnullを返す
+export const parseCutoffTime = (value: unknown): string | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? "").trim());
+  if (!match) return null;
+  const hour = Number.parseInt(match[1], 10);
+  const minute = Number.parseInt(match[2], 10);
+  if (hour > 23 || minute > 59) return null;
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+};
+
+const toMinutes = (cutoffTime: string) => {
+  const [hour, minute] = cutoffTime.split(":").map((part) => Number.parseInt(part, 10));
+  return hour * 60 + minute;
+};
+
+// 指定タイムゾーンでの日付キー（YYYY-MM-DD）と0時からの経過分
+export const getLocalDateTime = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(timeZone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "00";
+
+  return {
+    dateKey: `${get("year")}-${get("month")}-${get("day")}`,
+    minutes: Number.parseInt(get("hour"), 10) * 60 + Number.parseInt(get("minute"), 10),
+  };
+};
+
+const addDaysToKey = (dateKey: string, days: number) => {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// 店舗の現地時刻で見た注文日。締め時刻以降の注文は翌日扱いにする
+export const getOrderDateKey = (
+  placedAt: Date,
+  timeZone: string,
+  cutoffTime?: string | null,
+) => {
+  const {dateKey, minutes} = getLocalDateTime(placedAt, timeZone);
+  const cutoff = parseCutoffTime(cutoffTime);
+  if (cutoff && minutes >= toMinutes(cutoff)) {
+    return addDaysToKey(dateKey, 1);
+  }
+  return dateKey;
+};
@@ -0,0 +1,89 @@
+// お届け時間帯（"午前中" または "14-16" のような開始-終了の時）を扱うユーティリティ
+export const MORNING_TIME_SLOT = "午前中";
+
+// ルールごとの時間帯別の日数の増減（例: {"午前中": 1, "19-21": -1}）
+export type TimeSlotDays = Record<string, number>;
+
+const RANGE_SEPARATOR = "[-~〜～]";
+const normalizeSlotText = (raw: string) =>
+  raw.normalize("NFKC").replace(/[‐−–—ー]/g, "-").replace(/\s+/g, "");
+
+// 日付と一緒に書かれた時間帯（「14-16時」「14:00～16:00」「午前中」）。日付の「10-20」と区別するため時刻の表記を必須にする
+const EMBEDDED_SLOT_PATTERN = new RegExp(
+  `午前中?|(\\d{1,2})(?::00|時)?${RANGE_SEPARATOR}(\\d{1,2})(?::00|時)`,
+);
+// 時間帯だけが書かれた値（「14-16」も読む）
+const SLOT_PATTERN = new RegExp(
+  `^(?:午前中?|(\\d{1,2})(?::00|時)?${RANGE_SEPARATOR}(\\d{1,2})(?::00|時)?)$`,
+);
+
+const toSlot = (match: RegExpExecArray) => {
+  if (!match[1]) return MORNING_TIME_SLOT;
+  const start = Number.parseInt(match[1], 10);
+  const end = Number.parseInt(match[2], 10);
+  if (start > 24 || end > 24 || start >= end) return null;
+  return `${start}-${end}`;
+};
+
+// 時間帯だけが書かれた値を読む（「指定なし」など読めない値は null）
+export const parseTimeSlot = (raw: unknown): string | null => {
+  if (typeof raw !== "string") return null;
+  const match = SLOT_PATTERN.exec(normalizeSlotText(raw));
+  return match ? toSlot(match) : null;
+};
+
+// 日付の値に含まれる時間帯を取り出し、残りの文字列（日付部分）と一緒に返す
+export const extractTimeSlot = (raw: string): {timeSlot: string; rest: string} | null => {
+  const text = raw.normalize("NFKC").replace(/[‐−–—]/g, "-");
+  const match = EMBEDDED_SLOT_PATTERN.exec(text);
+  if (!match) return null;
+  const timeSlot = toSlot(match);
+  if (!timeSlot) return null;
+  const rest = `${text.slice(0, match.index)}${text.slice(match.index + match[0].length)}`
+    .replace(/\s+/g, " ")
+    .trim();
+  return {timeSlot, rest};
+};
+
+// 時間帯に対するルールの日数の増減（指定がなければ 0）
+export const getTimeSlotAdjustment = (
+  timeSlotDays: TimeSlotDays | null | undefined,
+  timeSlot: string | null | undefined,
+) => (timeSlot ? (timeSlotDays?.[timeSlot] ?? 0) : 0);
+
+// Rule.timeSlotDays（JSON）を読み取る。形の合わない項目は無視する
+export const parseTimeSlotDays = (value: unknown): TimeSlotDays => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const result: TimeSlotDays = {};
+  Object.entries(value as Record<string, unknown>).forEach(([slot, days]) => {
+    const normalized = parseTimeSlot(slot);
+    if (normalized && typeof days === "number" && Number.isInteger(days) && days !== 0) {
+      result[normalized] = days;
+    }
+  });
+  return result;
+};
+
+// 画面の入力用の文字列（例: "午前中:+1, 19-21:-1"）
+export const formatTimeSlotDays = (timeSlotDays: TimeSlotDays | null | undefined) =>
+  Object.entries(timeSlotDays ?? {})
+    .map(([slot, days]) => `${slot}:${days > 0 ? "+" : ""}${days}`)
+    .join(", ");
+
+// 画面で入力した「時間帯:日数」の並びを読み取る（空なら増減なし）
+export const parseTimeSlotDaysText = (
+  text: string,
+): {ok: true; value: TimeSlotDays} | {ok: false} => {
+  const value: TimeSlotDays = {};
+  const entries = normalizeSlotText(text)
+    .split(/[,、]/)
+    .filter(Boolean);
+  for (const entry of entries) {
+    const match = /^(.+)[:：]([+-]?\d+)日?$/.exec(entry);
+    const slot = match ? parseTimeSlot(match[1]) : null;
+    if (!match || !slot) return {ok: false};
+    const days = Number.parseInt(match[2], 10);
+    if (days !== 0) value[slot] = days;
+  }
+  return {ok: true, value};
+};
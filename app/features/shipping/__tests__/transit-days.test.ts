@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  formatPostalPrefixDays,
+  formatPrefectureDays,
+  getTransitDays,
+  parsePostalPrefixDaysText,
+  parsePrefectureDaysText,
+  parseTransitDays,
+  resolvePrefecture,
+} from "../utils/transit-days.js";
+
+const transitDays = {
+  prefectures: {hokkaido: 2, okinawa: 3},
+  postalPrefixes: {"90": 4, "9071": 5, "0600": 0},
+};
+
+test("resolvePrefecture: province_code を優先し、なければ都道府県名で照合する", () => {
+  assert.equal(resolvePrefecture({province_code: "JP-13", province: "Osaka"}), "tokyo");
+  assert.equal(resolvePrefecture({province: "東京都"}), "tokyo");
+  assert.equal(resolvePrefecture({province: "京都"}), "kyoto");
+  assert.equal(resolvePrefecture({province: "Hyōgo"}), "hyogo");
+  assert.equal(resolvePrefecture({country_code: "US", province_code: "JP-13"}), null);
+  assert.equal(resolvePrefecture({province: "California"}), null);
+});
+
+test("getTransitDays: 郵便番号の長く一致した先頭 → 都道府県 → 0 の順に使う", () => {
+  assert.equal(getTransitDays(transitDays, {province_code: "JP-47", zip: "907-1101"}), 5);
+  assert.equal(getTransitDays(transitDays, {province_code: "JP-47", zip: "９０２－００６１"}), 4);
+  assert.equal(getTransitDays(transitDays, {province_code: "JP-01", zip: "060-0001"}), 0);
+  assert.equal(getTransitDays(transitDays, {province_code: "JP-01", zip: "040-0001"}), 2);
+  assert.equal(getTransitDays(transitDays, {province_code: "JP-13"}), 0);
+  assert.equal(getTransitDays(transitDays, {country_code: "US", zip: "90210"}), 0);
+  assert.equal(getTransitDays(null, {province_code: "JP-01"}), 0);
+});
+
+test("parseTransitDays: 形の合わない項目は無視する", () => {
+  assert.deepEqual(
+    parseTransitDays({
+      prefectures: {北海道: 2, tokyo: 0, unknown: 1, okinawa: 1.5},
+      postalPrefixes: {"907": 3, "100-": 1, "0600": 0},
+    }),
+    {prefectures: {hokkaido: 2}, postalPrefixes: {"907": 3, "0600": 0}},
+  );
+  assert.deepEqual(parseTransitDays(null), {prefectures: {}, postalPrefixes: {}});
+});
+
+test("parsePrefectureDaysText / parsePostalPrefixDaysText: 入力用の文字列と相互に変換する", () => {
+  const prefectures = parsePrefectureDaysText("沖縄:3、 北海道：2日, 東京都:0");
+  assert.deepEqual(prefectures, {ok: true, value: {okinawa: 3, hokkaido: 2}});
+  const postal = parsePostalPrefixDaysText("〒907:4, 100-1:0");
+  assert.deepEqual(postal, {ok: true, value: {"907": 4, "1001": 0}});
+
+  if (!prefectures.ok || !postal.ok) return;
+  const parsed = {prefectures: prefectures.value, postalPrefixes: postal.value};
+  assert.equal(formatPrefectureDays(parsed), "北海道:2, 沖縄県:3");
+  assert.equal(formatPostalPrefixDays(parsed), "907:4, 1001:0");
+
+  assert.deepEqual(parsePrefectureDaysText("ハワイ:3"), {ok: false});
+  assert.deepEqual(parsePrefectureDaysText("北海道:-1"), {ok: false});
+  assert.deepEqual(parsePostalPrefixDaysText("abc:1"), {ok: false});
+});
@@ -0,0 +1,156 @@
+import prefectureGroups from "../../../prefectures.json" with {type: "json"};
+
+// 都道府県（JIS コード順。Shopify の province_code "JP-13" は 13 番目の東京都）
+export const PREFECTURES = prefectureGroups.flatMap((group) => group.items);
+
+// 配送ケースごとのお届け先までの配送日数。postalPrefixes は離島などを郵便番号の先頭の数字で上書きする
+export type TransitDays = {
+  prefectures: Record<string, number>;
+  postalPrefixes: Record<string, number>;
+};
+
+// 注文のお届け先（coerceOrder 後の shipping_address）
+export type ShippingAddressLike = {
+  country_code?: string | null;
+  province?: string | null;
+  province_code?: string | null;
+  zip?: string | null;
+};
+
+const POSTAL_PREFIX_PATTERN = /^\d{1,7}$/;
+
+// 「東京都」「東京」「tokyo」「Hyōgo」のどれでも同じ都道府県として照合する
+const toLookupKey = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase();
+
+const PREFECTURE_LOOKUP = new Map(
+  PREFECTURES.flatMap((prefecture) =>
+    [prefecture.code, prefecture.label, prefecture.label.replace(/[都府県]$/, "")].map(
+      (key) => [toLookupKey(key), prefecture.code] as const,
+    ),
+  ),
+);
+
+export const PREFECTURE_LABELS: Record<string, string> = Object.fromEntries(
+  PREFECTURES.map((prefecture) => [prefecture.code, prefecture.label]),
+);
+
+// 都道府県名・コードを都道府県のコードにする（日本以外や読めない値は null）
+export const parsePrefecture = (value: unknown): string | null => {
+  if (typeof value !== "string" || !value.trim()) return null;
+  return PREFECTURE_LOOKUP.get(toLookupKey(value)) ?? null;
+};
+
+// お届け先の都道府県（province_code を優先し、なければ province の名前で照合する）
+export const resolvePrefecture = (address: ShippingAddressLike | null | undefined) => {
+  if (!address) return null;
+  const country = address.country_code?.trim().toUpperCase();
+  if (country && country !== "JP") return null;
+
+  const code = /^(?:JP-)?(\d{1,2})$/i.exec(address.province_code?.trim() ?? "");
+  if (code) {
+    return PREFECTURES[Number.parseInt(code[1], 10) - 1]?.code ?? null;
+  }
+  return parsePrefecture(address.province);
+};
+
+const toPostalDigits = (zip: string | null | undefined) =>
+  (zip ?? "").normalize("NFKC").replace(/\D/g, "");
+
+// お届け先までの配送日数（郵便番号の最も長く一致した先頭の数字 → 都道府県 → 0 の順）
+export const getTransitDays = (
+  transitDays: TransitDays | null | undefined,
+  address: ShippingAddressLike | null | undefined,
+) => {
+  if (!transitDays || !address) return 0;
+  const country = address.country_code?.trim().toUpperCase();
+  if (country && country !== "JP") return 0;
+
+  const digits = toPostalDigits(address.zip);
+  const postalMatch = Object.keys(transitDays.postalPrefixes)
+    .filter((prefix) => digits.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (digits && postalMatch) return transitDays.postalPrefixes[postalMatch];
+
+  const prefecture = resolvePrefecture(address);
+  return prefecture ? (transitDays.prefectures[prefecture] ?? 0) : 0;
+};
+
+const isDays = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+// ShippingRate.transitDays（JSON）を読み取る。形の合わない項目は無視する
+export const parseTransitDays = (value: unknown): TransitDays => {
+  const record = (value && typeof value === "object" && !Array.isArray(value) ? value : {}) as
+    Record<string, unknown>;
+  const prefectures: Record<string, number> = {};
+  const postalPrefixes: Record<string, number> = {};
+
+  Object.entries((record.prefectures ?? {}) as Record<string, unknown>).forEach(([key, days]) => {
+    const prefecture = parsePrefecture(key);
+    if (prefecture && isDays(days) && days > 0) prefectures[prefecture] = days;
+  });
+  Object.entries((record.postalPrefixes ?? {}) as Record<string, unknown>).forEach(
+    ([prefix, days]) => {
+      // 郵便番号の上書きは 0 日（都道府県の日数を打ち消す）も残す
+      if (POSTAL_PREFIX_PATTERN.test(prefix) && isDays(days)) postalPrefixes[prefix] = days;
+    },
+  );
+
+  return {prefectures, postalPrefixes};
+};
+
+// 画面の入力用の文字列（例: "北海道:2, 沖縄県:3"）。都道府県は JIS コード順に並べる
+export const formatPrefectureDays = (transitDays: TransitDays | null | undefined) =>
+  PREFECTURES.filter((prefecture) => transitDays?.prefectures[prefecture.code] != null)
+    .map((prefecture) => `${prefecture.label}:${transitDays?.prefectures[prefecture.code]}`)
+    .join(", ");
+
+// 画面の入力用の文字列（例: "907:3, 1001:2"）
+export const formatPostalPrefixDays = (transitDays: TransitDays | null | undefined) =>
+  Object.entries(transitDays?.postalPrefixes ?? {})
+    .map(([prefix, days]) => `${prefix}:${days}`)
+    .join(", ");
+
+// 「名前:日数」の並びを読み取る（空なら日数の指定なし）
+const parseDaysEntries = (
+  text: string,
+  parseKey: (raw: string) => string | null,
+): {ok: true; value: Record<string, number>} | {ok: false} => {
+  const value: Record<string, number> = {};
+  const entries = text
+    .normalize("NFKC")
+    .replace(/\s+/g, "")
+    .split(/[,、]/)
+    .filter(Boolean);
+  for (const entry of entries) {
+    const match = /^(.+)[:：](\d+)日?$/.exec(entry);
+    const key = match ? parseKey(match[1]) : null;
+    if (!match || !key) return {ok: false};
+    value[key] = Number.parseInt(match[2], 10);
+  }
+  return {ok: true, value};
+};
+
+// 画面で入力した「都道府県:日数」の並びを読み取る（0 日の都道府県は指定なしと同じ）
+export const parsePrefectureDaysText = (
+  text: string,
+): {ok: true; value: Record<string, number>} | {ok: false} => {
+  const result = parseDaysEntries(text, parsePrefecture);
+  if (!result.ok) return result;
+  return {
+    ok: true,
+    value: Object.fromEntries(Object.entries(result.value).filter(([, days]) => days > 0)),
+  };
+};
+
+// 画面で入力した「郵便番号の先頭:日数」の並びを読み取る（〒やハイフンは無視する）
+export const parsePostalPrefixDaysText = (text: string) =>
+  parseDaysEntries(text, (raw) => {
+    const prefix = raw.replace(/^〒/, "").replace(/-/g, "");
+    return POSTAL_PREFIX_PATTERN.test(prefix) ? prefix : null;
+  });
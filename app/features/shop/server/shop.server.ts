@@ -1,6 +1,8 @@
 import type { Session } from "@shopify/shopify-api";
 
 import prisma from "../../../db.server";
+import { graphqlWithRetry } from "../../../server/admin-client.server";
+import { isValidTimeZone } from "../../ship-by/utils/shop-time";
 
 // Prisma client in this environment lacks generated Shop types; cast for now.
 type ShopDelegate = {
@@ -22,6 +24,7 @@ export async function upsertShopFromSession(session: Session) {
       accessToken: session.accessToken,
       scope: session.scope,
       uninstalledAt: null,
+      dataPurgedAt: null,
     },
     create: {
       id: shopDomain,
@@ -65,3 +68,47 @@ export async function updateShopScope(
     },
   });
 }
+
+// Shopify のストア設定のタイムゾーンを、未設定の場合だけ ShopSetting へ取り込む
+export async function syncShopTimeZone(shopDomain: string) {
+  const existing = await prisma.shopSetting.findUnique({
+    where: { shopId: shopDomain },
+    select: { timezone: true },
+  });
+  if (existing?.timezone) return;
+
+  const response = await graphqlWithRetry(
+    shopDomain,
+    `#graphql
+    query ShopTimeZone {
+      shop {
+        ianaTimezone
+      }
+    }`,
+    undefined,
+    { action: "shop_timezone" },
+  );
+  if (!response.ok) {
+    throw new Error(`shop timezone query failed: ${response.status} ${response.statusText}`);
+  }
+
+  const payload = await response.json();
+  const timezone = payload?.data?.shop?.ianaTimezone;
+  if (!isValidTimeZone(timezone)) return;
+
+  await prisma.shopSetting.upsert({
+    where: { shopId: shopDomain },
+    create: { shopId: shopDomain, timezone },
+    update: { timezone },
+  });
+}
+
+// 出荷期限の計算に影響する設定（基本設定・ルール・休業日）を保存したら版を上げる。
+// ShipByRecord.settingsVersion と突き合わせて、どの設定で計算したかを追えるようにする
+export async function bumpSettingsVersion(shopDomain: string) {
+  await prisma.shopSetting.upsert({
+    where: { shopId: shopDomain },
+    create: { shopId: shopDomain },
+    update: { settingsVersion: { increment: 1 } },
+  });
+}
@@ -2,6 +2,7 @@ import {useState} from "react";
 import type {HeadersFunction, LoaderFunctionArgs} from "react-router";
 import {useLoaderData} from "react-router";
 import {
+  Badge,
   BlockStack,
   Button,
   Card,
@@ -18,17 +19,25 @@ import {boundary} from "@shopify/shopify-app-react-router/server";
 import {AsyncCheckButton} from "../shared/components/AsyncCheckButton";
 import {ShipByAnalytics} from "../features/ship-by/components/ShipByAnalytics";
 import {getShipBySummary} from "../features/ship-by/server/ship-by-analytics.server";
+import {countUnresolvedErrors} from "../features/error-logs/server/error-logs.server";
+import {countInfeasibleOrders} from "../features/ship-by/server/ship-by-orders.server";
+import {resolveTimeZone} from "../features/ship-by/utils/shop-time";
 
 export const loader = async ({request}: LoaderFunctionArgs) => {
   const {session} = await authenticate.admin(request);
   const setting = await prisma.shopSetting.findUnique({
     where: {shopId: session.shop},
-    select: {defaultLeadDays: true, deliverySource: true, deliveryKey: true},
+    select: {defaultLeadDays: true, deliverySource: true, deliveryKey: true, timezone: true},
   });
   const ruleCount = await prisma.rule.count({
     where: {shopId: session.shop},
   });
-  const shipBySummary = await getShipBySummary({shopId: session.shop});
+  const shipBySummary = await getShipBySummary({
+    shopId: session.shop,
+    timeZone: resolveTimeZone(setting?.timezone),
+  });
+  const unresolvedErrorCount = await countUnresolvedErrors(session.shop);
+  const infeasibleOrderCount = await countInfeasibleOrders(session.shop);
 
   return {
     defaultLeadDays: setting?.defaultLeadDays ?? null,
@@ -36,16 +45,23 @@ export const loader = async ({request}: LoaderFunctionArgs) => {
     deliveryKey: setting?.deliveryKey ?? null,
     hasRules: ruleCount > 0,
     shipBySummary,
+    unresolvedErrorCount,
+    infeasibleOrderCount,
   };
 };
 
 export default function Index() {
-  const {defaultLeadDays, deliverySource, deliveryKey, hasRules, shipBySummary} =
-    useLoaderData<typeof loader>();
+  const {
+    defaultLeadDays,
+    deliverySource,
+    deliveryKey,
+    hasRules,
+    shipBySummary,
+    unresolvedErrorCount,
+    infeasibleOrderCount,
+  } = useLoaderData<typeof loader>();
   const isLeadDaysReady = defaultLeadDays != null && defaultLeadDays > 0;
-  const isDeliveryReady =
-    (deliverySource === "metafield" || deliverySource === "attributes") &&
-    Boolean(deliveryKey?.trim());
+  const isDeliveryReady = Boolean(deliverySource) && Boolean(deliveryKey?.trim());
   const isSettingsReady = isLeadDaysReady && isDeliveryReady;
   const steps = [
     {
@@ -53,7 +69,7 @@ export default function Index() {
       title: "1. 設定を完了（出荷日数と取得元）",
       description: "出荷までの日数と、お届け希望日の取得元をここで決めます。",
       detail: [
-        "出荷までの日数、取得元（注文メタフィールド/注文属性）、キー、日付の書式を入力します。",
+        "出荷までの日数、取得元（注文メタフィールド/注文属性/商品のプロパティ）、キー、日付の書式を入力します。",
         "ここが未設定だと出荷日を計算できません。",
       ],
       actionLabel: "設定へ進む",
@@ -212,6 +228,36 @@ export default function Index() {
                 </BlockStack>
               </Card>
             ) : null}
+            <Card>
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    未解決のエラー
+                  </Text>
+                  <Badge tone={unresolvedErrorCount > 0 ? "critical" : "success"}>
+                    {`${unresolvedErrorCount}件`}
+                  </Badge>
+                </InlineStack>
+                <Button url="/app/errors" variant={unresolvedErrorCount > 0 ? "primary" : "secondary"}>
+                  エラー記録を確認
+                </Button>
+              </InlineStack>
+            </Card>
+            {infeasibleOrderCount > 0 ? (
+              <Card>
+                <InlineStack align="space-between" blockAlign="center">
+                  <InlineStack gap="200" blockAlign="center">
+                    <Text as="h2" variant="headingMd">
+                      間に合わない注文
+                    </Text>
+                    <Badge tone="critical">{`${infeasibleOrderCount}件`}</Badge>
+                  </InlineStack>
+                  <Button url="/app/orders?infeasible=1" variant="primary">
+                    注文を確認
+                  </Button>
+                </InlineStack>
+              </Card>
+            ) : null}
             <ShipByAnalytics summary={shipBySummary} />
           </BlockStack>
           <div style={{height: "60px"}}></div>
@@ -0,0 +1,224 @@
+import {useEffect, useState} from "react";
+import type {ActionFunctionArgs, LoaderFunctionArgs} from "react-router";
+import {useFetcher, useLoaderData, useRevalidator} from "react-router";
+import {
+  Badge,
+  BlockStack,
+  Button,
+  Card,
+  InlineStack,
+  Page,
+  ProgressBar,
+  Text,
+} from "@shopify/polaris";
+
+import prisma from "../db.server";
+import {authenticate} from "../shopify.server";
+import {
+  cancelBackfill,
+  getLatestBackfill,
+  isBackfillSettingReady,
+  runBackfillBatch,
+  startBackfill,
+  type BackfillJobSummary,
+} from "../features/ship-by/server/backfill.server";
+import {resolveTimeZone} from "../features/ship-by/utils/shop-time";
+import {CriticalBanner} from "../shared/components/CriticalBanner";
+import {SettingsRequiredBanner} from "../shared/components/SettingsRequiredBanner";
+
+type LoaderData = {
+  job: BackfillJobSummary | null;
+  isSettingsReady: boolean;
+  timeZone: string;
+};
+
+type ActionData = {ok: true; job: BackfillJobSummary | null} | {ok: false; message: string};
+
+const STATUS_LABELS: Record<BackfillJobSummary["status"], {label: string; tone?: "success" | "critical" | "attention" | "info"}> = {
+  running: {label: "実行中", tone: "info"},
+  completed: {label: "完了", tone: "success"},
+  failed: {label: "失敗", tone: "critical"},
+  cancelled: {label: "中止", tone: "attention"},
+};
+
+export const loader = async ({request}: LoaderFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const [job, setting, isSettingsReady] = await Promise.all([
+    getLatestBackfill(session.shop),
+    prisma.shopSetting.findUnique({
+      where: {shopId: session.shop},
+      select: {timezone: true},
+    }),
+    isBackfillSettingReady(session.shop),
+  ]);
+
+  return {
+    job,
+    isSettingsReady,
+    timeZone: resolveTimeZone(setting?.timezone),
+  } satisfies LoaderData;
+};
+
+// 開始・1バッチ実行・中止を受け付ける
+export const action = async ({request}: ActionFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const form = await request.formData();
+  const actionType = String(form.get("_action") ?? "");
+  const jobId = String(form.get("jobId") ?? "");
+
+  if (actionType === "start") {
+    if (!(await isBackfillSettingReady(session.shop))) {
+      return {ok: false, message: "設定が未完了のため実行できません"} satisfies ActionData;
+    }
+    const job = await startBackfill(session.shop);
+    return {ok: true, job} satisfies ActionData;
+  }
+
+  if (actionType === "continue" && jobId) {
+    const job = await runBackfillBatch(session.shop, jobId);
+    if (!job) {
+      return {ok: false, message: "ジョブが見つかりません"} satisfies ActionData;
+    }
+    return {ok: true, job} satisfies ActionData;
+  }
+
+  if (actionType === "cancel" && jobId) {
+    await cancelBackfill(session.shop, jobId);
+    return {ok: true, job: await getLatestBackfill(session.shop)} satisfies ActionData;
+  }
+
+  return {ok: false, message: "不明な操作です"} satisfies ActionData;
+};
+
+const formatDateTime = (value: string | null, timeZone: string) =>
+  value ? new Date(value).toLocaleString("ja-JP", {timeZone}) : "-";
+
+// 既存の未発送注文へ出荷期限を一括で書き込むページ
+export default function BackfillPage() {
+  const {job: loadedJob, isSettingsReady, timeZone} = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionData>();
+  const revalidator = useRevalidator();
+  const [paused, setPaused] = useState(false);
+
+  const job = fetcher.data?.ok ? fetcher.data.job : loadedJob;
+  const errorMessage = fetcher.data && !fetcher.data.ok ? fetcher.data.message : null;
+  const isRunning = job?.status === "running";
+  const isBusy = fetcher.state !== "idle";
+
+  // 実行中は1バッチずつ自動で進める（画面を開いている間だけ）
+  useEffect(() => {
+    if (!job || job.status !== "running" || paused || errorMessage) return;
+    if (fetcher.state !== "idle") return;
+    fetcher.submit({_action: "continue", jobId: job.id}, {method: "post"});
+  }, [errorMessage, fetcher, job, paused]);
+
+  // 終了したらローダーを更新しておく
+  useEffect(() => {
+    if (job && job.status !== "running" && loadedJob?.status === "running") {
+      revalidator.revalidate();
+    }
+  }, [job, loadedJob?.status, revalidator]);
+
+  const start = () => {
+    setPaused(false);
+    fetcher.submit({_action: "start"}, {method: "post"});
+  };
+
+  const cancel = () => {
+    if (!job) return;
+    setPaused(true);
+    fetcher.submit({_action: "cancel", jobId: job.id}, {method: "post"});
+  };
+
+  const progress =
+    job && job.total && job.total > 0
+      ? Math.min(100, Math.round((job.processed / job.total) * 100))
+      : job?.status === "completed"
+        ? 100
+        : 0;
+  const status = job ? STATUS_LABELS[job.status] : null;
+
+  return (
+    <Page
+      title="過去注文の一括計算"
+      primaryAction={
+        <Button variant="primary" onClick={start} disabled={!isSettingsReady || isRunning || isBusy}>
+          一括計算を開始
+        </Button>
+      }
+    >
+      <BlockStack gap="400">
+        <Text as="p" tone="subdued">
+          アプリ導入前の注文や、設定が未完了の間に作成された注文など、出荷期限が未設定の未発送注文に対して出荷期限を計算し、メタフィールドとタグへ書き込みます。すでに出荷期限がある注文はスキップします。
+        </Text>
+        <CriticalBanner message={errorMessage} />
+        {!isSettingsReady ? <SettingsRequiredBanner message="設定が未完了のため実行できません。" /> : null}
+
+        <Card>
+          <BlockStack gap="300">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h2" variant="headingMd">
+                実行状況
+              </Text>
+              {status ? <Badge tone={status.tone}>{status.label}</Badge> : null}
+            </InlineStack>
+
+            {!job ? (
+              <Text as="p" tone="subdued">
+                まだ実行していません。
+              </Text>
+            ) : (
+              <BlockStack gap="300">
+                <ProgressBar progress={progress} size="small" />
+                <Text as="p">
+                  {job.processed}件 / {job.total != null ? `${job.total}件` : "件数不明"}
+                </Text>
+                <InlineStack gap="400">
+                  <Text as="span">成功: {job.succeeded}件</Text>
+                  <Text as="span">スキップ: {job.skipped}件</Text>
+                  <Text as="span" tone={job.failed > 0 ? "critical" : undefined}>
+                    失敗: {job.failed}件
+                  </Text>
+                </InlineStack>
+                {job.failed > 0 ? (
+                  <Text as="p" tone="subdued">
+                    失敗した注文はエラー記録から確認・再計算できます。
+                  </Text>
+                ) : null}
+                {job.lastError ? (
+                  <Text as="p" tone="critical">
+                    最後のエラー: {job.lastError}
+                  </Text>
+                ) : null}
+                <Text as="p" tone="subdued">
+                  開始: {formatDateTime(job.createdAt, timeZone)} / 終了: {formatDateTime(job.finishedAt, timeZone)}
+                </Text>
+                {isRunning ? (
+                  <InlineStack gap="200">
+                    {paused ? (
+                      <Button onClick={() => setPaused(false)} disabled={isBusy}>
+                        再開
+                      </Button>
+                    ) : (
+                      <Button onClick={() => setPaused(true)}>一時停止</Button>
+                    )}
+                    <Button tone="critical" variant="tertiary" onClick={cancel}>
+                      中止
+                    </Button>
+                  </InlineStack>
+                ) : null}
+                {isRunning && paused ? (
+                  <Text as="p" tone="subdued">
+                    一時停止中です。再開すると続きから処理します。
+                  </Text>
+                ) : null}
+              </BlockStack>
+            )}
+          </BlockStack>
+        </Card>
+
+        <div style={{height: "60px"}}></div>
+      </BlockStack>
+    </Page>
+  );
+}
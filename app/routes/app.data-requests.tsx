@@ -0,0 +1,130 @@
+import {useEffect, useMemo} from "react";
+import type {ActionFunctionArgs, LoaderFunctionArgs} from "react-router";
+import {useFetcher, useLoaderData} from "react-router";
+import {Badge, BlockStack, Button, Card, IndexTable, Page, Text} from "@shopify/polaris";
+
+import {authenticate} from "../shopify.server";
+import {
+  downloadCustomerDataRequest,
+  listCustomerDataRequests,
+  type CustomerDataRequestSummary,
+} from "../features/privacy/server/privacy.server";
+import {formatDateTime} from "../shared/utils/format";
+import {CriticalBanner} from "../shared/components/CriticalBanner";
+
+type LoaderData = {
+  items: CustomerDataRequestSummary[];
+};
+
+type ActionData =
+  | {ok: true; fileName: string; content: string}
+  | {ok: false; message: string};
+
+export const loader = async ({request}: LoaderFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const items = await listCustomerDataRequests(session.shop);
+  return {items} satisfies LoaderData;
+};
+
+export const action = async ({request}: ActionFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const form = await request.formData();
+  const id = String(form.get("id") ?? "");
+
+  const downloaded = id ? await downloadCustomerDataRequest(session.shop, id) : null;
+  if (!downloaded) {
+    return {ok: false, message: "開示要求が見つかりません"} satisfies ActionData;
+  }
+  return {ok: true, ...downloaded} satisfies ActionData;
+};
+
+// customers/data_request で保存した顧客データの出力の一覧（マーチャントが顧客へ提供する）
+export default function DataRequestsPage() {
+  const {items} = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionData>();
+  const resourceName = useMemo(() => ({singular: "request", plural: "requests"}), []);
+  const errorMessage = fetcher.data && !fetcher.data.ok ? fetcher.data.message : null;
+
+  // 取得した出力を JSON ファイルとして保存する
+  useEffect(() => {
+    if (!fetcher.data?.ok) return;
+    const url = URL.createObjectURL(new Blob([fetcher.data.content], {type: "application/json"}));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fetcher.data.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [fetcher.data]);
+
+  const download = (id: string) => {
+    const formData = new FormData();
+    formData.set("id", id);
+    fetcher.submit(formData, {method: "post"});
+  };
+
+  return (
+    <Page title="顧客データ開示">
+      <BlockStack gap="400">
+        <Text as="p" tone="subdued">
+          顧客からのデータ開示要求（customers/data_request）で出力した、注文の出荷期限記録とエラー記録です。ダウンロードした JSON を顧客へ提供してください。顧客データの削除要求を受けると、その顧客の出力も削除されます。
+        </Text>
+        <CriticalBanner message={errorMessage} />
+
+        <Card padding="0">
+          {items.length === 0 ? (
+            <div style={{padding: 16}}>
+              <Text as="p">開示要求はありません。</Text>
+            </div>
+          ) : (
+            <IndexTable
+              resourceName={resourceName}
+              itemCount={items.length}
+              selectable={false}
+              headings={[
+                {title: "受信日時"},
+                {title: "要求ID"},
+                {title: "顧客ID"},
+                {title: "注文ID"},
+                {title: "状態"},
+                {title: ""},
+              ]}
+            >
+              {items.map((item, index) => (
+                <IndexTable.Row id={item.id} key={item.id} position={index}>
+                  <IndexTable.Cell>{formatDateTime(new Date(item.createdAt))}</IndexTable.Cell>
+                  <IndexTable.Cell>{item.dataRequestId ?? "-"}</IndexTable.Cell>
+                  <IndexTable.Cell>{item.customerId ?? "-"}</IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <Text as="span" variant="bodySm" truncate>
+                      {item.orderIds.length > 0 ? item.orderIds.join(", ") : "-"}
+                    </Text>
+                  </IndexTable.Cell>
+                  <IndexTable.Cell>
+                    {item.downloadedAt ? (
+                      <Badge tone="success">
+                        {`ダウンロード済み（${formatDateTime(new Date(item.downloadedAt))}）`}
+                      </Badge>
+                    ) : (
+                      <Badge tone="attention">未ダウンロード</Badge>
+                    )}
+                  </IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <Button
+                      size="slim"
+                      onClick={() => download(item.id)}
+                      disabled={fetcher.state !== "idle"}
+                    >
+                      ダウンロード
+                    </Button>
+                  </IndexTable.Cell>
+                </IndexTable.Row>
+              ))}
+            </IndexTable>
+          )}
+        </Card>
+
+        <div style={{height: "60px"}}></div>
+      </BlockStack>
+    </Page>
+  );
+}
@@ -0,0 +1,302 @@
+import {useEffect, useState} from "react";
+import type {ActionFunctionArgs, LoaderFunctionArgs, ShouldRevalidateFunction} from "react-router";
+import {
+  Form,
+  redirect,
+  useActionData,
+  useLoaderData,
+  useLocation,
+  useNavigation,
+  useSubmit,
+} from "react-router";
+import {
+  Badge,
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  Checkbox,
+  InlineStack,
+  Link,
+  Page,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+
+import {authenticate} from "../shopify.server";
+import {
+  getErrorLog,
+  updateErrorLog,
+  type ErrorLogDetail,
+} from "../features/error-logs/server/error-logs.server";
+import {retryErrorLog} from "../features/error-logs/server/error-retry.server";
+import {MAX_MEMO_LENGTH} from "../features/error-logs/utils/error-log-filters";
+import {formatDateTime} from "../shared/utils/format";
+import {CriticalBanner} from "../shared/components/CriticalBanner";
+import {SuccessToast} from "../shared/components/SuccessToast";
+
+type LoaderData = {
+  error: ErrorLogDetail;
+  flashMessage: {text: string; tone: "success" | "critical"} | null;
+};
+
+type ActionData = {ok: false; message: string};
+
+export const loader = async ({request, params}: LoaderFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const flashText = url.searchParams.get("message");
+  const flashTone = url.searchParams.get("tone") === "critical" ? "critical" : "success";
+
+  const error = await getErrorLog(session.shop, params.errorId ?? "");
+  if (!error) {
+    throw new Response("Not found", {status: 404});
+  }
+
+  return {
+    error,
+    flashMessage: flashText ? {text: flashText, tone: flashTone} : null,
+  } satisfies LoaderData;
+};
+
+// メモと解決状態を保存する
+export const action = async ({request, params}: ActionFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const host = url.searchParams.get("host");
+  const errorId = params.errorId ?? "";
+  const form = await request.formData();
+  const actionType = String(form.get("_action") ?? "");
+  const base = `/app/errors/${encodeURIComponent(errorId)}`;
+  const toRedirectUrl = (message: string, tone: "success" | "critical") =>
+    host
+      ? `${base}?host=${encodeURIComponent(host)}&message=${encodeURIComponent(message)}&tone=${tone}`
+      : `${base}?message=${encodeURIComponent(message)}&tone=${tone}`;
+
+  if (actionType === "retry") {
+    const result = await retryErrorLog(session.shop, errorId);
+    if (!result) {
+      throw new Response("Not found", {status: 404});
+    }
+    return redirect(
+      result.ok
+        ? toRedirectUrl(`再計算しました（出荷期限: ${result.shipBy}）`, "success")
+        : toRedirectUrl(`再計算に失敗しました: ${result.message}`, "critical"),
+    );
+  }
+
+  if (actionType !== "save_error") {
+    return {ok: false, message: "不明な操作です"} satisfies ActionData;
+  }
+
+  const memo = String(form.get("memo") ?? "").trim();
+  if (memo.length > MAX_MEMO_LENGTH) {
+    return {ok: false, message: `メモは${MAX_MEMO_LENGTH}文字以内で入力してください`} satisfies ActionData;
+  }
+  const resolved = form.get("resolved") != null;
+
+  const updated = await updateErrorLog({
+    shopId: session.shop,
+    id: errorId,
+    memo: memo || null,
+    resolved,
+  });
+  if (!updated) {
+    throw new Response("Not found", {status: 404});
+  }
+
+  return redirect(toRedirectUrl("保存しました", "success"));
+};
+
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  actionResult,
+  defaultShouldRevalidate,
+}) => {
+  if (
+    actionResult &&
+    typeof actionResult === "object" &&
+    "ok" in actionResult &&
+    (actionResult as ActionData).ok === false
+  ) {
+    return false;
+  }
+  return defaultShouldRevalidate;
+};
+
+// エラー記録の詳細ページ
+export default function ErrorDetailPage() {
+  const {error, flashMessage} = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const location = useLocation();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const isRetrying =
+    navigation.state !== "idle" && navigation.formData?.get("_action") === "retry";
+  const [memo, setMemo] = useState(error.memo ?? "");
+  const [resolved, setResolved] = useState(error.resolved);
+  const bannerText = actionData?.message ?? flashMessage?.text;
+  const bannerTone = actionData ? "critical" : flashMessage?.tone ?? "success";
+  const successMessage = bannerTone === "success" ? bannerText : null;
+  const errorMessage = bannerTone === "critical" ? bannerText : null;
+  const hasOrder = error.orderId !== "0";
+
+  // ローダーが更新されたときの初期同期
+  useEffect(() => {
+    setMemo(error.memo ?? "");
+    setResolved(error.resolved);
+  }, [error.memo, error.resolved]);
+
+  return (
+    <Form method="post">
+      <input type="hidden" name="_action" value="save_error" />
+      <Page
+        title="エラー詳細"
+        backAction={{content: "一覧に戻る", url: "/app/errors"}}
+        titleMetadata={
+          error.resolved ? <Badge tone="success">解決済み</Badge> : <Badge tone="critical">未解決</Badge>
+        }
+        primaryAction={
+          <Button submit variant="primary">
+            保存
+          </Button>
+        }
+        secondaryActions={[
+          {
+            content: "再計算",
+            loading: isRetrying,
+            disabled: !hasOrder,
+            helpText: "注文を再取得し、現在の設定・ルール・休業日で出荷期限を計算し直します。",
+            onAction: () => submit({_action: "retry"}, {method: "post"}),
+          },
+        ]}
+      >
+        <BlockStack gap="400">
+          <SuccessToast message={successMessage} nonce={location.key} />
+          <CriticalBanner message={errorMessage} />
+
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                概要
+              </Text>
+              <InlineStack gap="200">
+                <Text as="span" tone="subdued">
+                  注文ID:
+                </Text>
+                {hasOrder ? (
+                  <Link url={`shopify://admin/orders/${error.orderId}`} target="_blank">
+                    {error.orderId}
+                  </Link>
+                ) : (
+                  <Text as="span">-</Text>
+                )}
+              </InlineStack>
+              <InlineStack gap="200">
+                <Text as="span" tone="subdued">
+                  理由:
+                </Text>
+                <Text as="span">{error.reason}</Text>
+                {error.kind === "warning" ? <Badge tone="warning">警告</Badge> : null}
+              </InlineStack>
+              <InlineStack gap="200">
+                <Text as="span" tone="subdued">
+                  発生日時:
+                </Text>
+                <Text as="span">{formatDateTime(new Date(error.createdAt))}</Text>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                対応
+              </Text>
+              <TextField
+                label="メモ"
+                name="memo"
+                autoComplete="off"
+                multiline={4}
+                maxLength={MAX_MEMO_LENGTH}
+                showCharacterCount
+                value={memo}
+                onChange={setMemo}
+              />
+              <Checkbox
+                label="解決済みにする"
+                name="resolved"
+                checked={resolved}
+                onChange={setResolved}
+              />
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                再計算の履歴
+              </Text>
+              {error.attempts.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  まだ再計算していません。
+                </Text>
+              ) : (
+                <BlockStack gap="100">
+                  {[...error.attempts].reverse().map((attempt, index) => (
+                    <InlineStack key={`${attempt.at}-${index}`} gap="200" blockAlign="center">
+                      <Text as="span" tone="subdued">
+                        {formatDateTime(new Date(attempt.at))}
+                      </Text>
+                      {attempt.ok ? (
+                        <Badge tone="success">成功</Badge>
+                      ) : (
+                        <Badge tone="critical">失敗</Badge>
+                      )}
+                      <Text as="span" variant="bodySm">
+                        {attempt.message}
+                      </Text>
+                    </InlineStack>
+                  ))}
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                受信データ
+              </Text>
+              {error.rawData ? (
+                <Box
+                  background="bg-surface-secondary"
+                  padding="300"
+                  borderRadius="200"
+                >
+                  <pre
+                    style={{
+                      margin: 0,
+                      maxHeight: 480,
+                      overflow: "auto",
+                      fontSize: 12,
+                      whiteSpace: "pre-wrap",
+                      wordBreak: "break-all",
+                    }}
+                  >
+                    {error.rawData}
+                  </pre>
+                </Box>
+              ) : (
+                <Text as="p" tone="subdued">
+                  記録されたデータはありません。
+                </Text>
+              )}
+            </BlockStack>
+          </Card>
+
+          <div style={{height: "60px"}}></div>
+        </BlockStack>
+      </Page>
+    </Form>
+  );
+}
@@ -0,0 +1,294 @@
+import {useCallback, useMemo} from "react";
+import type {ActionFunctionArgs, LoaderFunctionArgs} from "react-router";
+import {redirect, useFetcher, useLoaderData, useLocation, useNavigate} from "react-router";
+import {
+  Badge,
+  BlockStack,
+  Box,
+  Card,
+  IndexTable,
+  InlineStack,
+  Link,
+  Page,
+  Pagination,
+  Select,
+  Text,
+  useIndexResourceState,
+} from "@shopify/polaris";
+import {BulkAction} from "@shopify/polaris/build/ts/src/components/BulkActions";
+
+import {authenticate} from "../shopify.server";
+import {
+  listErrorLogs,
+  listErrorReasons,
+  resolveErrorLogs,
+  type ErrorLogSummary,
+} from "../features/error-logs/server/error-logs.server";
+import {retryErrorLog} from "../features/error-logs/server/error-retry.server";
+import {
+  parseErrorLogFilters,
+  toErrorLogSearch,
+  type ErrorLogFilters,
+  type ResolvedFilter,
+} from "../features/error-logs/utils/error-log-filters";
+import {formatDateTime} from "../shared/utils/format";
+import {CriticalBanner} from "../shared/components/CriticalBanner";
+import {SuccessToast} from "../shared/components/SuccessToast";
+
+type LoaderData = {
+  items: ErrorLogSummary[];
+  total: number;
+  hasNext: boolean;
+  filters: ErrorLogFilters;
+  reasons: Array<{reason: string; count: number}>;
+  flashMessage: {text: string; tone: "success" | "critical"} | null;
+};
+
+type ActionData = {ok: false; message: string};
+
+const RESOLVED_OPTIONS: Array<{label: string; value: ResolvedFilter}> = [
+  {label: "未解決", value: "unresolved"},
+  {label: "解決済み", value: "resolved"},
+  {label: "すべて", value: "all"},
+];
+
+export const loader = async ({request}: LoaderFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const flashText = url.searchParams.get("message");
+  const flashTone = url.searchParams.get("tone") === "critical" ? "critical" : "success";
+  const filters = parseErrorLogFilters(url.searchParams);
+
+  const [list, reasons] = await Promise.all([
+    listErrorLogs({shopId: session.shop, filters}),
+    listErrorReasons(session.shop),
+  ]);
+
+  return {
+    ...list,
+    filters,
+    reasons,
+    flashMessage: flashText ? {text: flashText, tone: flashTone} : null,
+  } satisfies LoaderData;
+};
+
+export const action = async ({request}: ActionFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const host = url.searchParams.get("host");
+  const form = await request.formData();
+  const actionType = String(form.get("_action") ?? "");
+
+  if (actionType !== "resolve_errors" && actionType !== "retry_errors") {
+    return {ok: false, message: "不明な操作です"} satisfies ActionData;
+  }
+
+  let ids: string[] = [];
+  try {
+    const parsed = JSON.parse(String(form.get("ids") ?? "[]"));
+    ids = Array.isArray(parsed) ? parsed.map((v) => String(v)).filter(Boolean) : [];
+  } catch {
+    ids = [];
+  }
+
+  if (ids.length === 0) {
+    return {ok: false, message: "対象が選択されていません"} satisfies ActionData;
+  }
+
+  const filters = parseErrorLogFilters(url.searchParams);
+  const search = toErrorLogSearch(filters, host);
+  const separator = search ? "&" : "?";
+
+  if (actionType === "retry_errors") {
+    let succeeded = 0;
+    for (const id of ids) {
+      const result = await retryErrorLog(session.shop, id);
+      if (result?.ok) succeeded += 1;
+    }
+    const failed = ids.length - succeeded;
+    const message = `再計算しました（成功 ${succeeded}件 / 失敗 ${failed}件）`;
+    return redirect(
+      `/app/errors${search}${separator}message=${encodeURIComponent(message)}&tone=${failed > 0 ? "critical" : "success"}`,
+    );
+  }
+
+  const count = await resolveErrorLogs(session.shop, ids);
+
+  return redirect(
+    `/app/errors${search}${separator}message=${encodeURIComponent(`${count}件を解決済みにしました`)}&tone=success`,
+  );
+};
+
+// 出荷期限の計算に失敗した注文の一覧
+export default function ErrorsIndexPage() {
+  const {items, total, hasNext, filters, reasons, flashMessage} = useLoaderData<LoaderData>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const fetcher = useFetcher<ActionData>();
+  const host = useMemo(() => new URLSearchParams(location.search).get("host"), [location.search]);
+  const successMessage = flashMessage?.tone === "success" ? flashMessage.text : null;
+  const errorMessage =
+    fetcher.data && !fetcher.data.ok
+      ? fetcher.data.message
+      : flashMessage?.tone === "critical"
+        ? flashMessage.text
+        : null;
+  const resourceName = useMemo(() => ({singular: "error", plural: "errors"}), []);
+
+  const reasonOptions = useMemo(
+    () => [
+      {label: "すべての理由", value: ""},
+      ...reasons.map((item) => ({label: `${item.reason}（${item.count}）`, value: item.reason})),
+    ],
+    [reasons],
+  );
+
+  const applyFilters = useCallback(
+    (patch: Partial<ErrorLogFilters>) => {
+      navigate(`/app/errors${toErrorLogSearch({...filters, page: 1, ...patch}, host)}`);
+    },
+    [filters, host, navigate],
+  );
+
+  const toDetailUrl = useCallback(
+    (id: string) => {
+      const encoded = encodeURIComponent(id);
+      return host ? `/app/errors/${encoded}?host=${encodeURIComponent(host)}` : `/app/errors/${encoded}`;
+    },
+    [host],
+  );
+
+  const {
+    selectedResources: selectedIds,
+    allResourcesSelected,
+    handleSelectionChange,
+    clearSelection,
+  } = useIndexResourceState(items);
+
+  const submitBulk = useCallback(
+    (actionType: "resolve_errors" | "retry_errors") => {
+      const formData = new FormData();
+      formData.set("_action", actionType);
+      formData.set("ids", JSON.stringify(selectedIds));
+      clearSelection();
+      fetcher.submit(formData, {method: "post"});
+    },
+    [clearSelection, fetcher, selectedIds],
+  );
+
+  return (
+    <Page title="エラー記録">
+      <BlockStack gap="400">
+        <Text as="p" tone="subdued">
+          出荷期限を計算・保存できなかった注文と、出荷期限が注文日より前になった注文（警告）の一覧です。原因を確認し、対応後に解決済みにしてください。
+        </Text>
+        <SuccessToast message={successMessage} nonce={location.key} />
+        <CriticalBanner message={errorMessage} />
+
+        <Card>
+          <InlineStack gap="400" blockAlign="end">
+            <Select
+              label="理由"
+              options={reasonOptions}
+              value={filters.reason ?? ""}
+              onChange={(value) => applyFilters({reason: value || null})}
+            />
+            <Select
+              label="状態"
+              options={RESOLVED_OPTIONS}
+              value={filters.resolved}
+              onChange={(value) => applyFilters({resolved: value as ResolvedFilter})}
+            />
+            <Text as="p" tone="subdued">
+              {total}件
+            </Text>
+          </InlineStack>
+        </Card>
+
+        <Card padding="0">
+          {items.length === 0 ? (
+            <div style={{padding: 16}}>
+              <Text as="p">該当するエラーはありません。</Text>
+            </div>
+          ) : (
+            <IndexTable
+              resourceName={resourceName}
+              itemCount={items.length}
+              selectable
+              selectedItemsCount={allResourcesSelected ? "All" : selectedIds.length}
+              onSelectionChange={handleSelectionChange}
+              promotedBulkActions={[
+                {
+                  content: "再計算する",
+                  onAction: () => submitBulk("retry_errors"),
+                  disabled: selectedIds.length === 0 || fetcher.state !== "idle",
+                } as BulkAction,
+                {
+                  content: "解決済みにする",
+                  onAction: () => submitBulk("resolve_errors"),
+                  disabled: selectedIds.length === 0 || fetcher.state !== "idle",
+                } as BulkAction,
+              ]}
+              headings={[
+                {title: "発生日時"},
+                {title: "注文ID"},
+                {title: "理由"},
+                {title: "メモ"},
+                {title: "状態"},
+              ]}
+            >
+              {items.map((item, index) => (
+                <IndexTable.Row
+                  id={item.id}
+                  key={item.id}
+                  position={index}
+                  selected={selectedIds.includes(item.id)}
+                >
+                  <IndexTable.Cell>
+                    <Box paddingBlock="100">
+                      <Link url={toDetailUrl(item.id)} dataPrimaryLink>
+                        {formatDateTime(new Date(item.createdAt))}
+                      </Link>
+                    </Box>
+                  </IndexTable.Cell>
+                  <IndexTable.Cell>{item.orderId !== "0" ? item.orderId : "-"}</IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <InlineStack gap="100" blockAlign="center">
+                      {item.kind === "warning" ? <Badge tone="warning">警告</Badge> : null}
+                      <Text as="span" variant="bodySm">
+                        {item.reason}
+                      </Text>
+                    </InlineStack>
+                  </IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <Text as="span" variant="bodySm" tone="subdued" truncate>
+                      {item.memo ?? ""}
+                    </Text>
+                  </IndexTable.Cell>
+                  <IndexTable.Cell>
+                    {item.resolved ? (
+                      <Badge tone="success">解決済み</Badge>
+                    ) : (
+                      <Badge tone="critical">未解決</Badge>
+                    )}
+                  </IndexTable.Cell>
+                </IndexTable.Row>
+              ))}
+            </IndexTable>
+          )}
+        </Card>
+
+        <InlineStack align="center">
+          <Pagination
+            hasPrevious={filters.page > 1}
+            onPrevious={() => applyFilters({page: filters.page - 1})}
+            hasNext={hasNext}
+            onNext={() => applyFilters({page: filters.page + 1})}
+          />
+        </InlineStack>
+
+        <div style={{height: "60px"}}></div>
+      </BlockStack>
+    </Page>
+  );
+}
@@ -0,0 +1,319 @@
+import {useEffect, useMemo, useState} from "react";
+import type {ActionFunctionArgs, LoaderFunctionArgs, ShouldRevalidateFunction} from "react-router";
+import {Form, redirect, useActionData, useLoaderData, useLocation} from "react-router";
+import {
+  BlockStack,
+  Button,
+  Card,
+  Checkbox,
+  InlineStack,
+  Page,
+  Tag,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+
+import {authenticate} from "../shopify.server";
+import {loadHoliday, persistHoliday, type HolidayData} from "../features/holidays/server/holidays.server";
+import {
+  WEEKDAY_CODES,
+  WEEKDAY_LABELS,
+  expandDateRange,
+  formatISODate,
+  normalizeHolidayPayload,
+  type HolidayPayload,
+  type WeekdayCode,
+} from "../features/holidays/utils/holidays";
+import {HolidayCalendar} from "../features/holidays/components/HolidayCalendar";
+import {CriticalBanner} from "../shared/components/CriticalBanner";
+import {SuccessToast} from "../shared/components/SuccessToast";
+
+// 画面描画に必要なデータセット（flashMessageを付与）
+type LoaderData = HolidayData & {
+  flashMessage: {text: string; tone: "success" | "critical"} | null;
+};
+
+// 保存処理の結果
+type ActionData = {ok: false; message: string};
+
+export const loader = async ({request}: LoaderFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const flashText = url.searchParams.get("message");
+  const flashTone = url.searchParams.get("tone") === "critical" ? "critical" : "success";
+
+  const holiday = await loadHoliday(session.shop);
+
+  return {
+    ...holiday,
+    flashMessage: flashText ? {text: flashText, tone: flashTone} : null,
+  } satisfies LoaderData;
+};
+
+// フォームから送信された休業日を検証・保存する
+export const action = async ({request}: ActionFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const host = url.searchParams.get("host");
+  const form = await request.formData();
+  const actionType = String(form.get("_action") ?? "");
+
+  if (actionType !== "save_all") {
+    return {ok: false, message: "不明な操作です"} satisfies ActionData;
+  }
+
+  let payload: HolidayPayload | null = null;
+  try {
+    payload = JSON.parse(String(form.get("payload") ?? "")) as HolidayPayload;
+  } catch {
+    return {ok: false, message: "入力内容を解釈できませんでした"} satisfies ActionData;
+  }
+
+  const normalized = normalizeHolidayPayload(payload);
+  if (!normalized.ok) {
+    return {ok: false, message: normalized.message} satisfies ActionData;
+  }
+
+  await persistHoliday({
+    shopId: session.shop,
+    holidays: normalized.holidays,
+    weeklyHolidays: normalized.weeklyHolidays,
+  });
+
+  const redirectUrl = host
+    ? `/app/holidays?host=${encodeURIComponent(host)}&message=${encodeURIComponent("保存しました")}&tone=success`
+    : `/app/holidays?message=${encodeURIComponent("保存しました")}&tone=success`;
+
+  return redirect(redirectUrl);
+};
+
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  actionResult,
+  defaultShouldRevalidate,
+}) => {
+  if (
+    actionResult &&
+    typeof actionResult === "object" &&
+    "ok" in actionResult &&
+    (actionResult as ActionData).ok === false
+  ) {
+    return false;
+  }
+  return defaultShouldRevalidate;
+};
+
+const todayKey = () => {
+  const now = new Date();
+  return formatISODate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
+
+// 休業日（定休日・単発休業日）の編集ページ
+export default function HolidaysPage() {
+  const {holidays, weeklyHolidays, flashMessage} = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const location = useLocation();
+  const [holidayDates, setHolidayDates] = useState<string[]>(holidays);
+  const [weeklyCodes, setWeeklyCodes] = useState<WeekdayCode[]>(weeklyHolidays);
+  const [calendarMonth, setCalendarMonth] = useState(() => {
+    const now = new Date();
+    return {year: now.getFullYear(), month: now.getMonth()};
+  });
+  const [rangeStart, setRangeStart] = useState("");
+  const [rangeEnd, setRangeEnd] = useState("");
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [showPast, setShowPast] = useState(false);
+
+  const bannerText = actionData?.message ?? flashMessage?.text;
+  const bannerTone = actionData ? "critical" : flashMessage?.tone ?? "success";
+  const successMessage = bannerTone === "success" ? bannerText : null;
+  const errorMessage = bannerTone === "critical" ? bannerText : null;
+  const isAllWeekly = weeklyCodes.length === WEEKDAY_CODES.length;
+
+  // ローダーが更新されたときの初期同期
+  useEffect(() => {
+    setHolidayDates(holidays);
+    setWeeklyCodes(weeklyHolidays);
+  }, [holidays, weeklyHolidays]);
+
+  const holidaySet = useMemo(() => new Set(holidayDates), [holidayDates]);
+  const today = todayKey();
+  const pastCount = holidayDates.filter((date) => date < today).length;
+  const visibleDates = showPast ? holidayDates : holidayDates.filter((date) => date >= today);
+
+  // サーバーへ送るペイロード文字列
+  const serializedPayload = useMemo(
+    () => JSON.stringify({holidays: holidayDates, weeklyHolidays: weeklyCodes} satisfies HolidayPayload),
+    [holidayDates, weeklyCodes],
+  );
+
+  const toggleHoliday = (date: string) => {
+    setHolidayDates((prev) =>
+      prev.includes(date) ? prev.filter((value) => value !== date) : [...prev, date].sort(),
+    );
+  };
+
+  const toggleWeekly = (code: WeekdayCode, checked: boolean) => {
+    setWeeklyCodes((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(code);
+      else next.delete(code);
+      return WEEKDAY_CODES.filter((value) => next.has(value));
+    });
+  };
+
+  // 期間指定でまとめて休業日を追加する
+  const addRange = () => {
+    const result = expandDateRange(rangeStart, rangeEnd || rangeStart);
+    if (!result.ok) {
+      setRangeError(result.message);
+      return;
+    }
+    setRangeError(null);
+    setHolidayDates((prev) => Array.from(new Set([...prev, ...result.dates])).sort());
+    setRangeStart("");
+    setRangeEnd("");
+  };
+
+  const removePastHolidays = () => {
+    setHolidayDates((prev) => prev.filter((date) => date >= today));
+  };
+
+  return (
+    <Form method="post">
+      <input type="hidden" name="_action" value="save_all" />
+      <input type="hidden" name="payload" value={serializedPayload} />
+
+      <Page
+        title="休業日"
+        primaryAction={
+          <Button submit variant="primary" disabled={isAllWeekly}>
+            保存
+          </Button>
+        }
+      >
+        <BlockStack gap="400">
+          <Text as="p" tone="subdued">
+            出荷期限が休業日に当たる場合、前の営業日に繰り下げて計算します。
+          </Text>
+          <SuccessToast message={successMessage} nonce={location.key} />
+          <CriticalBanner message={errorMessage} />
+
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                定休日（毎週）
+              </Text>
+              <InlineStack gap="400">
+                {WEEKDAY_CODES.map((code) => (
+                  <Checkbox
+                    key={code}
+                    label={`${WEEKDAY_LABELS[code]}曜日`}
+                    checked={weeklyCodes.includes(code)}
+                    onChange={(checked) => toggleWeekly(code, checked)}
+                  />
+                ))}
+              </InlineStack>
+              {isAllWeekly ? (
+                <Text as="p" tone="critical">
+                  すべての曜日を定休日にすると出荷日を計算できません。
+                </Text>
+              ) : null}
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                休業日（単発）
+              </Text>
+              <Text as="p" tone="subdued">
+                日付をクリックすると休業日の登録・解除を切り替えます。灰色は定休日です。
+              </Text>
+              <HolidayCalendar
+                year={calendarMonth.year}
+                month={calendarMonth.month}
+                holidays={holidaySet}
+                weeklyHolidays={weeklyCodes}
+                onToggle={toggleHoliday}
+                onMonthChange={(year, month) => setCalendarMonth({year, month})}
+              />
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                期間でまとめて追加
+              </Text>
+              <InlineStack gap="300" blockAlign="end">
+                <TextField
+                  label="開始日"
+                  type="date"
+                  autoComplete="off"
+                  value={rangeStart}
+                  onChange={setRangeStart}
+                />
+                <TextField
+                  label="終了日"
+                  type="date"
+                  autoComplete="off"
+                  value={rangeEnd}
+                  onChange={setRangeEnd}
+                  helpText="未入力なら開始日のみ追加します。"
+                />
+                <Button onClick={addRange} disabled={!rangeStart}>
+                  期間を追加
+                </Button>
+              </InlineStack>
+              {rangeError ? (
+                <Text as="p" tone="critical">
+                  {rangeError}
+                </Text>
+              ) : null}
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text as="h2" variant="headingMd">
+                  登録済みの休業日（{holidayDates.length}件）
+                </Text>
+                <InlineStack gap="200">
+                  <Checkbox
+                    label={`過去の休業日も表示（${pastCount}件）`}
+                    checked={showPast}
+                    onChange={setShowPast}
+                  />
+                  <Button
+                    variant="tertiary"
+                    tone="critical"
+                    onClick={removePastHolidays}
+                    disabled={pastCount === 0}
+                  >
+                    過去の休業日を削除
+                  </Button>
+                </InlineStack>
+              </InlineStack>
+              {visibleDates.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  休業日がありません。
+                </Text>
+              ) : (
+                <InlineStack gap="200" wrap>
+                  {visibleDates.map((date) => (
+                    <Tag key={date} onRemove={() => toggleHoliday(date)}>
+                      {date}
+                    </Tag>
+                  ))}
+                </InlineStack>
+              )}
+            </BlockStack>
+          </Card>
+
+          <div style={{height: "60px"}}></div>
+        </BlockStack>
+      </Page>
+    </Form>
+  );
+}
@@ -0,0 +1,262 @@
+import {useCallback, useEffect, useMemo, useState} from "react";
+import type {LoaderFunctionArgs} from "react-router";
+import {useLoaderData, useLocation, useNavigate} from "react-router";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Checkbox,
+  Button,
+  Card,
+  IndexTable,
+  InlineStack,
+  Link,
+  Page,
+  Pagination,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+
+import prisma from "../db.server";
+import {authenticate} from "../shopify.server";
+import {
+  listShipByOrders,
+  type ShipByOrderList,
+  type ShipByOrderRow,
+} from "../features/ship-by/server/ship-by-orders.server";
+import {
+  SHIP_BY_BUCKETS,
+  SHIP_BY_BUCKET_LABELS,
+  parseShipByOrderFilters,
+  toDateKeyInTimeZone,
+  toShipByOrderSearch,
+  type ShipByBucket,
+  type ShipByOrderFilters,
+} from "../features/ship-by/utils/ship-by-orders";
+import {resolveTimeZone} from "../features/ship-by/utils/shop-time";
+import {CriticalBanner} from "../shared/components/CriticalBanner";
+
+type LoaderData = ShipByOrderList & {
+  filters: ShipByOrderFilters;
+  todayKey: string;
+};
+
+const BUCKET_TONES: Record<ShipByBucket, "critical" | "warning" | "info" | undefined> = {
+  overdue: "critical",
+  today: "warning",
+  tomorrow: "info",
+  later: undefined,
+};
+
+const FULFILLMENT_LABELS: Record<string, string> = {
+  UNFULFILLED: "未発送",
+  PARTIALLY_FULFILLED: "一部発送",
+  FULFILLED: "発送済み",
+  IN_PROGRESS: "処理中",
+  ON_HOLD: "保留",
+  OPEN: "未発送",
+  PENDING_FULFILLMENT: "発送待ち",
+  SCHEDULED: "予定済み",
+  RESTOCKED: "在庫戻し",
+};
+
+export const loader = async ({request}: LoaderFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const setting = await prisma.shopSetting.findUnique({
+    where: {shopId: session.shop},
+    select: {timezone: true},
+  });
+  const todayKey = toDateKeyInTimeZone(new Date(), resolveTimeZone(setting?.timezone));
+  const filters = parseShipByOrderFilters(url.searchParams, todayKey);
+
+  const list = await listShipByOrders({shopId: session.shop, filters, todayKey});
+
+  return {...list, filters, todayKey} satisfies LoaderData;
+};
+
+const renderFulfillment = (row: ShipByOrderRow) => {
+  if (!row.fulfillmentStatus) return <Text as="span" tone="subdued">-</Text>;
+  const label = FULFILLMENT_LABELS[row.fulfillmentStatus] ?? row.fulfillmentStatus;
+  return row.fulfillmentStatus === "FULFILLED" ? (
+    <Badge tone="success">{label}</Badge>
+  ) : (
+    <Badge tone="attention">{label}</Badge>
+  );
+};
+
+// 出荷期限ごとに注文を確認する一覧（期限切れ / 今日 / 明日 / それ以降）
+export default function ShipByOrdersPage() {
+  const {rows, total, hasNext, infeasibleCount, zones, detailsAvailable, filters, todayKey} =
+    useLoaderData<LoaderData>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const host = useMemo(() => new URLSearchParams(location.search).get("host"), [location.search]);
+  const [fromValue, setFromValue] = useState(filters.from ?? "");
+  const [toValue, setToValue] = useState(filters.to ?? "");
+
+  // ローダーが更新されたときの初期同期
+  useEffect(() => {
+    setFromValue(filters.from ?? "");
+    setToValue(filters.to ?? "");
+  }, [filters.from, filters.to]);
+
+  const applyFilters = useCallback(
+    (patch: Partial<ShipByOrderFilters>) => {
+      navigate(`/app/orders${toShipByOrderSearch({...filters, page: 1, ...patch}, host)}`);
+    },
+    [filters, host, navigate],
+  );
+
+  const zoneOptions = useMemo(
+    () => [
+      {label: "すべての配送エリア", value: ""},
+      ...zones.map((zone) => ({label: zone.label, value: zone.zoneKey})),
+    ],
+    [zones],
+  );
+
+  const grouped = useMemo(
+    () =>
+      SHIP_BY_BUCKETS.map((bucket) => ({
+        bucket,
+        rows: rows.filter((row) => row.bucket === bucket),
+      })).filter((group) => group.rows.length > 0),
+    [rows],
+  );
+
+  return (
+    <Page title="出荷予定の注文">
+      <BlockStack gap="400">
+        <Text as="p" tone="subdued">
+          出荷期限が記録された注文を期限の近い順に表示します（今日: {todayKey}）。
+        </Text>
+        <CriticalBanner
+          message={
+            detailsAvailable
+              ? null
+              : "注文の詳細を取得できませんでした。注文名・お客様・発送状況は表示されません。"
+          }
+        />
+        {infeasibleCount > 0 && !filters.infeasible ? (
+          <Banner
+            tone="warning"
+            title={`出荷期限が注文日より前になっている未発送の注文が${infeasibleCount}件あります`}
+            action={{
+              content: "間に合わない注文を表示",
+              onAction: () => applyFilters({infeasible: true, from: null, to: null}),
+            }}
+          >
+            <p>お届け希望日に間に合わない可能性があります。お客様への連絡や配送方法の見直しを検討してください。</p>
+          </Banner>
+        ) : null}
+
+        <Card>
+          <InlineStack gap="400" blockAlign="end">
+            <TextField
+              label="出荷期限（開始）"
+              type="date"
+              autoComplete="off"
+              value={fromValue}
+              onChange={setFromValue}
+            />
+            <TextField
+              label="出荷期限（終了）"
+              type="date"
+              autoComplete="off"
+              value={toValue}
+              onChange={setToValue}
+            />
+            <Button onClick={() => applyFilters({from: fromValue || null, to: toValue || null})}>
+              期間で絞り込む
+            </Button>
+            <Select
+              label="配送エリア"
+              options={zoneOptions}
+              value={filters.zone ?? ""}
+              onChange={(value) => applyFilters({zone: value || null})}
+            />
+            <Checkbox
+              label="間に合わない注文のみ"
+              checked={filters.infeasible}
+              onChange={(checked) =>
+                applyFilters(checked ? {infeasible: true, from: null} : {infeasible: false})
+              }
+            />
+            <Text as="p" tone="subdued">
+              {total}件
+            </Text>
+          </InlineStack>
+        </Card>
+
+        {grouped.length === 0 ? (
+          <Card>
+            <Text as="p">該当する注文はありません。</Text>
+          </Card>
+        ) : (
+          grouped.map((group) => (
+            <Card key={group.bucket} padding="0">
+              <div style={{padding: 16}}>
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    {SHIP_BY_BUCKET_LABELS[group.bucket]}
+                  </Text>
+                  <Badge tone={BUCKET_TONES[group.bucket]}>{`${group.rows.length}件`}</Badge>
+                </InlineStack>
+              </div>
+              <IndexTable
+                resourceName={{singular: "order", plural: "orders"}}
+                itemCount={group.rows.length}
+                selectable={false}
+                headings={[
+                  {title: "出荷期限"},
+                  {title: "注文"},
+                  {title: "お客様"},
+                  {title: "お届け希望日"},
+                  {title: "配送エリア"},
+                  {title: "発送状況"},
+                ]}
+              >
+                {group.rows.map((row, index) => (
+                  <IndexTable.Row id={row.orderId} key={row.orderId} position={index}>
+                    <IndexTable.Cell>
+                      <InlineStack gap="100" blockAlign="center">
+                        <Text as="span">{row.shipByDate}</Text>
+                        {row.shortfallDays ? (
+                          <Badge tone="critical">{`間に合わない（${row.shortfallDays}日不足）`}</Badge>
+                        ) : null}
+                      </InlineStack>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Link url={`shopify://admin/orders/${row.orderId}`} target="_blank">
+                        {row.orderName ?? row.orderId}
+                      </Link>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{row.customerName ?? "-"}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {row.isAsap ? <Badge tone="info">指定なし（最短出荷）</Badge> : (row.deliveryDate ?? "-")}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{row.zoneLabel ?? "-"}</IndexTable.Cell>
+                    <IndexTable.Cell>{renderFulfillment(row)}</IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </Card>
+          ))
+        )}
+
+        <InlineStack align="center">
+          <Pagination
+            hasPrevious={filters.page > 1}
+            onPrevious={() => applyFilters({page: filters.page - 1})}
+            hasNext={hasNext}
+            onNext={() => applyFilters({page: filters.page + 1})}
+          />
+        </InlineStack>
+
+        <div style={{height: "60px"}}></div>
+      </BlockStack>
+    </Page>
+  );
+}
@@ -1,12 +1,25 @@
 import {useEffect, useMemo, useState} from "react";
 import type {ActionFunctionArgs, LoaderFunctionArgs, ShouldRevalidateFunction} from "react-router";
-import {Form, redirect, useActionData, useLoaderData, useLocation} from "react-router";
 import {
+  Form,
+  redirect,
+  useActionData,
+  useFetcher,
+  useLoaderData,
+  useLocation,
+  useNavigate,
+} from "react-router";
+import {
+  Badge,
+  Banner,
   BlockStack,
   Button,
   Card,
+  Checkbox,
+  DataTable,
   InlineStack,
   Page,
+  Select,
   Text,
   TextField,
 } from "@shopify/polaris";
@@ -20,14 +33,38 @@ import {
   type ZoneRulePayload,
   type ZoneRuleDetailData,
 } from "../features/rules/server/rules.server";
-import {DEFAULT_PRODUCT_DAYS} from "../features/rules/utils/rules";
 import {
-  selectionToProductSummary,
+  applyShipByToOrderIds,
+  previewZoneRuleImpact,
+  type ZoneRuleImpactPreview,
+} from "../features/rules/server/rule-impact.server";
+import {
+  DEFAULT_PRODUCT_DAYS,
+  isPickerTargetType,
+  parseProductRuleTargetType,
+  parseTargetValues,
+  PRODUCT_RULE_TARGET_LABELS,
+  PRODUCT_RULE_TARGET_OPTIONS,
+} from "../features/rules/utils/rules";
+import {
+  LEAD_DAYS_MODE_LABELS,
+  LEAD_DAYS_MODE_OPTIONS,
+  parseLeadDaysMode,
+} from "../features/ship-by/utils/lead-days-mode";
+import {formatTimeSlotDays} from "../features/ship-by/utils/time-slot";
+import {
+  formatPostalPrefixDays,
+  formatPrefectureDays,
+  type TransitDays,
+} from "../features/shipping/utils/transit-days";
+import type {ShippingRateEntry} from "../features/shipping/utils/shipping-rate-normalize";
+import {
+  selectionToTargetSummary,
   toFallbackProduct,
 } from "../features/rules/utils/products";
 import {parsePositiveInt} from "../shared/utils/validation";
 import type {
-  ProductRule,
+  ProductRuleTargetType,
   ProductRuleWithProducts,
   ProductSummary,
 } from "../features/rules/utils/rule-types";
@@ -40,6 +77,7 @@ import {toZoneLabel} from "../features/rules/utils/shipping-zones";
 // 画面描画に必要なデータセット（flashMessageを付与）
 type LoaderData = ZoneRuleDetailData & {
   flashMessage: {text: string; tone: "success" | "critical"} | null;
+  applyOrderIds: string[];
 };
 
 // 保存処理の結果
@@ -47,20 +85,90 @@ type ActionData =
   | {ok: true; message: string}
   | {ok: false; message: string};
 
+// 保存前の影響プレビューの結果（payload はプレビューした入力内容）
+type PreviewActionData =
+  | {ok: true; preview: ZoneRuleImpactPreview; payload: string}
+  | {ok: false; message: string};
+
+// 未発送の注文への反映の進み具合（残りの注文 ID と、ここまでの件数）
+type ApplyOrdersProgress = {
+  remainingIds: string[];
+  updated: number;
+  skipped: number;
+  failed: number;
+};
+
+type ApplyOrdersActionData = ({ok: true} & ApplyOrdersProgress) | {ok: false; message: string};
+
+// 未発送の注文へ1回の操作で反映する件数（注文ごとに Admin API を数回呼ぶため小さめ）
+const APPLY_ORDERS_BATCH_SIZE = 10;
+
+const parseOrderIds = (value: FormDataEntryValue | null) =>
+  String(value ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => /^\d+$/.test(id));
+
+const parseCount = (value: FormDataEntryValue | null) => {
+  const count = Number(value ?? 0);
+  return Number.isInteger(count) && count >= 0 ? count : 0;
+};
+
+const TIME_SLOT_DAYS_HELP_TEXT =
+  "お届け時間帯によって出荷までの日数を増減します（例: 午前中のお届けは1日早く出荷する場合「午前中:+1」）。";
+
+// 配送ケースごとの配送日数の入力中の文字列
+type EditableTransitRow = {
+  shippingRateId: string;
+  title: string;
+  prefectureText: string;
+  postalText: string;
+};
+
+const toTransitRows = (
+  rates: ShippingRateEntry[],
+  transitDays: Record<string, TransitDays>,
+): EditableTransitRow[] =>
+  rates.map((rate) => ({
+    shippingRateId: rate.shippingRateId,
+    title: rate.title,
+    prefectureText: formatPrefectureDays(transitDays[rate.shippingRateId]),
+    postalText: formatPostalPrefixDays(transitDays[rate.shippingRateId]),
+  }));
+
+// プレビューで一覧に表示する注文の上限
+const PREVIEW_CHANGE_ROWS = 20;
+
+const formatShift = (days: number | null) => {
+  if (days == null) return "-";
+  return `${days > 0 ? "+" : ""}${days}日`;
+};
+
 // バリデーション済みのペイロードをサーバーへ送るためにシリアライズ
 const serializePayload = (
   zoneKey: string,
   baseDays: string,
+  baseMode: string,
+  baseSlotText: string,
   baseId: string | null,
-  productRules: Array<ProductRule | ProductRuleWithProducts>,
+  productRules: EditableProductRule[],
+  transitRows: EditableTransitRow[],
 ) => {
   return JSON.stringify({
     zoneKey,
-    base: {id: baseId, days: baseDays},
+    base: {id: baseId, days: baseDays, leadDaysMode: baseMode || null, timeSlotDays: baseSlotText},
     productRules: productRules.map((rule) => ({
       id: rule.id,
-      productIds: rule.productIds,
+      targetType: rule.targetType,
+      targetIds: rule.targetIds,
       days: rule.days,
+      leadDaysMode: rule.leadDaysMode ?? null,
+      timeSlotDays: rule.timeSlotText,
+    })),
+    transitDays: transitRows.map((row) => ({
+      shippingRateId: row.shippingRateId,
+      prefectures: row.prefectureText,
+      postalPrefixes: row.postalText,
     })),
   });
 };
@@ -82,6 +190,7 @@ export const loader = async ({request, params}: LoaderFunctionArgs) => {
   return {
     ...ruleDetail,
     flashMessage: flashText ? {text: flashText, tone: flashTone} : null,
+    applyOrderIds: parseOrderIds(url.searchParams.get("applyOrders")),
   } satisfies LoaderData;
 };
 
@@ -99,7 +208,21 @@ export const action = async ({request, params}: ActionFunctionArgs) => {
   const form = await request.formData();
   const actionType = String(form.get("_action") ?? "");
 
-  if (actionType !== "save_all") {
+  // 保存後に、未発送の注文へ新しい出荷期限を少しずつ反映する（画面から繰り返し呼ぶ）
+  if (actionType === "apply_orders") {
+    const orderIds = parseOrderIds(form.get("orderIds"));
+    const batchIds = orderIds.slice(0, APPLY_ORDERS_BATCH_SIZE);
+    const result = await applyShipByToOrderIds(session.shop, batchIds);
+    return {
+      ok: true,
+      remainingIds: orderIds.slice(batchIds.length),
+      updated: parseCount(form.get("updated")) + result.updated,
+      skipped: parseCount(form.get("skipped")) + result.skipped,
+      failed: parseCount(form.get("failed")) + result.failed,
+    } satisfies ApplyOrdersActionData;
+  }
+
+  if (actionType !== "save_all" && actionType !== "preview") {
     return {ok: false, message: "不明な操作です"} satisfies ActionData;
   }
 
@@ -117,23 +240,48 @@ export const action = async ({request, params}: ActionFunctionArgs) => {
     return {ok: false, message: normalized.message} satisfies ActionData;
   }
 
-  await persistZoneRulePayload({
-    shopId: session.shop,
-    zoneKey,
+  const draft = {
     baseId: payload.base.id,
     baseDays: normalized.baseDays,
+    baseLeadDaysMode: normalized.baseLeadDaysMode,
+    baseTimeSlotDays: normalized.baseTimeSlotDays,
     productRules: normalized.productRules,
-  });
+    transitDays: normalized.transitDays,
+  };
 
-  return redirect(
-    `/app/rules/${encodeURIComponent(zoneKey)}?message=${encodeURIComponent("保存しました")}&tone=success`,
-  );
+  // 保存せずに、直近の注文の出荷期限がどう変わるかだけを返す
+  if (actionType === "preview") {
+    const {preview} = await previewZoneRuleImpact({shopId: session.shop, zoneKey, draft});
+    return {ok: true, preview, payload: rawPayload} satisfies PreviewActionData;
+  }
+
+  // 反映対象は保存前のルールと比べて出荷期限が変わる未発送の注文。
+  // 保存の応答を待たせないよう、ここでは ID を返すだけにして画面から少しずつ反映する
+  const openChangedIds =
+    form.get("applyToOpenOrders") === "1"
+      ? (
+          await previewZoneRuleImpact({shopId: session.shop, zoneKey, draft})
+        ).openChangedPayloads.map((payload) => String(payload.id))
+      : [];
+
+  await persistZoneRulePayload({shopId: session.shop, zoneKey, ...draft});
+
+  const search = new URLSearchParams({message: "保存しました", tone: "success"});
+  if (openChangedIds.length > 0) {
+    search.set("applyOrders", openChangedIds.join(","));
+  }
+  return redirect(`/app/rules/${encodeURIComponent(zoneKey)}?${search.toString()}`);
 };
 
 export const shouldRevalidate: ShouldRevalidateFunction = ({
   actionResult,
+  formData,
   defaultShouldRevalidate,
 }) => {
+  // プレビュー・注文への反映はルールを変えないので、編集中の内容をローダーで上書きしない
+  if (formData?.get("_action") === "preview" || formData?.get("_action") === "apply_orders") {
+    return false;
+  }
   if (
     actionResult &&
     typeof actionResult === "object" &&
@@ -146,15 +294,17 @@ export const shouldRevalidate: ShouldRevalidateFunction = ({
   return defaultShouldRevalidate;
 };
 
-// 画面側で一意に識別するためのclientIdを付与した編集用ルール
+// 画面側で一意に識別するためのclientIdを付与した編集用ルール（targetText はタグ等の、timeSlotText は時間帯ごとの日数の入力中の文字列）
 type EditableProductRule = ProductRuleWithProducts & {
   clientId: string;
+  targetText: string;
+  timeSlotText: string;
 };
 
 type ResourcePickerResult = {selection?: unknown[]} | unknown[];
 
 type ResourcePickerOptions = {
-  type: "product";
+  type: "product" | "variant" | "collection";
   action: "select";
   multiple: boolean;
   filter?: {variants?: boolean};
@@ -172,10 +322,11 @@ const getSelectionId = (item: unknown) => {
   return record?.id ?? record?.admin_graphql_api_id;
 };
 
-const normalizeProductId = (value: unknown): string | null => {
+// 商品を選ぶときはバリエーションのIDを除外する
+const normalizeTargetId = (value: unknown, targetType: ProductRuleTargetType): string | null => {
   if (value == null) return null;
   const id = String(value);
-  if (!id || id.includes("ProductVariant")) return null;
+  if (!id || (targetType === "product" && id.includes("ProductVariant"))) return null;
   return id;
 };
 
@@ -188,41 +339,150 @@ const withProductsForIds = (productIds: string[], products: ProductSummary[]) =>
 // サーバーからのデータをクライアント側の編集形式へ変換
 const hydrateRow = (rule: ProductRuleWithProducts, idx: number): EditableProductRule => ({
   ...rule,
-  products: withProductsForIds(rule.productIds, rule.products ?? []),
+  products: withProductsForIds(rule.targetIds, rule.products ?? []),
   clientId: rule.id ?? `existing-${idx}`,
+  targetText: isPickerTargetType(rule.targetType) ? "" : rule.targetIds.join(", "),
+  timeSlotText: formatTimeSlotDays(rule.timeSlotDays),
 });
 
 // 配送レートごとの出荷ルール詳細・編集ページ
 export default function RuleDetailPage() {
-  const {zone, base, productRules, flashMessage, defaultLeadDays} = useLoaderData<LoaderData>();
+  const {
+    zone,
+    rates,
+    base,
+    productRules,
+    transitDays,
+    flashMessage,
+    defaultLeadDays,
+    defaultLeadDaysMode,
+    applyOrderIds,
+  } = useLoaderData<LoaderData>();
   const actionData = useActionData<ActionData>();
   const location = useLocation();
+  const navigate = useNavigate();
   const baseDaysFromLoader = base ? String(base.days) : "";
   const [baseDays, setBaseDays] = useState<string>(baseDaysFromLoader);
+  const baseModeFromLoader = base?.leadDaysMode ?? "";
+  const [baseMode, setBaseMode] = useState<string>(baseModeFromLoader);
+  const baseSlotTextFromLoader = formatTimeSlotDays(base?.timeSlotDays);
+  const [baseSlotText, setBaseSlotText] = useState<string>(baseSlotTextFromLoader);
   const isSettingsReady = defaultLeadDays != null && defaultLeadDays > 0;
   const bannerText = actionData?.message ?? flashMessage?.text;
   const bannerTone = actionData ? "critical" : flashMessage?.tone ?? "success";
   const successMessage = bannerTone === "success" ? bannerText : null;
   const errorMessage = bannerTone === "critical" ? bannerText : null;
 
+  const previewFetcher = useFetcher<PreviewActionData>();
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [applyToOpenOrders, setApplyToOpenOrders] = useState(false);
+
+  // 保存ごとに別の fetcher にして、前回の反映結果を持ち越さない
+  const applyFetcher = useFetcher<ApplyOrdersActionData>({key: `apply-orders-${location.key}`});
+  const applyProgress = useMemo<ApplyOrdersProgress | null>(() => {
+    if (applyOrderIds.length === 0) return null;
+    if (applyFetcher.data?.ok) return applyFetcher.data;
+    return {remainingIds: applyOrderIds, updated: 0, skipped: 0, failed: 0};
+  }, [applyFetcher.data, applyOrderIds]);
+  const applyError = applyFetcher.data && !applyFetcher.data.ok ? applyFetcher.data.message : null;
+
   const [productRows, setProductRows] = useState<EditableProductRule[]>(() =>
     productRules.map((rule, idx) => hydrateRow(rule, idx)),
   );
+  const [transitRows, setTransitRows] = useState<EditableTransitRow[]>(() =>
+    toTransitRows(rates, transitDays),
+  );
 
   // ローダーが更新されたときの初期同期
   useEffect(() => {
     setBaseDays(baseDaysFromLoader);
+    setBaseMode(baseModeFromLoader);
+    setBaseSlotText(baseSlotTextFromLoader);
     setProductRows(productRules.map((rule, idx) => hydrateRow(rule, idx)));
-  }, [base?.days, base?.id, baseDaysFromLoader, productRules]);
+    setTransitRows(toTransitRows(rates, transitDays));
+    setIsPreviewOpen(false);
+  }, [
+    base?.days,
+    base?.id,
+    baseDaysFromLoader,
+    baseModeFromLoader,
+    baseSlotTextFromLoader,
+    productRules,
+    rates,
+    transitDays,
+  ]);
+
+  // 数え方の選択肢（未選択なら設定の数え方に従う）
+  const modeOptions = useMemo(
+    () => [
+      {label: `設定に従う（${LEAD_DAYS_MODE_LABELS[defaultLeadDaysMode]}）`, value: ""},
+      ...LEAD_DAYS_MODE_OPTIONS,
+    ],
+    [defaultLeadDaysMode],
+  );
 
   // サーバーへ送るペイロード文字列
   const serializedPayload = useMemo(
-    () => serializePayload(zone.key, baseDays, base?.id ?? null, productRows),
-    [zone.key, baseDays, base?.id, productRows],
+    () =>
+      serializePayload(
+        zone.key,
+        baseDays,
+        baseMode,
+        baseSlotText,
+        base?.id ?? null,
+        productRows,
+        transitRows,
+      ),
+    [zone.key, baseDays, baseMode, baseSlotText, base?.id, productRows, transitRows],
   );
 
-  // Shopifyのリソースピッカーで商品選択を行い、行の内容を更新
+  // 入力内容を変えたら、古いプレビューは表示しない
+  const previewData = previewFetcher.data;
+  const preview =
+    isPreviewOpen && previewData?.ok && previewData.payload === serializedPayload
+      ? previewData.preview
+      : null;
+  const previewError = isPreviewOpen && previewData && !previewData.ok ? previewData.message : null;
+  const isPreviewLoading = previewFetcher.state !== "idle";
+
+  // 未発送の注文へ1バッチずつ反映し、終わったら結果を表示する（画面を開いている間だけ）
+  useEffect(() => {
+    if (!applyProgress || applyError || applyFetcher.state !== "idle") return;
+    const {remainingIds, updated, skipped, failed} = applyProgress;
+    if (remainingIds.length > 0) {
+      applyFetcher.submit(
+        {
+          _action: "apply_orders",
+          orderIds: remainingIds.join(","),
+          updated: String(updated),
+          skipped: String(skipped),
+          failed: String(failed),
+        },
+        {method: "post"},
+      );
+      return;
+    }
+    const skippedText = skipped > 0 ? `（発送・キャンセル済みの${skipped}件はスキップ）` : "";
+    const failedText = failed > 0 ? `。${failed}件は失敗しました` : "";
+    const search = new URLSearchParams({
+      message: `未発送の注文${updated}件の出荷期限を更新しました${skippedText}${failedText}`,
+      tone: failed > 0 ? "critical" : "success",
+    });
+    navigate(`/app/rules/${encodeURIComponent(zone.key)}?${search.toString()}`, {replace: true});
+  }, [applyError, applyFetcher, applyProgress, navigate, zone.key]);
+
+  // 保存の前に、直近の注文への影響をサーバーで計算する
+  const runPreview = () => {
+    setIsPreviewOpen(true);
+    setApplyToOpenOrders(false);
+    previewFetcher.submit({_action: "preview", payload: serializedPayload}, {method: "post"});
+  };
+
+  // Shopifyのリソースピッカーで商品・バリエーション・コレクションを選び、行の内容を更新
   const openProductPicker = async (index: number) => {
+    const targetType = productRows[index]?.targetType ?? "product";
+    if (!isPickerTargetType(targetType)) return;
+    const pickerType = targetType as ResourcePickerOptions["type"];
     try {
       const picker = (window as ShopifyWindow)?.shopify?.resourcePicker;
       if (typeof picker !== "function") {
@@ -230,11 +490,11 @@ export default function RuleDetailPage() {
         return;
       }
       const result = await picker({
-        type: "product",
+        type: pickerType,
         action: "select",
         multiple: true,
-        filter: {variants: false},
-        selectionIds: productRows[index]?.productIds?.map((id) => ({id})),
+        filter: pickerType === "product" ? {variants: false} : undefined,
+        selectionIds: productRows[index]?.targetIds?.map((id) => ({id})),
       });
       if (!result) return;
       const selectionItems = Array.isArray(result)
@@ -243,14 +503,14 @@ export default function RuleDetailPage() {
           ? result.selection
           : [];
       const summaries = selectionItems
-        .map((item) => selectionToProductSummary(item))
+        .map((item) => selectionToTargetSummary(item, pickerType))
         .filter((item): item is ProductSummary => Boolean(item));
       const selectionMap = new Map(summaries.map((item) => [item.id, item]));
 
       const ids = Array.from(
         new Set(
           selectionItems
-            .map((item) => normalizeProductId(getSelectionId(item)))
+            .map((item) => normalizeTargetId(getSelectionId(item), targetType))
             .filter((value): value is string => Boolean(value)),
         ),
       );
@@ -262,7 +522,7 @@ export default function RuleDetailPage() {
           );
           return {
             ...row,
-            productIds: ids,
+            targetIds: ids,
             products: mergedProducts,
           };
         }),
@@ -279,7 +539,10 @@ export default function RuleDetailPage() {
       {
         id: null,
         clientId: `new-${Date.now()}`,
-        productIds: [],
+        targetType: "product",
+        targetIds: [],
+        targetText: "",
+        timeSlotText: "",
         products: [],
         days: DEFAULT_PRODUCT_DAYS,
       },
@@ -291,6 +554,13 @@ export default function RuleDetailPage() {
     setProductRows((prev) => prev.filter((row) => row.clientId !== clientId));
   };
 
+  // 配送ケースの配送日数を部分更新する
+  const updateTransitRow = (shippingRateId: string, patch: Partial<EditableTransitRow>) => {
+    setTransitRows((prev) =>
+      prev.map((row) => (row.shippingRateId === shippingRateId ? {...row, ...patch} : row)),
+    );
+  };
+
   // 行単位で部分更新する
   const updateProductRule = (clientId: string, patch: Partial<EditableProductRule>) => {
     setProductRows((prev) =>
@@ -302,26 +572,115 @@ export default function RuleDetailPage() {
     <Form
       method="post"
       id="rule-form"
+      onSubmit={(event) => {
+        if (preview) return;
+        event.preventDefault();
+        runPreview();
+      }}
     >
       <input type="hidden" name="_action" value="save_all" />
       <input type="hidden" name="payload" value={serializedPayload} />
+      <input type="hidden" name="applyToOpenOrders" value={applyToOpenOrders ? "1" : ""} />
 
       <Page
         title={`出荷ルール詳細 / ${toZoneLabel(zone.name)}`}
         backAction={{content: "一覧に戻る", url: "/app/rules"}}
         primaryAction={
-          <Button submit variant="primary" disabled={!isSettingsReady}>
-            保存
+          <Button submit variant="primary" disabled={!isSettingsReady} loading={isPreviewLoading}>
+            {preview ? "この内容で保存" : "保存"}
           </Button>
         }
       >
         <BlockStack gap="400">
           <SuccessToast message={successMessage} nonce={location.key} />
-          <CriticalBanner message={errorMessage} />
+          <CriticalBanner message={errorMessage ?? previewError ?? applyError} />
+          {applyProgress && !applyError ? (
+            <Banner tone="info">
+              <p>
+                {`未発送の注文に新しい出荷期限を反映しています（${applyOrderIds.length - applyProgress.remainingIds.length}件 / ${applyOrderIds.length}件）。完了するまでこの画面を閉じないでください。`}
+              </p>
+            </Banner>
+          ) : null}
           {!isSettingsReady ? (
             <SettingsRequiredBanner message="設定が未完了のため保存できません。" />
           ) : null}
 
+          {preview ? (
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  変更による出荷期限への影響
+                </Text>
+                {preview.ordersUnavailable ? (
+                  <Banner tone="warning">
+                    <p>直近の注文を取得できなかったため、影響を確認できませんでした。このまま保存できます。</p>
+                  </Banner>
+                ) : (
+                  <Text as="p" tone="subdued">
+                    直近{preview.days}日の注文{preview.impact.evaluated}件（最大{preview.limit}
+                    件）を、保存前のルールで計算し直しました。
+                  </Text>
+                )}
+                {preview.impact.changed === 0 ? (
+                  <Text as="p">出荷期限が変わる注文はありません。</Text>
+                ) : (
+                  <BlockStack gap="200">
+                    <Text as="p">
+                      出荷期限が変わる注文: {preview.impact.changed}件（早まる {preview.impact.earlier}
+                      件 / 遅くなる {preview.impact.later}件）
+                    </Text>
+                    <InlineStack gap="200">
+                      {preview.impact.shifts.map((shift) => (
+                        <Badge key={shift.days} tone={shift.days < 0 ? "attention" : "info"}>
+                          {`${formatShift(shift.days)}: ${shift.count}件`}
+                        </Badge>
+                      ))}
+                    </InlineStack>
+                    {preview.impact.newlyFailed > 0 ? (
+                      <Text as="p" tone="critical">
+                        新しいルールでは出荷期限を計算できなくなる注文: {preview.impact.newlyFailed}件
+                      </Text>
+                    ) : null}
+                    {preview.impact.resolved > 0 ? (
+                      <Text as="p">
+                        新しいルールで出荷期限を計算できるようになる注文: {preview.impact.resolved}件
+                      </Text>
+                    ) : null}
+                    <DataTable
+                      columnContentTypes={["text", "text", "text", "text", "text"]}
+                      headings={["注文", "現在の出荷期限", "変更後", "差", "状態"]}
+                      rows={preview.impact.changes.slice(0, PREVIEW_CHANGE_ROWS).map((change) => [
+                        change.orderName ?? change.orderId,
+                        change.before ?? "計算できず",
+                        change.after ?? "計算できず",
+                        formatShift(change.shiftDays),
+                        change.open ? "未発送" : "発送済み・キャンセル",
+                      ])}
+                    />
+                    {preview.impact.changed > PREVIEW_CHANGE_ROWS ? (
+                      <Text as="p" tone="subdued">
+                        ほか{preview.impact.changed - PREVIEW_CHANGE_ROWS}件
+                      </Text>
+                    ) : null}
+                  </BlockStack>
+                )}
+                <Checkbox
+                  label={`未発送の注文にも新しい出荷期限を反映する（${preview.impact.openChanged}件）`}
+                  helpText="オフの場合、保存したルールはこれから作成される注文にだけ使われます。"
+                  checked={applyToOpenOrders}
+                  onChange={setApplyToOpenOrders}
+                  disabled={preview.impact.openChanged === 0}
+                />
+                <InlineStack gap="200">
+                  <Button submit variant="primary">
+                    この内容で保存
+                  </Button>
+                  <Button onClick={() => setIsPreviewOpen(false)}>編集に戻る</Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          ) : null}
+
           <Card>
             <BlockStack gap="300">
               <Text as="h2" variant="headingMd">
@@ -341,6 +700,22 @@ export default function RuleDetailPage() {
                 helpText="未入力の場合は設定が適用されます。"
                 disabled={!isSettingsReady}
               />
+              <Select
+                label="日数の数え方"
+                options={modeOptions}
+                value={baseMode}
+                onChange={setBaseMode}
+                disabled={!isSettingsReady}
+              />
+              <TextField
+                label="時間帯ごとの日数（任意）"
+                autoComplete="off"
+                value={baseSlotText}
+                onChange={setBaseSlotText}
+                placeholder="午前中:+1, 19-21:-1"
+                helpText={TIME_SLOT_DAYS_HELP_TEXT}
+                disabled={!isSettingsReady}
+              />
             </BlockStack>
           </Card>
 
@@ -359,18 +734,49 @@ export default function RuleDetailPage() {
                   {productRows.map((row, index) => (
                     <Card key={row.clientId}>
                       <BlockStack gap="300">
-                        <div>
-                          <Text as="p" variant="bodyMd">
-                            商品
-                          </Text>
-                          <div style={{marginTop: 2}}>
-                            <ProductPreviewPills
-                              products={withProductsForIds(row.productIds, row.products)}
-                              onClick={isSettingsReady ? () => openProductPicker(index) : undefined}
-                              disabled={!isSettingsReady}
-                            />
+                        <Select
+                          label="対象"
+                          options={PRODUCT_RULE_TARGET_OPTIONS}
+                          value={row.targetType}
+                          onChange={(value) =>
+                            updateProductRule(row.clientId, {
+                              targetType: parseProductRuleTargetType(value),
+                              targetIds: [],
+                              targetText: "",
+                              products: [],
+                            })
+                          }
+                          disabled={!isSettingsReady}
+                        />
+
+                        {isPickerTargetType(row.targetType) ? (
+                          <div>
+                            <Text as="p" variant="bodyMd">
+                              {PRODUCT_RULE_TARGET_LABELS[row.targetType]}
+                            </Text>
+                            <div style={{marginTop: 2}}>
+                              <ProductPreviewPills
+                                products={withProductsForIds(row.targetIds, row.products)}
+                                onClick={isSettingsReady ? () => openProductPicker(index) : undefined}
+                                disabled={!isSettingsReady}
+                              />
+                            </div>
                           </div>
-                        </div>
+                        ) : (
+                          <TextField
+                            label={PRODUCT_RULE_TARGET_LABELS[row.targetType]}
+                            autoComplete="off"
+                            value={row.targetText}
+                            onChange={(value) =>
+                              updateProductRule(row.clientId, {
+                                targetText: value,
+                                targetIds: parseTargetValues(value),
+                              })
+                            }
+                            helpText="カンマ区切りで複数入力できます。大文字・小文字は区別しません。"
+                            disabled={!isSettingsReady}
+                          />
+                        )}
 
                         <TextField
                           label="出荷までの日数"
@@ -387,6 +793,26 @@ export default function RuleDetailPage() {
                           disabled={!isSettingsReady}
                         />
 
+                        <Select
+                          label="日数の数え方"
+                          options={modeOptions}
+                          value={row.leadDaysMode ?? ""}
+                          onChange={(value) =>
+                            updateProductRule(row.clientId, {leadDaysMode: parseLeadDaysMode(value)})
+                          }
+                          disabled={!isSettingsReady}
+                        />
+
+                        <TextField
+                          label="時間帯ごとの日数（任意）"
+                          autoComplete="off"
+                          value={row.timeSlotText}
+                          onChange={(value) => updateProductRule(row.clientId, {timeSlotText: value})}
+                          placeholder="午前中:+1, 19-21:-1"
+                          helpText={TIME_SLOT_DAYS_HELP_TEXT}
+                          disabled={!isSettingsReady}
+                        />
+
                         <InlineStack align="end">
                           <Button
                             tone="critical"
@@ -411,6 +837,43 @@ export default function RuleDetailPage() {
             </BlockStack>
           </Card>
 
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                お届け先ごとの配送日数
+              </Text>
+              <Text as="p" tone="subdued">
+                お届け先の都道府県・郵便番号によって、出荷までの日数に配送日数を足します。郵便番号は先頭の数字で指定し、都道府県より優先します（離島など）。
+              </Text>
+              {transitRows.map((row) => (
+                <Card key={row.shippingRateId}>
+                  <BlockStack gap="300">
+                    <Text as="h3" variant="headingSm">
+                      {row.title}
+                    </Text>
+                    <TextField
+                      label="都道府県ごとの配送日数（任意）"
+                      autoComplete="off"
+                      value={row.prefectureText}
+                      onChange={(value) => updateTransitRow(row.shippingRateId, {prefectureText: value})}
+                      placeholder="北海道:2, 沖縄県:3"
+                      disabled={!isSettingsReady}
+                    />
+                    <TextField
+                      label="郵便番号ごとの配送日数（任意）"
+                      autoComplete="off"
+                      value={row.postalText}
+                      onChange={(value) => updateTransitRow(row.shippingRateId, {postalText: value})}
+                      placeholder="907:4, 1001:3"
+                      helpText="郵便番号の先頭の数字と日数を入力します。複数一致した場合は長く一致したものを使います。"
+                      disabled={!isSettingsReady}
+                    />
+                  </BlockStack>
+                </Card>
+              ))}
+            </BlockStack>
+          </Card>
+
           <div style={{height: "60px"}}></div>
         </BlockStack>
       </Page>
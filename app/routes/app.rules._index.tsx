@@ -18,6 +18,7 @@ import {
 import prisma from "../db.server";
 import {authenticate} from "../shopify.server";
 import {getShippingRates} from "../features/shipping/server/shipping-rates.server";
+import {bumpSettingsVersion} from "../features/shop/server/shop.server";
 import {toZoneKey, toZoneLabel} from "../features/rules/utils/shipping-zones";
 import {BulkAction} from "@shopify/polaris/build/ts/src/components/BulkActions";
 import {CriticalBanner} from "../shared/components/CriticalBanner";
@@ -106,7 +107,7 @@ export const loader = async ({request}: {request: Request}) => {
       }
     }
 
-    if (rule.targetType === "product") {
+    if (rule.targetType !== "all") {
       summary.individualCount += 1;
     }
 
@@ -204,6 +205,7 @@ export const action = async ({request}: ActionFunctionArgs) => {
       });
     }
   }
+  await bumpSettingsVersion(session.shop);
 
   const redirectUrl = host
     ? `/app/rules?host=${encodeURIComponent(host)}&message=${encodeURIComponent("削除しました")}&tone=success`
@@ -1,6 +1,6 @@
 import {useEffect, useMemo, useState} from "react";
 import type {ActionFunctionArgs, LoaderFunctionArgs, ShouldRevalidateFunction} from "react-router";
-import type {DeliverySource} from "@prisma/client";
+import type {LeadDaysMode} from "@prisma/client";
 import {Form, redirect, useActionData, useLoaderData, useLocation} from "react-router";
 import {
   Autocomplete,
@@ -9,6 +9,7 @@ import {
   Button,
   Card,
   Checkbox,
+  InlineStack,
   Page,
   Select,
   Text,
@@ -18,17 +19,51 @@ import {
 
 import prisma from "../db.server";
 import {authenticate} from "../shopify.server";
+import {
+  DELIVERY_SOURCE_OPTIONS,
+  normalizeDeliveryFallbacks,
+  parseDeliveryFallbacks,
+  parseDeliverySource,
+  type DeliverySource,
+  type DeliverySourceSetting,
+} from "../features/ship-by/utils/delivery-sources";
+import {
+  LEAD_DAYS_MODE_OPTIONS,
+  parseLeadDaysMode,
+} from "../features/ship-by/utils/lead-days-mode";
+import {DEFAULT_NOTE_FORMAT} from "../features/ship-by/utils/ship-by-note";
+import {ASAP_TAG} from "../features/ship-by/utils/ship-by-tags";
+import {
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  parseCutoffTime,
+} from "../features/ship-by/utils/shop-time";
+import {buildShipByTemplateMatcher} from "../features/ship-by/utils/ship-by-template";
+import {
+  isTolerantFormat,
+  parseTolerantDate,
+  TOLERANT_DELIVERY_FORMAT,
+} from "../features/ship-by/utils/japanese-date";
 import {parsePositiveInt} from "../shared/utils/validation";
 import {CriticalBanner} from "../shared/components/CriticalBanner";
 import {SuccessToast} from "../shared/components/SuccessToast";
 
 type LoaderData = {
   defaultLeadDays: number | null;
-  deliverySource: "metafield" | "attributes" | null;
+  leadDaysMode: LeadDaysMode;
+  timezone: string | null;
+  shopTimeZone: string | null;
+  cutoffTime: string | null;
+  deliverySource: DeliverySource | null;
   deliveryKey: string | null;
   deliveryFormat: string | null;
+  deliveryFallbacks: DeliverySourceSetting[];
+  deliveryTimeSlotKey: string | null;
+  asapWhenNoDeliveryDate: boolean;
   saveTag: boolean;
   saveTagFormat: string | null;
+  saveNote: boolean;
+  saveNoteFormat: string | null;
   deliveryCandidates: DeliveryCandidate[];
   flashMessage: {text: string; tone: "success" | "critical"} | null;
 };
@@ -40,8 +75,12 @@ type ActionData =
     message: string;
     fieldErrors?: {
       defaultLeadDays?: string;
+      timezone?: string;
+      cutoffTime?: string;
       deliverySource?: string;
       deliveryKey?: string;
+      deliveryFallbacks?: string;
+      saveNoteFormat?: string;
     };
   };
 
@@ -52,10 +91,21 @@ const FORMAT_PRESETS = [
   {label: "YYYY/MM/DD", value: "YYYY/MM/DD"},
   {label: "YYYY/MM/DD (ddd)", value: "YYYY/MM/DD (ddd)"},
   {label: "YYYY年MM月DD日", value: "YYYY年MM月DD日"},
+  {label: "自動判定（全角数字・和暦・年なしの日付にも対応）", value: TOLERANT_DELIVERY_FORMAT},
 ] as const;
 const WEEKDAY_TOKEN = "(?:Sun|Mon|Tue|Wed|Thu|Fri|Sat|日|月|火|水|木|金|土)";
 const missingCandidateId = (key: string) => `missing:${key}`;
 
+// 予備の取得元の入力行（書式は未入力なら既定の書式）
+type FallbackRow = {source: DeliverySource; key: string; format: string};
+
+const toFallbackRows = (fallbacks: DeliverySourceSetting[]): FallbackRow[] =>
+  fallbacks.map((fallback) => ({
+    source: fallback.source,
+    key: fallback.key,
+    format: fallback.format ?? "",
+  }));
+
 type DeliveryCandidate = {
   id: string;
   source: "metafield" | "attributes";
@@ -86,6 +136,10 @@ const dateFromParts = (year: number, month: number, day: number) => {
 };
 
 const parseDateWithFormat = (raw: string, format: string) => {
+  // 年のない日付は今日を注文日とみなして年を決める
+  if (isTolerantFormat(format)) {
+    return parseTolerantDate(raw, new Date(`${new Date().toISOString().slice(0, 10)}T00:00:00.000Z`));
+  }
   const regex = buildFormatRegex(format);
   const match = regex.exec(raw.trim());
   if (!match?.groups) return null;
@@ -161,15 +215,24 @@ export const loader = async ({request}: LoaderFunctionArgs) => {
     where: {shopId: session.shop},
     select: {
       defaultLeadDays: true,
+      leadDaysMode: true,
+      timezone: true,
+      cutoffTime: true,
       deliverySource: true,
       deliveryKey: true,
       deliveryFormat: true,
+      deliveryFallbacks: true,
+      deliveryTimeSlotKey: true,
+      asapWhenNoDeliveryDate: true,
       saveTag: true,
       saveTagFormat: true,
+      saveNote: true,
+      saveNoteFormat: true,
     },
   });
 
   let deliveryCandidates: DeliveryCandidate[] = [];
+  let shopTimeZone: string | null = null;
 
   try {
     const response = await admin.graphql(
@@ -181,22 +244,36 @@ export const loader = async ({request}: LoaderFunctionArgs) => {
             key
           }
         }
+        shop {
+          ianaTimezone
+        }
       }`,
       {variables: {first: 50}},
     );
     const json = await response.json();
     deliveryCandidates = buildCandidates(json);
+    const ianaTimezone = json?.data?.shop?.ianaTimezone;
+    shopTimeZone = isValidTimeZone(ianaTimezone) ? ianaTimezone : null;
   } catch (error) {
     console.warn("[settings] failed to load delivery candidates", error);
   }
 
   return {
     defaultLeadDays: setting?.defaultLeadDays ?? null,
+    leadDaysMode: setting?.leadDaysMode ?? "calendar",
+    timezone: setting?.timezone ?? null,
+    shopTimeZone,
+    cutoffTime: setting?.cutoffTime ?? null,
     deliverySource: setting?.deliverySource ?? null,
     deliveryKey: setting?.deliveryKey ?? null,
     deliveryFormat: setting?.deliveryFormat ?? null,
+    deliveryFallbacks: parseDeliveryFallbacks(setting?.deliveryFallbacks),
+    deliveryTimeSlotKey: setting?.deliveryTimeSlotKey ?? null,
+    asapWhenNoDeliveryDate: setting?.asapWhenNoDeliveryDate ?? false,
     saveTag: setting?.saveTag ?? false,
     saveTagFormat: setting?.saveTagFormat ?? null,
+    saveNote: setting?.saveNote ?? false,
+    saveNoteFormat: setting?.saveNoteFormat ?? null,
     deliveryCandidates,
     flashMessage: flashText ? {text: flashText, tone: flashTone} : null,
   } satisfies LoaderData;
@@ -209,26 +286,47 @@ export const action = async ({request}: ActionFunctionArgs) => {
   const form = await request.formData();
   const rawDays = form.get("defaultLeadDays");
   const parsedDays = parsePositiveInt(rawDays);
+  const leadDaysMode = parseLeadDaysMode(form.get("leadDaysMode")) ?? "calendar";
+  const rawTimeZone = String(form.get("timezone") ?? "").trim();
+  const rawCutoffTime = String(form.get("cutoffTime") ?? "").trim();
+  const cutoffTime = parseCutoffTime(rawCutoffTime);
   const rawSource = String(form.get("deliverySource") ?? "").trim();
   const rawKey = String(form.get("deliveryKey") ?? "").trim();
   const rawFormat = String(form.get("deliveryFormat") ?? "").trim();
+  const fallbacksResult = normalizeDeliveryFallbacks(String(form.get("deliveryFallbacks") ?? ""));
+  const rawTimeSlotKey = String(form.get("deliveryTimeSlotKey") ?? "").trim();
+  const asapWhenNoDeliveryDate = form.get("asapWhenNoDeliveryDate") != null;
   const rawSaveTag = form.get("saveTag");
   const saveTag = rawSaveTag != null;
   const rawSaveTagFormat = String(form.get("saveTagFormat") ?? "").trim();
+  const saveNote = form.get("saveNote") != null;
+  const rawSaveNoteFormat = String(form.get("saveNoteFormat") ?? "").trim();
 
   const fieldErrors: NonNullable<Exclude<ActionData, {ok: true}>>["fieldErrors"] = {};
   if (!parsedDays) {
     fieldErrors.defaultLeadDays = "設定の出荷日数は1以上の整数で入力してください";
   }
-  const isValidSource = rawSource === "metafield" || rawSource === "attributes";
-  if (!isValidSource) {
+  if (rawTimeZone && !isValidTimeZone(rawTimeZone)) {
+    fieldErrors.timezone = "タイムゾーンは Asia/Tokyo のような IANA 形式で入力してください";
+  }
+  if (rawCutoffTime && !cutoffTime) {
+    fieldErrors.cutoffTime = "締め時刻は HH:MM 形式で入力してください";
+  }
+  const deliverySource = parseDeliverySource(rawSource);
+  if (!deliverySource) {
     fieldErrors.deliverySource = "取得方法を選択してください";
   }
   if (!rawKey) {
     fieldErrors.deliveryKey = "取得キーを入力してください";
   }
+  if (!fallbacksResult.ok) {
+    fieldErrors.deliveryFallbacks = fallbacksResult.message;
+  }
+  if (saveNote && rawSaveNoteFormat && !buildShipByTemplateMatcher(rawSaveNoteFormat)) {
+    fieldErrors.saveNoteFormat = "メモの書式には {YYYY}・{MM}・{DD} のいずれかを含めてください";
+  }
 
-  if (Object.keys(fieldErrors).length > 0) {
+  if (Object.keys(fieldErrors).length > 0 || !deliverySource || !fallbacksResult.ok) {
     return {
       ok: false,
       message: "入力内容を確認してください",
@@ -236,28 +334,45 @@ export const action = async ({request}: ActionFunctionArgs) => {
     } satisfies ActionData;
   }
 
-  const deliverySource = rawSource as DeliverySource;
+  const deliveryFallbacks = fallbacksResult.value;
 
   await prisma.shopSetting.upsert({
     where: {shopId: session.shop},
     create: {
       shopId: session.shop,
       defaultLeadDays: parsedDays,
+      leadDaysMode,
+      timezone: rawTimeZone || null,
+      cutoffTime,
       deliverySource,
       deliveryKey: rawKey,
       deliveryFormat: rawFormat || null,
+      deliveryFallbacks,
+      deliveryTimeSlotKey: rawTimeSlotKey || null,
+      asapWhenNoDeliveryDate,
       saveTag,
       saveMetafield: true,
       saveTagFormat: rawSaveTagFormat || null,
+      saveNote,
+      saveNoteFormat: rawSaveNoteFormat || null,
     },
     update: {
+      settingsVersion: {increment: 1},
       defaultLeadDays: parsedDays,
+      leadDaysMode,
+      timezone: rawTimeZone || null,
+      cutoffTime,
       deliverySource,
       deliveryKey: rawKey,
       deliveryFormat: rawFormat || null,
+      deliveryFallbacks,
+      deliveryTimeSlotKey: rawTimeSlotKey || null,
+      asapWhenNoDeliveryDate,
       saveTag,
       saveMetafield: true,
       saveTagFormat: rawSaveTagFormat || null,
+      saveNote,
+      saveNoteFormat: rawSaveNoteFormat || null,
     },
   });
 
@@ -288,19 +403,31 @@ export const shouldRevalidate: ShouldRevalidateFunction = ({
 export default function SettingsPage() {
   const {
     defaultLeadDays,
+    leadDaysMode,
+    timezone,
+    shopTimeZone,
+    cutoffTime,
     deliverySource,
     deliveryKey,
     deliveryFormat,
+    deliveryFallbacks,
+    deliveryTimeSlotKey,
+    asapWhenNoDeliveryDate,
     saveTag,
     saveTagFormat,
+    saveNote,
+    saveNoteFormat,
     deliveryCandidates,
     flashMessage,
   } = useLoaderData<LoaderData>();
   const actionData = useActionData<ActionData>();
   const location = useLocation();
   const [leadDays, setLeadDays] = useState(defaultLeadDays ? String(defaultLeadDays) : "");
+  const [mode, setMode] = useState<string>(leadDaysMode);
+  const [timeZoneValue, setTimeZoneValue] = useState(timezone ?? shopTimeZone ?? "");
+  const [cutoffValue, setCutoffValue] = useState(cutoffTime ?? "");
   const initialSource = deliverySource ?? "metafield";
-  const [source, setSource] = useState<string>(initialSource);
+  const [source, setSource] = useState<DeliverySource>(initialSource);
   const [key, setKey] = useState(deliveryKey ?? "");
   const [metafieldKey, setMetafieldKey] = useState(
     initialSource === "metafield" ? deliveryKey ?? "" : "",
@@ -308,6 +435,12 @@ export default function SettingsPage() {
   const [attributeKey, setAttributeKey] = useState(
     initialSource === "attributes" ? deliveryKey ?? "" : "",
   );
+  const [propertyKey, setPropertyKey] = useState(
+    initialSource === "line_item_property" ? deliveryKey ?? "" : "",
+  );
+  const [fallbacks, setFallbacks] = useState<FallbackRow[]>(() => toFallbackRows(deliveryFallbacks));
+  const [timeSlotKey, setTimeSlotKey] = useState(deliveryTimeSlotKey ?? "");
+  const [isAsap, setIsAsap] = useState(asapWhenNoDeliveryDate);
   const [format, setFormat] = useState(deliveryFormat ?? "");
   const [formatPresetSelection, setFormatPresetSelection] = useState(
     resolvePresetValue(deliveryFormat ?? ""),
@@ -319,10 +452,9 @@ export default function SettingsPage() {
   const [candidateQuery, setCandidateQuery] = useState("");
   const [isSaveTag, setIsSaveTag] = useState(saveTag);
   const [tagFormat, setTagFormat] = useState(saveTagFormat ?? "");
-  const isFormReady =
-    parsePositiveInt(leadDays) != null &&
-    (source === "metafield" || source === "attributes") &&
-    key.trim() !== "";
+  const [isSaveNote, setIsSaveNote] = useState(saveNote);
+  const [noteFormat, setNoteFormat] = useState(saveNoteFormat ?? "");
+  const isFormReady = parsePositiveInt(leadDays) != null && key.trim() !== "";
   const bannerText = actionData && !actionData.ok ? actionData.message : flashMessage?.text;
   const bannerTone = actionData && !actionData.ok ? "critical" : flashMessage?.tone ?? "success";
   const successMessage = bannerTone === "success" ? bannerText : null;
@@ -338,7 +470,9 @@ export default function SettingsPage() {
     if (!parsed) {
       return {
         ok: false,
-        message: `「${formatForPreview}」に一致しません${formatHint}。括弧やスペースも一致が必要です。`,
+        message: isTolerantFormat(formatForPreview)
+          ? "日付として読み取れません。"
+          : `「${formatForPreview}」に一致しません${formatHint}。括弧やスペースも一致が必要です。`,
       };
     }
     return {ok: true, value: toISODate(parsed), hint: formatHint};
@@ -390,13 +524,15 @@ export default function SettingsPage() {
     const query = candidateQuery.trim().toLowerCase();
     return candidateOptions.filter((option) => option.label.toLowerCase().includes(query));
   }, [candidateOptions, candidateQuery]);
-  const setSourceValue = (nextSource: "metafield" | "attributes") => {
+  const setSourceValue = (nextSource: DeliverySource) => {
     setSource(nextSource);
     if (nextSource === "metafield") {
       setKey(metafieldKey);
       if (!format.trim()) {
         setFormat(DEFAULT_DATE_FORMAT);
       }
+    } else if (nextSource === "line_item_property") {
+      setKey(propertyKey);
     } else {
       setKey(attributeKey);
     }
@@ -456,13 +592,49 @@ export default function SettingsPage() {
     setKey(value);
   };
 
+  const handlePropertyKeyChange = (value: string) => {
+    setPropertyKey(value);
+    setKey(value);
+  };
+
+  const updateFallback = (index: number, patch: Partial<FallbackRow>) => {
+    setFallbacks((current) =>
+      current.map((row, rowIndex) => (rowIndex === index ? {...row, ...patch} : row)),
+    );
+  };
+
+  const moveFallback = (index: number, offset: -1 | 1) => {
+    setFallbacks((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeFallback = (index: number) => {
+    setFallbacks((current) => current.filter((_, rowIndex) => rowIndex !== index));
+  };
+
+  const addFallback = () => {
+    setFallbacks((current) => [...current, {source: "attributes", key: "", format: ""}]);
+  };
+
   useEffect(() => {
     setLeadDays(defaultLeadDays ? String(defaultLeadDays) : "");
+    setMode(leadDaysMode);
+    setTimeZoneValue(timezone ?? shopTimeZone ?? "");
+    setCutoffValue(cutoffTime ?? "");
     const nextSource = deliverySource ?? "metafield";
     setSource(nextSource);
     setKey(deliveryKey ?? "");
     setMetafieldKey(nextSource === "metafield" ? deliveryKey ?? "" : "");
     setAttributeKey(nextSource === "attributes" ? deliveryKey ?? "" : "");
+    setPropertyKey(nextSource === "line_item_property" ? deliveryKey ?? "" : "");
+    setFallbacks(toFallbackRows(deliveryFallbacks));
+    setTimeSlotKey(deliveryTimeSlotKey ?? "");
+    setIsAsap(asapWhenNoDeliveryDate);
     setFormat(deliveryFormat ?? "");
     setFormatPresetSelection(resolvePresetValue(deliveryFormat ?? ""));
     const matched = findCandidateId(deliveryCandidates, nextSource, deliveryKey);
@@ -473,13 +645,24 @@ export default function SettingsPage() {
     setCandidateId(matched || missingId);
     setIsSaveTag(saveTag);
     setTagFormat(saveTagFormat ?? "");
+    setIsSaveNote(saveNote);
+    setNoteFormat(saveNoteFormat ?? "");
   }, [
     defaultLeadDays,
+    leadDaysMode,
+    timezone,
+    shopTimeZone,
+    cutoffTime,
     deliverySource,
     deliveryKey,
     deliveryFormat,
+    deliveryFallbacks,
+    deliveryTimeSlotKey,
+    asapWhenNoDeliveryDate,
     saveTag,
     saveTagFormat,
+    saveNote,
+    saveNoteFormat,
     deliveryCandidates,
   ]);
 
@@ -532,6 +715,42 @@ export default function SettingsPage() {
                 helpText="配送エリアのルールが未設定なら、この日数で計算します。"
                 error={fieldErrors?.defaultLeadDays}
               />
+              <Select
+                label="日数の数え方"
+                name="leadDaysMode"
+                options={LEAD_DAYS_MODE_OPTIONS}
+                value={mode}
+                onChange={setMode}
+                helpText="営業日にすると、定休日・休業日を除いて日数を数えます。ルールごとに変更することもできます。"
+              />
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                タイムゾーンと締め時刻
+              </Text>
+              <TextField
+                label="タイムゾーン"
+                name="timezone"
+                autoComplete="off"
+                value={timeZoneValue}
+                onChange={setTimeZoneValue}
+                placeholder={shopTimeZone ?? DEFAULT_TIME_ZONE}
+                helpText={`注文日・今日の判定や集計に使います。Shopify のストア設定: ${shopTimeZone ?? "取得できませんでした"}。未入力なら ${DEFAULT_TIME_ZONE} を使います。`}
+                error={fieldErrors?.timezone}
+              />
+              <TextField
+                label="当日出荷の締め時刻（任意）"
+                name="cutoffTime"
+                type="time"
+                autoComplete="off"
+                value={cutoffValue}
+                onChange={setCutoffValue}
+                helpText="この時刻以降の注文は翌日の注文として扱います。"
+                error={fieldErrors?.cutoffTime}
+              />
             </BlockStack>
           </Card>
 
@@ -627,6 +846,33 @@ export default function SettingsPage() {
                     </Box>
                   ) : null}
                 </BlockStack>
+                <BlockStack gap="200">
+                  <RadioButton
+                    label="商品のプロパティ"
+                    name="deliverySource"
+                    value="line_item_property"
+                    checked={source === "line_item_property"}
+                    onChange={(checked) => {
+                      if (checked) setSourceValue("line_item_property");
+                    }}
+                  />
+                  {source === "line_item_property" ? (
+                    <Box paddingInlineStart="400">
+                      <BlockStack gap="200">
+                        <TextField
+                          label=""
+                          autoComplete="off"
+                          value={propertyKey}
+                          onChange={handlePropertyKeyChange}
+                          placeholder="お届け日"
+                          helpText="商品ごとのプロパティ名を入力してください。値の入っている最初の商品のものを使います。"
+                          error={fieldErrors?.deliveryKey}
+                          requiredIndicator
+                        />
+                      </BlockStack>
+                    </Box>
+                  ) : null}
+                </BlockStack>
               </BlockStack>
 
               <div></div>
@@ -674,6 +920,98 @@ export default function SettingsPage() {
             </BlockStack>
           </Card>
 
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                予備の取得元（任意）
+              </Text>
+              <Text as="p" tone="subdued">
+                上の取得元で読み取れない注文は、ここに並べた順に取得元を試します。販売チャネルやアプリによって保存先が違う場合に追加してください。
+              </Text>
+              {fieldErrors?.deliveryFallbacks ? (
+                <Text as="p" tone="critical">
+                  {fieldErrors.deliveryFallbacks}
+                </Text>
+              ) : null}
+              {fallbacks.map((row, index) => (
+                <InlineStack key={index} gap="200" blockAlign="end" wrap={false}>
+                  <Select
+                    label={`取得元${index + 1}`}
+                    options={DELIVERY_SOURCE_OPTIONS}
+                    value={row.source}
+                    onChange={(value) => updateFallback(index, {source: value as DeliverySource})}
+                  />
+                  <TextField
+                    label="キー"
+                    autoComplete="off"
+                    value={row.key}
+                    onChange={(value) => updateFallback(index, {key: value})}
+                    placeholder={row.source === "metafield" ? "namespace.key" : "requested_date"}
+                  />
+                  <TextField
+                    label="日付の書式"
+                    autoComplete="off"
+                    value={row.format}
+                    onChange={(value) => updateFallback(index, {format: value})}
+                    placeholder={DEFAULT_DATE_FORMAT}
+                    helpText={`${TOLERANT_DELIVERY_FORMAT} で自動判定`}
+                  />
+                  <Button onClick={() => moveFallback(index, -1)} disabled={index === 0}>
+                    上へ
+                  </Button>
+                  <Button
+                    onClick={() => moveFallback(index, 1)}
+                    disabled={index === fallbacks.length - 1}
+                  >
+                    下へ
+                  </Button>
+                  <Button tone="critical" variant="plain" onClick={() => removeFallback(index)}>
+                    削除
+                  </Button>
+                </InlineStack>
+              ))}
+              <InlineStack>
+                <Button onClick={addFallback}>取得元を追加</Button>
+              </InlineStack>
+              <input type="hidden" name="deliveryFallbacks" value={JSON.stringify(fallbacks)} />
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                お届け時間帯（任意）
+              </Text>
+              <Text as="p" tone="subdued">
+                お届け希望日を読み取った取得元から、このキーの値を時間帯（午前中・14-16 など）として読み取ります。未入力でも、お届け希望日の値に「14-16時」のように時間帯が含まれていれば使います。
+              </Text>
+              <TextField
+                label="時間帯のキー"
+                name="deliveryTimeSlotKey"
+                autoComplete="off"
+                value={timeSlotKey}
+                onChange={setTimeSlotKey}
+                placeholder="delivery_time"
+                helpText="時間帯ごとの日数の増減は出荷ルールで設定します。"
+              />
+            </BlockStack>
+          </Card>
+
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                お届け希望日がない注文
+              </Text>
+              <Checkbox
+                label="注文日から数えて最短で出荷する"
+                name="asapWhenNoDeliveryDate"
+                checked={isAsap}
+                onChange={setIsAsap}
+                helpText={`どの取得元にもお届け希望日がない注文を、エラーにせず「注文日＋ルールの日数」（休業日なら次の営業日）を出荷期限にします。該当する注文には ${ASAP_TAG} タグを付けます。`}
+              />
+            </BlockStack>
+          </Card>
+
           <Card>
             <BlockStack gap="200">
               <Text as="h2" variant="headingMd">
@@ -692,12 +1030,33 @@ export default function SettingsPage() {
                 value={tagFormat}
                 onChange={setTagFormat}
                 placeholder="ship-by-{YYYY}-{MM}-{DD}"
-                helpText="未入力なら既定の書式を使います。"
+                helpText="{SLOT} はお届け時間帯に置き換わります（時間帯がなければ空）。未入力なら既定の書式を使います。"
                 disabled={!isSaveTag}
               />
               {!isSaveTag ? (
                 <input type="hidden" name="saveTagFormat" value={tagFormat} />
               ) : null}
+              <Checkbox
+                label="注文メモへ保存"
+                name="saveNote"
+                checked={isSaveNote}
+                onChange={setIsSaveNote}
+                helpText="メモに出荷期限の行を追記します。再計算時は既存の行を置き換えます。"
+              />
+              <TextField
+                label="メモの書式"
+                name="saveNoteFormat"
+                autoComplete="off"
+                value={noteFormat}
+                onChange={setNoteFormat}
+                placeholder={DEFAULT_NOTE_FORMAT}
+                helpText="{YYYY}・{MM}・{DD} が出荷期限に、{SLOT} がお届け時間帯に置き換わります。未入力なら既定の書式を使います。"
+                disabled={!isSaveNote}
+                error={fieldErrors?.saveNoteFormat}
+              />
+              {!isSaveNote ? (
+                <input type="hidden" name="saveNoteFormat" value={noteFormat} />
+              ) : null}
             </BlockStack>
           </Card>
         </BlockStack>
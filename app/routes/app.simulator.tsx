@@ -0,0 +1,448 @@
+import {useMemo, useState, type ReactNode} from "react";
+import type {ActionFunctionArgs, LoaderFunctionArgs} from "react-router";
+import {useFetcher, useLoaderData} from "react-router";
+import {
+  Badge,
+  BlockStack,
+  Button,
+  Card,
+  DataTable,
+  InlineStack,
+  Page,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+
+import {authenticate} from "../shopify.server";
+import {getShippingRates} from "../features/shipping/server/shipping-rates.server";
+import type {ShippingRateEntry} from "../features/shipping/utils/shipping-rate-normalize";
+import {PREFECTURE_LABELS, PREFECTURES} from "../features/shipping/utils/transit-days";
+import {loadCalculationInputs} from "../features/ship-by/server/orders-create.server";
+import {coerceOrder} from "../features/ship-by/server/order-input.server";
+import {fetchOrderPayload} from "../features/ship-by/server/order-fetch.server";
+import {withProductTargets} from "../features/ship-by/server/product-targets.server";
+import {
+  buildSimulationOrder,
+  simulateShipBy,
+  type ShipBySimulation,
+} from "../features/ship-by/server/ship-by-simulation.server";
+import {DELIVERY_SOURCE_LABELS} from "../features/ship-by/utils/delivery-sources";
+import {LEAD_DAYS_MODE_LABELS} from "../features/ship-by/utils/lead-days-mode";
+import {ProductPreviewPills} from "../features/rules/components/ProductPreviewPills";
+import {selectionToProductSummary} from "../features/rules/utils/products";
+import {parseTargetIds, PRODUCT_RULE_TARGET_LABELS} from "../features/rules/utils/rules";
+import type {ProductSummary} from "../features/rules/utils/rule-types";
+import {CriticalBanner} from "../shared/components/CriticalBanner";
+
+type LoaderData = {
+  rates: ShippingRateEntry[];
+  deliveryKey: string | null;
+  deliveryFormat: string;
+};
+
+type ActionData =
+  | {ok: true; simulation: ShipBySimulation; orderId: string | null}
+  | {ok: false; message: string};
+
+const PRODUCT_GID_PREFIX = "gid://shopify/Product/";
+
+const TIER_LABELS: Record<number, string> = {
+  1: "1. バリエーション × 配送ケース指定",
+  2: "2. バリエーション（配送ケース指定なし）",
+  3: "3. 商品 × 配送ケース指定",
+  4: "4. 商品（配送ケース指定なし）",
+  5: "5. コレクション・タグ・ベンダー・商品タイプ × 配送ケース指定",
+  6: "6. コレクション・タグ・ベンダー・商品タイプ（配送ケース指定なし）",
+  7: "7. 全商品 × 配送ケース指定",
+  8: "8. 全商品（配送ケース指定なし）",
+};
+
+const ERROR_LABELS: Record<string, string> = {
+  missing_setting: "お届け希望日の取得元・キーが設定されていません",
+  delivery_value_not_found: "注文にお届け希望日の値が見つかりません",
+  invalid_delivery_format: "お届け希望日が設定の書式と一致しません",
+  shipping_rate_not_found: "配送ケースを特定できません",
+  shipping_rate_not_configured: "配送ケースが同期されていません",
+  no_rule: "一致するルールがありません",
+  holiday_never_resolves: "1年以内に営業日が見つかりません",
+};
+
+export const loader = async ({request}: LoaderFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const [rates, {shopSetting}] = await Promise.all([
+    getShippingRates(session.shop),
+    loadCalculationInputs(session.shop),
+  ]);
+
+  return {
+    rates,
+    deliveryKey: shopSetting.deliveryKey ?? null,
+    deliveryFormat: shopSetting.deliveryFormat || "YYYY-MM-DD",
+  } satisfies LoaderData;
+};
+
+// 入力した内容（または既存の注文）で、保存せずに出荷期限の計算だけを行う
+export const action = async ({request}: ActionFunctionArgs) => {
+  const {session} = await authenticate.admin(request);
+  const form = await request.formData();
+  const orderId = String(form.get("orderId") ?? "").trim();
+  const {shopSetting, holiday, rules} = await loadCalculationInputs(session.shop);
+
+  if (orderId) {
+    if (!/^\d+$/.test(orderId)) {
+      return {ok: false, message: "注文IDは数字で入力してください"} satisfies ActionData;
+    }
+    const payload = await fetchOrderPayload(session.shop, orderId);
+    if (!payload) {
+      return {ok: false, message: "注文が見つかりません"} satisfies ActionData;
+    }
+    const [order] = await withProductTargets(session.shop, [coerceOrder(payload)], rules);
+    const simulation = simulateShipBy({order, rules, shopSetting, holiday});
+    return {ok: true, simulation, orderId} satisfies ActionData;
+  }
+
+  let productIds: string[] = [];
+  try {
+    const parsed = JSON.parse(String(form.get("productIds") ?? "[]"));
+    productIds = (Array.isArray(parsed) ? parsed : [])
+      .map((id) => String(id).replace(PRODUCT_GID_PREFIX, ""))
+      .filter((id) => /^\d+$/.test(id));
+  } catch {
+    productIds = [];
+  }
+  const shippingRateId = String(form.get("shippingRateId") ?? "");
+  const rate = (await getShippingRates(session.shop)).find(
+    (entry) => entry.shippingRateId === shippingRateId,
+  );
+
+  const simulationOrder = buildSimulationOrder(
+    {
+      productIds,
+      shippingRate: rate ? {handle: rate.handle, title: rate.title} : null,
+      deliveryValue: String(form.get("deliveryValue") ?? "").trim(),
+      prefecture: String(form.get("prefecture") ?? ""),
+      zip: String(form.get("zip") ?? "").trim(),
+    },
+    shopSetting,
+  );
+  const [order] = await withProductTargets(session.shop, [simulationOrder], rules);
+  const simulation = simulateShipBy({order, rules, shopSetting, holiday});
+  return {ok: true, simulation, orderId: null} satisfies ActionData;
+};
+
+type ShopifyWindow = Window & {
+  shopify?: {
+    resourcePicker?: (options: {
+      type: "product";
+      action: "select";
+      multiple: boolean;
+      filter?: {variants?: boolean};
+      selectionIds?: Array<{id: string}>;
+    }) => Promise<{selection?: unknown[]} | unknown[] | null | undefined>;
+  };
+};
+
+const formatSkipped = (days: string[]) => (days.length > 0 ? days.join("、") : "なし");
+
+const PREFECTURE_OPTIONS = [
+  {label: "指定なし", value: ""},
+  ...PREFECTURES.map((prefecture) => ({label: prefecture.label, value: prefecture.code})),
+];
+
+function StepCard({title, children}: {title: string; children: ReactNode}) {
+  return (
+    <Card>
+      <BlockStack gap="200">
+        <Text as="h2" variant="headingMd">
+          {title}
+        </Text>
+        {children}
+      </BlockStack>
+    </Card>
+  );
+}
+
+function SimulationResult({simulation}: {simulation: ShipBySimulation}) {
+  const {delivery, shippingRate, result} = simulation;
+  const adoptedAttemptIndex = delivery.attempts.findIndex((attempt) => attempt.parsed);
+  const ruleRows = simulation.rules.map((rule) => [
+    rule.id,
+    rule.targetType === "all"
+      ? "全商品"
+      : `${PRODUCT_RULE_TARGET_LABELS[rule.targetType]} ${parseTargetIds(rule.targetId).join(", ") || "-"}`,
+    rule.shippingRateIds.length > 0 ? rule.shippingRateIds.join(", ") : "指定なし",
+    rule.timeSlotAdjustment
+      ? `${rule.days}日（時間帯 ${rule.timeSlotAdjustment > 0 ? "+" : ""}${rule.timeSlotAdjustment}日）`
+      : `${rule.days}日`,
+    rule.leadDaysMode ? LEAD_DAYS_MODE_LABELS[rule.leadDaysMode] : "設定に従う",
+    rule.tier ? TIER_LABELS[rule.tier] : "一致しない",
+    rule.adopted ? <Badge tone="success">採用</Badge> : "",
+  ]);
+
+  return (
+    <BlockStack gap="400">
+      <Card>
+        <InlineStack gap="200" blockAlign="center">
+          <Text as="h2" variant="headingLg">
+            {result.ok ? `出荷期限: ${result.shipBy}` : "計算できませんでした"}
+          </Text>
+          {result.ok && result.shortfallDays ? (
+            <Badge tone="critical">{`間に合わない（${result.shortfallDays}日不足）`}</Badge>
+          ) : null}
+          {!result.ok ? <Badge tone="critical">{ERROR_LABELS[result.error] ?? result.error}</Badge> : null}
+        </InlineStack>
+      </Card>
+
+      <StepCard title="1. お届け希望日">
+        {delivery.attempts.length === 0 ? <Text as="p">取得元: 未設定</Text> : null}
+        {delivery.attempts.length > 1 ? (
+          <Text as="p" tone="subdued">
+            取得元を上から順に試し、最初に読み取れた値を使います。
+          </Text>
+        ) : null}
+        {delivery.attempts.map((attempt, index) => (
+          <InlineStack key={`${attempt.source}-${attempt.key}-${index}`} gap="200" blockAlign="center">
+            <Text as="span">
+              {`${index + 1}. ${DELIVERY_SOURCE_LABELS[attempt.source]}（${attempt.key}） / 書式: ${attempt.format} / 値: ${attempt.rawValue ?? "なし"}`}
+            </Text>
+            {index === adoptedAttemptIndex ? (
+              <Badge tone="success">採用</Badge>
+            ) : attempt.rawValue ? (
+              <Badge tone="critical">書式不一致</Badge>
+            ) : (
+              <Badge>値なし</Badge>
+            )}
+          </InlineStack>
+        ))}
+        <Text as="p">解釈した日付: {delivery.parsed ?? "-"}</Text>
+        <Text as="p">お届け時間帯: {delivery.timeSlot ?? "指定なし"}</Text>
+        <Text as="p">
+          お届け先:{" "}
+          {simulation.destination.prefecture
+            ? PREFECTURE_LABELS[simulation.destination.prefecture]
+            : "指定なし"}
+          {simulation.destination.zip ? `（〒${simulation.destination.zip}）` : ""}
+        </Text>
+        <Text as="p" tone="subdued">
+          注文日（締め時刻を考慮）: {simulation.orderDate}
+        </Text>
+      </StepCard>
+
+      <StepCard title="2. 配送ケースの特定">
+        {shippingRate.candidates.length === 0 ? (
+          <Text as="p">照合する値がありません。</Text>
+        ) : (
+          <BlockStack gap="100">
+            {shippingRate.candidates.map((candidate, index) => (
+              <InlineStack key={`${candidate.value}-${index}`} gap="200" blockAlign="center">
+                <Text as="span">{candidate.value}</Text>
+                {candidate.matchedRateId ? (
+                  <Badge tone="success">{`一致: ${candidate.matchedRateId}`}</Badge>
+                ) : (
+                  <Badge>不一致</Badge>
+                )}
+              </InlineStack>
+            ))}
+          </BlockStack>
+        )}
+        <Text as="p">
+          特定した配送ケース: {shippingRate.detected ?? "なし"}
+          {shippingRate.usedFallback ? "（設定の基準日数で計算）" : ""}
+        </Text>
+      </StepCard>
+
+      <StepCard title="3. ルールの採用">
+        <Text as="p">
+          一致した優先順位: {simulation.adoptedTier ? TIER_LABELS[simulation.adoptedTier] : "なし"}
+          {simulation.leadTime?.usedDefaultLeadDays ? "（ルールなし・設定の基準日数）" : ""}
+        </Text>
+        <Text as="p" tone="subdued">
+          優先順位の高い集合から、最大の日数のルールを採用します。
+        </Text>
+        {ruleRows.length > 0 ? (
+          <DataTable
+            columnContentTypes={["text", "text", "text", "numeric", "text", "text", "text"]}
+            headings={["ルールID", "対象", "配送ケース", "日数", "数え方", "優先順位", ""]}
+            rows={ruleRows}
+          />
+        ) : (
+          <Text as="p">ルールがありません。</Text>
+        )}
+      </StepCard>
+
+      {simulation.leadTime && simulation.subtraction && simulation.adjustment ? (
+        <StepCard title="4. 日数の差し引きと休業日の補正">
+          {simulation.asap ? (
+            <Text as="p" tone="subdued">
+              お届け希望日がないため、注文日から数えた最短の出荷期限にしました。
+            </Text>
+          ) : null}
+          {simulation.leadTime.transitDays > 0 ? (
+            <Text as="p" tone="subdued">
+              出荷までの日数{simulation.leadTime.days}日に、お届け先までの配送日数
+              {simulation.leadTime.transitDays}日を足しています。
+            </Text>
+          ) : null}
+          <Text as="p">
+            {simulation.subtraction.from} から{" "}
+            {simulation.leadTime.days + simulation.leadTime.transitDays}日（
+            {LEAD_DAYS_MODE_LABELS[simulation.leadTime.mode]}）
+            {simulation.asap ? "進めて" : "さかのぼって"} {simulation.subtraction.to}
+          </Text>
+          {simulation.leadTime.mode === "business" ? (
+            <Text as="p">数えずに飛ばした休業日: {formatSkipped(simulation.subtraction.skippedDays)}</Text>
+          ) : null}
+          <Text as="p">
+            休業日の補正: {simulation.adjustment.from} → {simulation.adjustment.to}（飛ばした休業日:{" "}
+            {formatSkipped(simulation.adjustment.skippedDays)}）
+          </Text>
+        </StepCard>
+      ) : null}
+    </BlockStack>
+  );
+}
+
+// 注文を作らずに、現在のルール・休業日で出荷期限の計算を試すページ
+export default function SimulatorPage() {
+  const {rates, deliveryKey, deliveryFormat} = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionData>();
+  const [products, setProducts] = useState<ProductSummary[]>([]);
+  const [shippingRateId, setShippingRateId] = useState(rates[0]?.shippingRateId ?? "");
+  const [deliveryValue, setDeliveryValue] = useState("");
+  const [prefecture, setPrefecture] = useState("");
+  const [zip, setZip] = useState("");
+  const [orderId, setOrderId] = useState("");
+  const isBusy = fetcher.state !== "idle";
+  const errorMessage = fetcher.data && !fetcher.data.ok ? fetcher.data.message : null;
+  const simulation = fetcher.data?.ok ? fetcher.data.simulation : null;
+
+  const rateOptions = useMemo(
+    () => [
+      {label: "配送方法なし", value: ""},
+      ...rates.map((rate) => ({
+        label: rate.zoneName ? `${rate.zoneName} / ${rate.title}` : rate.title,
+        value: rate.shippingRateId,
+      })),
+    ],
+    [rates],
+  );
+
+  const openProductPicker = async () => {
+    try {
+      const picker = (window as ShopifyWindow)?.shopify?.resourcePicker;
+      if (typeof picker !== "function") {
+        console.error("shopify.resourcePicker is not available");
+        return;
+      }
+      const result = await picker({
+        type: "product",
+        action: "select",
+        multiple: true,
+        filter: {variants: false},
+        selectionIds: products.map((product) => ({id: product.id})),
+      });
+      if (!result) return;
+      const selectionItems = Array.isArray(result)
+        ? result
+        : Array.isArray(result?.selection)
+          ? result.selection
+          : [];
+      setProducts(
+        selectionItems
+          .map((item) => selectionToProductSummary(item))
+          .filter((item): item is ProductSummary => Boolean(item)),
+      );
+    } catch (error) {
+      console.error("product picker failed", error);
+    }
+  };
+
+  const simulate = () => {
+    fetcher.submit(
+      {
+        productIds: JSON.stringify(products.map((product) => product.id)),
+        shippingRateId,
+        deliveryValue,
+        prefecture,
+        zip,
+        orderId,
+      },
+      {method: "post"},
+    );
+  };
+
+  return (
+    <Page title="ルールのシミュレーター">
+      <BlockStack gap="400">
+        <Text as="p" tone="subdued">
+          注文を作らずに、現在のルール・休業日・設定で出荷期限を計算します。結果は保存されません。
+        </Text>
+        <CriticalBanner message={errorMessage} />
+
+        <Card>
+          <BlockStack gap="300">
+            <BlockStack gap="100">
+              <Text as="span">商品</Text>
+              <ProductPreviewPills products={products} onClick={openProductPicker} />
+            </BlockStack>
+            <Select
+              label="配送方法"
+              options={rateOptions}
+              value={shippingRateId}
+              onChange={setShippingRateId}
+            />
+            <TextField
+              label="お届け希望日"
+              autoComplete="off"
+              value={deliveryValue}
+              onChange={setDeliveryValue}
+              placeholder={deliveryFormat}
+              helpText={`注文の${deliveryKey ?? "（キー未設定）"}に入る値をそのまま入力します（書式: ${deliveryFormat}）`}
+            />
+            <InlineStack gap="300">
+              <Select
+                label="お届け先の都道府県"
+                options={PREFECTURE_OPTIONS}
+                value={prefecture}
+                onChange={setPrefecture}
+              />
+              <TextField
+                label="お届け先の郵便番号"
+                autoComplete="off"
+                value={zip}
+                onChange={setZip}
+                placeholder="907-0002"
+              />
+            </InlineStack>
+            <TextField
+              label="注文ID（任意）"
+              autoComplete="off"
+              value={orderId}
+              onChange={setOrderId}
+              helpText="入力すると既存の注文の内容で計算します（上の入力は使いません）"
+            />
+            <InlineStack>
+              <Button variant="primary" onClick={simulate} loading={isBusy}>
+                計算する
+              </Button>
+            </InlineStack>
+          </BlockStack>
+        </Card>
+
+        {simulation ? (
+          <BlockStack gap="200">
+            {fetcher.data?.ok && fetcher.data.orderId ? (
+              <Text as="p" tone="subdued">
+                注文 {fetcher.data.orderId} の内容で計算しました。
+              </Text>
+            ) : null}
+            <SimulationResult simulation={simulation} />
+          </BlockStack>
+        ) : null}
+
+        <div style={{height: "60px"}}></div>
+      </BlockStack>
+    </Page>
+  );
+}
@@ -110,7 +110,13 @@ export default function App() {
       <AppBridgeScript apiKey={apiKey} host={host} />
       <AppProvider i18n={enTranslations} linkComponent={PolarisLink as LinkLikeComponent}>
         <NavMenu>
+          <a href="/app/orders">出荷予定</a>
           <a href="/app/rules">出荷ルール</a>
+          <a href="/app/holidays">休業日</a>
+          <a href="/app/errors">エラー記録</a>
+          <a href="/app/simulator">シミュレーター</a>
+          <a href="/app/backfill">一括計算</a>
+          <a href="/app/data-requests">顧客データ開示</a>
           <a href="/app/settings">設定</a>
         </NavMenu>
         <Outlet />
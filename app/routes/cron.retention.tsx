@@ -0,0 +1,29 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+
+import { runRetentionCleanup } from "../features/privacy/server/retention.server";
+
+// 外部スケジューラから呼ばれる。CRON_SECRET を Bearer トークンで渡す
+const isAuthorized = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get("Authorization") === `Bearer ${secret}`;
+};
+
+// GET: 削除対象のレポートのみ（dry-run）
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  if (!isAuthorized(request)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  return Response.json(await runRetentionCleanup({ dryRun: true }));
+};
+
+// POST: 保持期間を過ぎた店舗のデータを削除する（?dryRun=1 ならレポートのみ）
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (!isAuthorized(request)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const dryRun = new URL(request.url).searchParams.get("dryRun") === "1";
+  return Response.json(await runRetentionCleanup({ dryRun }));
+};
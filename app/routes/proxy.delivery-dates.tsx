@@ -0,0 +1,30 @@
+import type {LoaderFunctionArgs} from "react-router";
+
+import {authenticate} from "../shopify.server";
+import {getEarliestDelivery} from "../features/ship-by/server/earliest-delivery.server";
+import {parseDeliveryDateQuery} from "../features/ship-by/utils/delivery-date-query";
+
+// アプリプロキシ（/apps/delivery-dates）経由でストアフロントから呼ばれる。
+// ?product_ids=1,2&shipping_rate=yamato で最短のお届け日と選べない日付を返す
+export const loader = async ({request}: LoaderFunctionArgs) => {
+  const {session} = await authenticate.public.appProxy(request);
+  if (!session) {
+    return Response.json(
+      {ok: false, error: "shop_not_installed", message: "app is not installed"},
+      {status: 404},
+    );
+  }
+
+  const query = parseDeliveryDateQuery(new URL(request.url).searchParams);
+  if (!query.ok) {
+    return Response.json({ok: false, error: query.error, message: query.message}, {status: 400});
+  }
+
+  const result = await getEarliestDelivery(session.shop, query.value);
+
+  // 締め時刻をまたぐと結果が変わるため、短時間だけキャッシュさせる
+  return Response.json(result, {
+    status: result.ok ? 200 : 422,
+    headers: {"Cache-Control": "private, max-age=60"},
+  });
+};
@@ -0,0 +1,16 @@
+import type { ActionFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import { recordCustomerDataRequest } from "../features/privacy/server/privacy.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // 出力は保存し、マーチャントは管理画面（顧客データ開示）からダウンロードする
+  const recorded = await recordCustomerDataRequest(shop, payload);
+  console.log("[privacy] stored customer data export", { shop, ...recorded });
+
+  return new Response();
+};
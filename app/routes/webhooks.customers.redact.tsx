@@ -0,0 +1,15 @@
+import type { ActionFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import { redactCustomerData } from "../features/privacy/server/privacy.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const redacted = await redactCustomerData(shop, payload);
+  console.log("[privacy] redacted error logs", { shop, count: redacted });
+
+  return new Response();
+};
@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import { handleOrdersEdited } from "../features/ship-by/server/orders-updated.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  await handleOrdersEdited(shop, payload);
+
+  return new Response();
+};
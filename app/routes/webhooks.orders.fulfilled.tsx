@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import { handleOrdersFulfilled } from "../features/ship-by/server/fulfillments.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  await handleOrdersFulfilled(shop, payload);
+
+  return new Response();
+};
@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import { purgeShopData } from "../features/privacy/server/privacy.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  await purgeShopData(shop);
+
+  return new Response();
+};
@@ -7,7 +7,7 @@ import {
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import { DeliveryMethod } from "@shopify/shopify-api";
 import prisma from "./db.server";
-import { upsertShopFromSession } from "./features/shop/server/shop.server";
+import { syncShopTimeZone, upsertShopFromSession } from "./features/shop/server/shop.server";
 import { ensureShipByMetafieldDefinition } from "./features/ship-by/server/ship-by-metafield.server";
 
 const defaultScopes = [
@@ -45,6 +45,18 @@ const shopify = shopifyApp({
       deliveryMethod: DeliveryMethod.Http,
       callbackUrl: "/webhooks/orders/create",
     },
+    ORDERS_UPDATED: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/orders/updated",
+    },
+    ORDERS_EDITED: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/orders/edited",
+    },
+    ORDERS_FULFILLED: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/orders/fulfilled",
+    },
   },
   hooks: {
     afterAuth: async ({ session }) => {
@@ -55,6 +67,11 @@ const shopify = shopifyApp({
       } catch (error) {
         console.error("[shopify] failed to ensure ship-by metafield", error);
       }
+      try {
+        await syncShopTimeZone(session.shop);
+      } catch (error) {
+        console.error("[shopify] failed to sync shop timezone", error);
+      }
     },
   },
   ...(process.env.SHOP_CUSTOM_DOMAIN
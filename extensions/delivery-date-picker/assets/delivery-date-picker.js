@@ -0,0 +1,194 @@
+// カートページのお届け希望日カレンダー。
+// アプリプロキシで最短のお届け日を取得し、それより前と選べる期間より後の日付は選べないようにする。
+// 選んだ日付は ShopSetting.deliveryFormat の書式で、deliveryKey のカート属性に書き込む。
+(() => {
+  const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  // 日付は YYYY-MM-DD のキーで扱い、計算は UTC 0時の Date で行う（サーバーと同じ）
+  const toDate = (key) => new Date(`${key}T00:00:00.000Z`);
+  const toKey = (date) => date.toISOString().slice(0, 10);
+  const addDays = (key, days) => toKey(new Date(toDate(key).getTime() + days * DAY_MS));
+  const pad = (value) => String(value).padStart(2, "0");
+
+  // サーバーの parseDeliveryDate が読める書式（YYYY / MM / DD / ddd）に整形する
+  const formatDate = (key, format) => {
+    const date = toDate(key);
+    const values = {
+      YYYY: String(date.getUTCFullYear()),
+      MM: pad(date.getUTCMonth() + 1),
+      DD: pad(date.getUTCDate()),
+      ddd: WEEKDAYS[date.getUTCDay()],
+    };
+    return format.replace(/YYYY|MM|DD|ddd/g, (token) => values[token]);
+  };
+
+  const fetchDeliveryDates = async (root) => {
+    const params = new URLSearchParams();
+    if (root.dataset.productIds) params.set("product_ids", root.dataset.productIds);
+    if (root.dataset.shippingRate) params.set("shipping_rate", root.dataset.shippingRate);
+    const response = await fetch(`${root.dataset.endpoint}?${params}`, {
+      headers: {Accept: "application/json"},
+    });
+    return response.json();
+  };
+
+  const fetchCartAttributes = async () => {
+    const response = await fetch("/cart.js", {headers: {Accept: "application/json"}});
+    const cart = await response.json();
+    return cart.attributes ?? {};
+  };
+
+  const saveCartAttribute = async (key, value) => {
+    const response = await fetch("/cart/update.js", {
+      method: "POST",
+      headers: {"Content-Type": "application/json", Accept: "application/json"},
+      body: JSON.stringify({attributes: {[key]: value}}),
+    });
+    if (!response.ok) throw new Error(`cart update failed: ${response.status}`);
+  };
+
+  const createPicker = (root, data, initialValue) => {
+    const status = root.querySelector("[data-status]");
+    const calendar = root.querySelector("[data-calendar]");
+    const selectedText = root.querySelector("[data-selected]");
+    const minKey = data.earliestDeliveryDate;
+    const maxKey = addDays(
+      minKey,
+      Math.max(Number.parseInt(root.dataset.selectableDays ?? "30", 10) || 30, 1) - 1,
+    );
+
+    // 選べる日付を書式化した値から逆引きし、カートに保存済みの日付を復元する
+    const selectableByValue = new Map();
+    for (let key = minKey; key <= maxKey; key = addDays(key, 1)) {
+      selectableByValue.set(formatDate(key, data.deliveryFormat), key);
+    }
+    let selectedKey = selectableByValue.get(initialValue) ?? null;
+    let monthKey = `${(selectedKey ?? minKey).slice(0, 7)}-01`;
+
+    const showStatus = (message, isError = false) => {
+      status.textContent = message;
+      status.hidden = !message;
+      status.classList.toggle("ship-by-date-picker__status--error", isError);
+    };
+
+    const showSelected = () => {
+      selectedText.hidden = !selectedKey;
+      selectedText.textContent = selectedKey
+        ? `お届け希望日: ${formatDate(selectedKey, "YYYY年MM月DD日（ddd）")}`
+        : "";
+    };
+
+    const select = async (key) => {
+      const previous = selectedKey;
+      selectedKey = key;
+      render();
+      try {
+        await saveCartAttribute(data.deliveryKey, formatDate(key, data.deliveryFormat));
+        showStatus("");
+      } catch (error) {
+        console.error("[delivery-date-picker]", error);
+        selectedKey = previous;
+        render();
+        showStatus("お届け希望日を保存できませんでした。もう一度お試しください。", true);
+      }
+    };
+
+    const render = () => {
+      const monthStart = toDate(monthKey);
+      const year = monthStart.getUTCFullYear();
+      const month = monthStart.getUTCMonth();
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      const prevMonthKey = toKey(new Date(Date.UTC(year, month - 1, 1)));
+      const nextMonthKey = toKey(new Date(Date.UTC(year, month + 1, 1)));
+
+      const nav = document.createElement("div");
+      nav.className = "ship-by-date-picker__nav";
+      const prev = document.createElement("button");
+      prev.type = "button";
+      prev.textContent = "‹";
+      prev.setAttribute("aria-label", "前の月");
+      prev.disabled = monthKey <= minKey.slice(0, 7) + "-01";
+      prev.addEventListener("click", () => {
+        monthKey = prevMonthKey;
+        render();
+      });
+      const title = document.createElement("span");
+      title.textContent = `${year}年${month + 1}月`;
+      const next = document.createElement("button");
+      next.type = "button";
+      next.textContent = "›";
+      next.setAttribute("aria-label", "次の月");
+      next.disabled = nextMonthKey > maxKey;
+      next.addEventListener("click", () => {
+        monthKey = nextMonthKey;
+        render();
+      });
+      nav.append(prev, title, next);
+
+      const grid = document.createElement("div");
+      grid.className = "ship-by-date-picker__grid";
+      WEEKDAYS.forEach((weekday) => {
+        const cell = document.createElement("span");
+        cell.className = "ship-by-date-picker__weekday";
+        cell.textContent = weekday;
+        grid.append(cell);
+      });
+      for (let i = 0; i < monthStart.getUTCDay(); i++) {
+        grid.append(document.createElement("span"));
+      }
+      for (let day = 1; day <= daysInMonth; day++) {
+        const key = toKey(new Date(Date.UTC(year, month, day)));
+        const button = document.createElement("button");
+        button.type = "button";
+        button.className = "ship-by-date-picker__day";
+        button.textContent = String(day);
+        button.disabled = key < minKey || key > maxKey;
+        button.setAttribute("aria-pressed", String(key === selectedKey));
+        button.setAttribute("aria-label", formatDate(key, "YYYY年MM月DD日（ddd）"));
+        button.addEventListener("click", () => select(key));
+        grid.append(button);
+      }
+
+      calendar.replaceChildren(nav, grid);
+      calendar.hidden = false;
+      showSelected();
+    };
+
+    render();
+    if (initialValue && !selectedKey) {
+      showStatus("選択済みのお届け希望日は選べなくなりました。日付を選び直してください。", true);
+    } else {
+      showStatus("");
+    }
+  };
+
+  const init = async (root) => {
+    if (root.dataset.initialized) return;
+    root.dataset.initialized = "true";
+    const status = root.querySelector("[data-status]");
+
+    try {
+      const data = await fetchDeliveryDates(root);
+      if (!data.ok || !data.deliveryKey) {
+        status.textContent = "現在お届け希望日は指定できません。";
+        return;
+      }
+      const attributes = await fetchCartAttributes();
+      createPicker(root, data, attributes[data.deliveryKey] ?? null);
+    } catch (error) {
+      console.error("[delivery-date-picker]", error);
+      status.textContent = "お届け可能日を取得できませんでした。";
+    }
+  };
+
+  const initAll = () => {
+    document.querySelectorAll("[data-ship-by-date-picker]").forEach((root) => {
+      init(root);
+    });
+  };
+
+  initAll();
+  // テーマエディタでブロックを追加・再読み込みしたとき
+  document.addEventListener("shopify:section:load", initAll);
+})();
@@ -0,0 +1,128 @@
+import "@shopify/ui-extensions/preact";
+import {render} from "preact";
+import {useEffect, useState} from "preact/hooks";
+
+// 注文詳細に、出荷期限をどう決めたか（shipping.ship_by_trace メタフィールド）を表示するブロック
+export default async () => {
+  render(<Extension />, document.body);
+};
+
+const TRACE_QUERY = `#graphql
+  query ShipByTrace($id: ID!) {
+    order(id: $id) {
+      metafield(namespace: "shipping", key: "ship_by_trace") {
+        value
+      }
+    }
+  }
+`;
+
+const LEAD_DAYS_MODE_LABELS = {
+  calendar: "カレンダー日",
+  business: "営業日",
+};
+
+const DELIVERY_SOURCE_LABELS = {
+  metafield: "注文メタフィールド",
+  attributes: "注文属性",
+  line_item_property: "商品のプロパティ",
+};
+
+const parseTrace = (value) => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+const renderRow = (label, value) => (
+  <s-stack direction="inline" gap="base" justifyContent="space-between">
+    <s-text color="subdued">{label}</s-text>
+    <s-text>{value}</s-text>
+  </s-stack>
+);
+
+function Extension() {
+  const orderId = shopify.data.selected?.[0]?.id;
+  const [state, setState] = useState({loading: true, trace: null, failed: false});
+
+  useEffect(() => {
+    if (!orderId) {
+      setState({loading: false, trace: null, failed: false});
+      return;
+    }
+    shopify
+      .query(TRACE_QUERY, {variables: {id: orderId}})
+      .then((result) => {
+        setState({
+          loading: false,
+          trace: parseTrace(result?.data?.order?.metafield?.value),
+          failed: Boolean(result?.errors?.length),
+        });
+      })
+      .catch((error) => {
+        console.error("[ship-by-order-block]", error);
+        setState({loading: false, trace: null, failed: true});
+      });
+  }, [orderId]);
+
+  if (state.loading) {
+    return (
+      <s-admin-block heading="出荷期限の計算内容">
+        <s-spinner accessibilityLabel="読み込み中" />
+      </s-admin-block>
+    );
+  }
+
+  if (!state.trace) {
+    return (
+      <s-admin-block heading="出荷期限の計算内容">
+        <s-text color="subdued">
+          {state.failed
+            ? "計算内容を取得できませんでした。"
+            : "この注文には出荷期限の計算記録がありません。"}
+        </s-text>
+      </s-admin-block>
+    );
+  }
+
+  const {trace} = state;
+
+  return (
+    <s-admin-block heading="出荷期限の計算内容">
+      <s-stack direction="block" gap="small-200">
+        {renderRow("出荷期限", trace.shipBy)}
+        {renderRow("お届け希望日", trace.asap ? "指定なし（注文日から最短で出荷）" : trace.deliveryDate)}
+        {trace.deliverySource
+          ? renderRow(
+              "読み取った取得元",
+              `${DELIVERY_SOURCE_LABELS[trace.deliverySource] ?? trace.deliverySource}（${trace.deliveryKey}）`,
+            )
+          : null}
+        {trace.timeSlot ? renderRow("お届け時間帯", trace.timeSlot) : null}
+        {renderRow("注文日", trace.orderDate)}
+        {renderRow(
+          "採用日数",
+          `${trace.adoptDays}日（${LEAD_DAYS_MODE_LABELS[trace.leadDaysMode] ?? trace.leadDaysMode}）`,
+        )}
+        {trace.transitDays > 0
+          ? renderRow("お届け先までの配送日数", `${trace.transitDays}日（採用日数に加算）`)
+          : null}
+        {renderRow("配送ケース", trace.shippingRateId ?? "特定できず")}
+        {renderRow(
+          "一致したルール",
+          trace.usedDefaultLeadDays ? "なし（設定の基準日数）" : trace.matchedRuleIds.join(", "),
+        )}
+        {renderRow(
+          "休業日による繰り下げ",
+          trace.holidayShifted ? `あり（${trace.adjustedFrom} → ${trace.shipBy}）` : "なし",
+        )}
+        {trace.shortfallDays ? (
+          <s-badge tone="critical">{`間に合わない（${trace.shortfallDays}日不足）`}</s-badge>
+        ) : null}
+      </s-stack>
+    </s-admin-block>
+  );
+}
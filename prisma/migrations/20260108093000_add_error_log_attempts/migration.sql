@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ErrorLog" ADD COLUMN "attempts" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "BackfillJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "cursor" TEXT,
+    "total" INTEGER,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "succeeded" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "finishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "BackfillJob_shopId_createdAt_idx" ON "BackfillJob"("shopId", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShipByRecord" ADD COLUMN "inputFingerprint" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN "leadDaysMode" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "leadDaysMode" TEXT NOT NULL DEFAULT 'calendar';
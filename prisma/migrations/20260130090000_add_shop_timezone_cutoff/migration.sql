@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "timezone" TEXT;
+ALTER TABLE "ShopSetting" ADD COLUMN "cutoffTime" TEXT;
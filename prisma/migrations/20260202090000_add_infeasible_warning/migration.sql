@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ErrorLog" ADD COLUMN "kind" TEXT NOT NULL DEFAULT 'error';
+
+-- AlterTable
+ALTER TABLE "ShipByRecord" ADD COLUMN "shortfallDays" INTEGER;
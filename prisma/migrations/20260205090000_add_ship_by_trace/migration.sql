@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ShipByRecord" ADD COLUMN "adoptDays" INTEGER;
+ALTER TABLE "ShipByRecord" ADD COLUMN "leadDaysMode" TEXT;
+ALTER TABLE "ShipByRecord" ADD COLUMN "matchedRuleIds" JSONB;
+ALTER TABLE "ShipByRecord" ADD COLUMN "adjustedFrom" DATETIME;
+ALTER TABLE "ShipByRecord" ADD COLUMN "usedDefaultLeadDays" BOOLEAN;
+ALTER TABLE "ShipByRecord" ADD COLUMN "settingsVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "settingsVersion" INTEGER NOT NULL DEFAULT 1;
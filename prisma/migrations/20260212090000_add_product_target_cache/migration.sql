@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ProductTargetCache" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "vendor" TEXT,
+    "productType" TEXT,
+    "tags" JSONB NOT NULL,
+    "collectionIds" JSONB NOT NULL,
+    "fetchedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductTargetCache_shopId_productId_key" ON "ProductTargetCache"("shopId", "productId");
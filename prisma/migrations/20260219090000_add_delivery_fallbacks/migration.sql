@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "deliveryFallbacks" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "ShipByRecord" ADD COLUMN "deliverySource" TEXT;
+ALTER TABLE "ShipByRecord" ADD COLUMN "deliveryKey" TEXT;
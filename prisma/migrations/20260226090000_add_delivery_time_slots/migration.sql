@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "deliveryTimeSlotKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN "timeSlotDays" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "ShipByRecord" ADD COLUMN "deliveryTimeSlot" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN "asapWhenNoDeliveryDate" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "ShipByRecord" ADD COLUMN "isAsap" BOOLEAN NOT NULL DEFAULT false;
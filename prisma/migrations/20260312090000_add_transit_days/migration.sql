@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShippingRate" ADD COLUMN "transitDays" JSONB NOT NULL DEFAULT '{}';
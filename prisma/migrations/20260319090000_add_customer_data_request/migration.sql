@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "CustomerDataRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shopId" TEXT NOT NULL,
+    "dataRequestId" TEXT,
+    "customerId" TEXT,
+    "orderIds" JSONB NOT NULL DEFAULT '[]',
+    "export" JSONB NOT NULL,
+    "downloadedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "CustomerDataRequest_shopId_createdAt_idx" ON "CustomerDataRequest"("shopId", "createdAt");